@@ -1,11 +1,7 @@
 // app/callProvider.server.ts
 import db from "./db.server";
-
-function requiredEnv(name: string) {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
-}
+import { getCallProvider } from "./lib/providers/index.server";
+import { ensureRecoveryLink } from "./lib/recoveryLinks.server";
 
 type Tone = "neutral" | "friendly" | "premium" | "urgent";
 type Goal = "complete_checkout" | "qualify_and_follow_up" | "support_only";
@@ -163,6 +159,7 @@ function buildSystemPrompt(args: {
     value: number;
     currency: string;
     itemsJson?: string | null;
+    recoveryLink?: string | null;
   };
   playbook: {
     tone: Tone;
@@ -233,6 +230,11 @@ Context:
 - Cart total: ${checkout.value} ${checkout.currency}
 - Cart items:
 ${cartText}
+- Checkout link: ${
+    checkout.recoveryLink
+      ? `${checkout.recoveryLink} (share this exact link when the customer wants to finish online or asks for it in a follow-up)`
+      : "none available"
+  }
 `.trim();
 
   const merchant = (merchantPrompt ?? "").trim();
@@ -241,11 +243,9 @@ ${cartText}
   return `${base}\n\nMerchant instructions (must follow):\n${merchant}`.trim();
 }
 
-export async function startVapiCallForJob(params: { shop: string; callJobId: string }) {
-  const VAPI_API_KEY = requiredEnv("VAPI_API_KEY");
-  const VAPI_ASSISTANT_ID = requiredEnv("VAPI_ASSISTANT_ID");
-  const VAPI_PHONE_NUMBER_ID = requiredEnv("VAPI_PHONE_NUMBER_ID");
-  const VAPI_SERVER_URL = requiredEnv("VAPI_SERVER_URL");
+export async function startCallForJob(params: { shop: string; callJobId: string }) {
+  const provider = getCallProvider();
+  if (!(await provider.isConfigured(params.shop))) throw new Error(`Call provider "${provider.name}" is not configured`);
 
   const job = await db.callJob.findFirst({
     where: { id: params.callJobId, shop: params.shop },
@@ -279,6 +279,14 @@ export async function startVapiCallForJob(params: { shop: string; callJobId: str
     followupSmsEnabled: Boolean(extras?.followup_sms_enabled ?? false),
   };
 
+  // Tracked link back to the checkout; the call goes ahead without one.
+  const recoveryLink = await ensureRecoveryLink({ shop: params.shop, checkoutId: job.checkoutId, callJobId: job.id }).catch(
+    (e) => {
+      console.error("[recovery link] not created", job.id, e instanceof Error ? e.message : String(e));
+      return null;
+    }
+  );
+
   const systemPrompt = buildSystemPrompt({
     merchantPrompt: (settings as any)?.userPrompt ?? "",
     checkout: {
@@ -289,6 +297,7 @@ export async function startVapiCallForJob(params: { shop: string; callJobId: str
       value: checkout.value,
       currency: checkout.currency,
       itemsJson: checkout.itemsJson,
+      recoveryLink: recoveryLink?.url ?? null,
     },
     playbook,
   });
@@ -298,91 +307,52 @@ export async function startVapiCallForJob(params: { shop: string; callJobId: str
     where: { id: job.id },
     data: {
       status: "CALLING",
-      provider: "vapi",
+      provider: provider.name,
       outcome: null,
     },
   });
 
-  const webhookUrl = VAPI_SERVER_URL.replace(/\/$/, "");
-
-  const res = await fetch("https://api.vapi.ai/call/phone", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${VAPI_API_KEY}`,
-      Accept: "application/json",
-    },
-    body: JSON.stringify({
-      phoneNumberId: VAPI_PHONE_NUMBER_ID,
-      assistantId: VAPI_ASSISTANT_ID,
-
-      customer: {
-        number: job.phone,
-        name: checkout.customerName ?? undefined,
-      },
-
-      assistant: {
-        model: {
-          provider: "openai",
-          model: "gpt-4o-mini",
-          messages: [
-            { role: "system", content: systemPrompt },
-            {
-              role: "user",
-              content:
-                "Start the call now. Greet the customer, mention they almost completed checkout, and ask if they want help finishing the order.",
-            },
-          ],
-        },
-
-        // ✅ Supabase Edge Function webhook
-        serverUrl: webhookUrl,
-        serverMessages: ["status-update", "end-of-call-report", 'transcript[transcriptType="final"]'],
-
-        metadata: {
-          shop: params.shop,
-          callJobId: job.id,
-          checkoutId: job.checkoutId,
-        },
-      },
+  const tag = provider.name.toUpperCase();
 
+  let res;
+  try {
+    res = await provider.startCall({
+      phone: job.phone,
+      customerName: checkout.customerName ?? null,
+      systemPrompt,
+      firstMessage:
+        "Start the call now. Greet the customer, mention they almost completed checkout, and ask if they want help finishing the order.",
       metadata: {
         shop: params.shop,
         callJobId: job.id,
         checkoutId: job.checkoutId,
       },
-    }),
-  });
-
-  const json = await res.json().catch(() => null);
-
-  if (!res.ok) {
+    });
+  } catch (e) {
     await db.callJob.update({
       where: { id: job.id },
       data: {
         status: "FAILED",
-        outcome: `VAPI_ERROR: ${JSON.stringify(json)}`,
+        outcome: `${tag}_ERROR: ${e instanceof Error ? e.message : String(e)}`.slice(0, 2000),
       },
     });
-    throw new Error(`Vapi create call failed: ${JSON.stringify(json)}`);
+    throw e;
   }
 
-  const providerCallId = String(json?.id ?? json?.call?.id ?? "");
-
+  // Always keep the call id (the reaper polls the provider with it). The provider webhook may
+  // already have moved the job on (IN_PROGRESS, or a final status with a fast provider), so the
+  // outcome is only stamped while it's still CALLING.
   await db.callJob.update({
     where: { id: job.id },
-    data: {
-      providerCallId: providerCallId || null,
-      outcome: "VAPI_CALL_CREATED",
-      status: "CALLING",
-    },
+    data: { provider: provider.name, providerCallId: res.providerCallId },
+  });
+  await db.callJob.updateMany({
+    where: { id: job.id, status: "CALLING" },
+    data: { outcome: `${tag}_CALL_CREATED` },
   });
 
-  return { ok: true, providerCallId, raw: json };
-}
 
-export async function createVapiCallForJob(params: { shop: string; callJobId: string }) {
-  return startVapiCallForJob(params);
+  return { ok: true, provider: provider.name, providerCallId: res.providerCallId, raw: res.raw };
 }
 
 export async function placeCall(_params: {
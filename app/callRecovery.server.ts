@@ -1,163 +1,26 @@
 // app/callRecovery.server.ts
 import db from "./db.server";
-
-type AdminClient = {
-  graphql: (query: string, options?: any) => Promise<any>;
-};
-
-function parseHHMM(hhmm: string): number | null {
-  const m = /^(\d{2}):(\d{2})$/.exec((hhmm || "").trim());
-  if (!m) return null;
-  const hh = Number(m[1]);
-  const mm = Number(m[2]);
-  if (!Number.isFinite(hh) || !Number.isFinite(mm)) return null;
-  if (hh < 0 || hh > 23 || mm < 0 || mm > 59) return null;
-  return hh * 60 + mm;
-}
-
-function nextTimeWithinWindow(now: Date, startHHMM: string, endHHMM: string, leadMinutes: number) {
-  const start = parseHHMM(startHHMM) ?? 9 * 60;
-  const end = parseHHMM(endHHMM) ?? 19 * 60;
-
-  const scheduled = new Date(now.getTime() + leadMinutes * 60 * 1000);
-
-  const windowStart = Math.min(start, end);
-  const windowEnd = Math.max(start, end);
-
-  const minsScheduled = scheduled.getHours() * 60 + scheduled.getMinutes();
-  if (minsScheduled >= windowStart && minsScheduled <= windowEnd) return scheduled;
-
-  const minsNow = now.getHours() * 60 + now.getMinutes();
-
-  const next = new Date(now);
-  next.setSeconds(0, 0);
-  next.setHours(Math.floor(windowStart / 60), windowStart % 60, 0, 0);
-
-  if (minsNow > windowEnd) next.setDate(next.getDate() + 1);
-  else if (minsNow > windowStart) next.setDate(next.getDate() + 1);
-
-  return next;
-}
-
-export async function syncAbandonedCheckoutsFromShopify(params: {
-  admin: AdminClient;
-  shop: string;
-  limit?: number;
-}) {
-  const { admin, shop } = params;
-  const limit = Math.min(Math.max(params.limit ?? 50, 1), 100);
-
-  const query = `
-    query AbandonedCheckouts($first: Int!) {
-      abandonedCheckouts(first: $first) {
-        edges {
-          node {
-            id
-            createdAt
-            updatedAt
-            completedAt
-            email
-            phone
-            totalPriceSet {
-              shopMoney { amount currencyCode }
-            }
-            shippingAddress { firstName lastName }
-            customer { firstName lastName }
-            lineItems(first: 10) {
-              edges {
-                node {
-                  title
-                  quantity
-                  variantTitle
-                  originalUnitPriceSet { shopMoney { amount currencyCode } }
-                }
-              }
-            }
-          }
-        }
-      }
-    }
-  `;
-
-  try {
-    const res = await admin.graphql(query, { variables: { first: limit } });
-    const json = typeof (res as any)?.json === "function" ? await (res as any).json() : res;
-    const edges = json?.data?.abandonedCheckouts?.edges ?? [];
-    if (!Array.isArray(edges)) return { synced: 0 };
-
-    let synced = 0;
-
-    for (const e of edges) {
-      const n = e?.node;
-      const checkoutId = String(n?.id ?? "").trim();
-      if (!checkoutId) continue;
-
-      const firstName = String(n?.shippingAddress?.firstName ?? n?.customer?.firstName ?? "").trim();
-      const lastName = String(n?.shippingAddress?.lastName ?? n?.customer?.lastName ?? "").trim();
-      const customerName = `${firstName} ${lastName}`.trim() || null;
-
-      const items = (n?.lineItems?.edges ?? [])
-        .map((x: any) => x?.node)
-        .filter(Boolean)
-        .map((it: any) => ({
-          title: it?.title ?? null,
-          quantity: Number(it?.quantity ?? 1),
-          variantTitle: it?.variantTitle ?? null,
-          price: it?.originalUnitPriceSet?.shopMoney?.amount ?? null,
-          currency: it?.originalUnitPriceSet?.shopMoney?.currencyCode ?? null,
-        }))
-        .filter((x: any) => x.title);
-
-      const itemsJson = items.length ? JSON.stringify(items) : null;
-
-      const amount = Number(n?.totalPriceSet?.shopMoney?.amount ?? 0);
-      const currency = String(n?.totalPriceSet?.shopMoney?.currencyCode ?? "USD");
-      const completedAt = n?.completedAt ? new Date(n.completedAt) : null;
-
-      // IMPORTANT:
-      // - Keep status ABANDONED (Shopify already considers it abandoned),
-      // - Use abandonedAt = Shopify updatedAt/createdAt so delay can be enforced reliably.
-      const abandonedAt = completedAt
-        ? null
-        : new Date(n?.updatedAt ?? n?.createdAt ?? Date.now());
-
-      await db.checkout.upsert({
-        where: { shop_checkoutId: { shop, checkoutId } },
-        create: {
-          shop,
-          checkoutId,
-          token: null,
-          email: n?.email ?? null,
-          phone: n?.phone ?? null,
-          value: Number.isFinite(amount) ? amount : 0,
-          currency,
-          status: completedAt ? "CONVERTED" : "ABANDONED",
-          abandonedAt,
-          raw: JSON.stringify(n ?? null),
-          customerName,
-          itemsJson,
-        },
-        update: {
-          email: n?.email ?? null,
-          phone: n?.phone ?? null,
-          value: Number.isFinite(amount) ? amount : 0,
-          currency,
-          status: completedAt ? "CONVERTED" : "ABANDONED",
-          abandonedAt,
-          raw: JSON.stringify(n ?? null),
-          customerName,
-          itemsJson,
-        },
-      });
-
-      synced += 1;
-    }
-
-    return { synced };
-  } catch {
-    return { synced: 0 };
-  }
-}
+import { loadSuppressionSets } from "./lib/suppression.server";
+import {
+  consentRequiredFor,
+  loadConsentByCheckout,
+  parseConsentCountries,
+  pickConsentPolicy,
+} from "./lib/consent.server";
+import { callScheduleFromSettings, nextAllowedSlot, resolveCallTimezone } from "./lib/callSchedule.server";
+import { ACTIVE_CALL_STATUSES } from "./lib/callOutcome.server";
+import { planNextAttempt, type RetryPolicy } from "./lib/retryPolicy.server";
+import { normalizePhone } from "./lib/phone.server";
+import { lastBuyProbability, loadPriorOrders, scorePriority } from "./lib/callPriority.server";
+import { pickGroup, saveAssignments, type ExperimentGroup } from "./lib/holdout.server";
+import {
+  callDestinationCountry,
+  consentRequiredForCountry,
+  evaluateCountry,
+  retryPolicyForCountry,
+  scheduleForCountry,
+  type CountryRules,
+} from "./lib/countryRules.server";
 
 export async function ensureSettings(shop: string) {
   return (
@@ -176,6 +39,7 @@ export async function ensureSettings(shop: string) {
         vapiAssistantId: null,
         vapiPhoneNumberId: null,
         userPrompt: "",
+        callTimezoneMode: "customer",
       } as any,
     }))
   );
@@ -199,15 +63,29 @@ export async function markAbandonedByDelay(shop: string, delayMinutes: number) {
   });
 }
 
+// Checkouts considered per round trip in enqueueCallJobs.
+const ENQUEUE_BATCH_SIZE = 500;
+
+// No first call for carts abandoned longer ago than this (a store's first sync backfills its whole
+// abandoned checkout history). Retries of checkouts already called are not limited.
+const FIRST_CALL_MAX_AGE_DAYS = 7;
+
 export async function enqueueCallJobs(params: {
   shop: string;
   enabled: boolean;
   minOrderValue: number;
   callWindowStart: string;
   callWindowEnd: string;
+  weeklyScheduleJson: string | null;
+  blackoutDatesJson: string | null;
+  timezoneMode: string;  // "customer" | "shop"
+  shopTimezone: string | null;
+  consentPolicy: string; // "none" | "required" | "required_countries"
+  consentCountries: string | null;
   delayMinutes: number;
-  maxAttempts: number;   // per-checkout cap
-  retryMinutes: number;  // if you want re-queue after failures
+  retryPolicy: RetryPolicy; // per-outcome backoff + lifetime cap (Settings.maxAttempts)
+  countryRules: CountryRules; // allow-list + per-country window / max calls / consent
+  holdoutPercent: number; // share of first-time candidates kept as an uncalled control group
 }) {
   const {
     shop,
@@ -215,84 +93,194 @@ export async function enqueueCallJobs(params: {
     minOrderValue,
     callWindowStart,
     callWindowEnd,
+    weeklyScheduleJson,
+    blackoutDatesJson,
+    timezoneMode,
+    shopTimezone,
+    consentPolicy,
+    consentCountries,
     delayMinutes,
-    maxAttempts,
-    retryMinutes,
+    retryPolicy,
+    countryRules,
+    holdoutPercent,
   } = params;
 
   if (!enabled) return { enqueued: 0 };
 
   const now = new Date();
+  const schedule = callScheduleFromSettings({ callWindowStart, callWindowEnd, weeklyScheduleJson, blackoutDatesJson });
   const delayCutoff = new Date(now.getTime() - Math.max(0, Number(delayMinutes || 0)) * 60 * 1000);
+  const firstCallCutoff = new Date(now.getTime() - FIRST_CALL_MAX_AGE_DAYS * 24 * 60 * 60 * 1000);
 
-  // Only ABANDONED checkouts whose abandonedAt is old enough (delay respected)
-  const candidates = await db.checkout.findMany({
-    where: {
-      shop,
-      status: "ABANDONED",
-      phone: { not: null },
-      value: { gte: minOrderValue },
-      abandonedAt: { not: null, lte: delayCutoff },
-    },
-    select: { checkoutId: true, phone: true },
-    take: 200,
-  });
-
+  const suppressed = await loadSuppressionSets(shop);
+  const policy = pickConsentPolicy(consentPolicy);
+  const policyCountries = parseConsentCountries(consentCountries);
+  const needsConsent = policy !== "none" || countryRules.countries.some((r) => r.consent === "required");
   let enqueued = 0;
-
-  for (const c of candidates) {
-    const phone = String(c.phone || "").trim();
-    if (!phone) continue;
-
-    // If there is already a queued/calling job, never create another.
-    const inFlight = await db.callJob.findFirst({
+  let cursor: string | null = null;
+
+  // Candidates in id-ordered batches; per batch one query for the call history of every checkout,
+  // then a single createMany. The partial unique index on active jobs (shop, checkoutId) makes a
+  // concurrent enqueue of the same checkout a no-op instead of a second job.
+  for (;;) {
+    // Only ABANDONED checkouts whose abandonedAt is old enough (delay respected)
+    const candidates: Array<{
+      id: string;
+      checkoutId: string;
+      phone: string | null;
+      phoneE164: string | null;
+      email: string | null;
+      value: number;
+      abandonedAt: Date | null;
+      countryCode: string | null;
+      customerTimezone: string | null;
+      experimentGroup: string | null;
+    }> = await db.checkout.findMany({
       where: {
         shop,
-        checkoutId: c.checkoutId,
-        status: { in: ["QUEUED", "CALLING"] },
+        status: "ABANDONED",
+        phone: { not: null },
+        // null = ingested before normalization existed; normalized below
+        OR: [{ phoneStatus: null }, { phoneStatus: "valid" }],
+        value: { gte: minOrderValue },
+        abandonedAt: { not: null, lte: delayCutoff },
+      },
+      select: {
+        id: true,
+        checkoutId: true,
+        phone: true,
+        phoneE164: true,
+        email: true,
+        value: true,
+        abandonedAt: true,
+        countryCode: true,
+        customerTimezone: true,
+        experimentGroup: true,
       },
-      select: { id: true },
+      orderBy: { id: "asc" },
+      take: ENQUEUE_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
     });
-    if (inFlight) continue;
+    if (candidates.length === 0) break;
+    cursor = candidates[candidates.length - 1].id;
+
+    // Dial the E.164 form; numbers that don't normalize would only fail at the provider.
+    const eligible = candidates
+      .map((c) => ({ ...c, dialPhone: c.phoneE164 ?? normalizePhone(c.phone, c.countryCode).e164 }))
+      .filter((c): c is typeof c & { dialPhone: string } => {
+        if (!c.dialPhone) return false;
+        // Do-Not-Call registry wins over everything else (entries may hold either form).
+        return !suppressed.has({ phone: c.dialPhone, email: c.email }) && !suppressed.has({ phone: c.phone, email: null });
+      });
 
-    // Cap total call jobs per checkout (this is what stops “every 2 minutes forever”)
-    const totalForCheckout = await db.callJob.count({
-      where: { shop, checkoutId: c.checkoutId },
-    });
-    if (totalForCheckout >= Math.max(1, Number(maxAttempts || 1))) continue;
+    const checkoutIds = eligible.map((c) => c.checkoutId);
+    const [consent, jobs, priorOrders] = await Promise.all([
+      needsConsent ? loadConsentByCheckout(shop, checkoutIds) : Promise.resolve(new Map()),
+      db.callJob.findMany({
+        where: { shop, checkoutId: { in: checkoutIds } },
+        orderBy: { createdAt: "desc" },
+        select: { checkoutId: true, status: true, attempts: true, updatedAt: true, analysisJson: true },
+      }),
+      loadPriorOrders(shop, eligible.map((c) => ({ email: c.email, phone: c.dialPhone }))),
+    ]);
+
+    // Newest first per checkout, as planNextAttempt expects.
+    const historyByCheckout = new Map<string, typeof jobs>();
+    for (const j of jobs) {
+      const list = historyByCheckout.get(j.checkoutId);
+      if (list) list.push(j);
+      else historyByCheckout.set(j.checkoutId, [j]);
+    }
 
-    // Optional: if last attempt failed recently, enforce retryMinutes
-    const last = await db.callJob.findFirst({
-      where: { shop, checkoutId: c.checkoutId },
-      orderBy: { createdAt: "desc" },
-      select: { status: true, createdAt: true },
-    });
+    const rows: Array<{
+      shop: string;
+      checkoutId: string;
+      phone: string;
+      scheduledFor: Date;
+      timezone: string;
+      status: "QUEUED";
+      attempts: number;
+      priority: number;
+      priorityReason: string;
+    }> = [];
+    const assignments = new Map<string, ExperimentGroup>();
+
+    for (const c of eligible) {
+      // Destination country must be allowed; its rule may override window, cap and consent.
+      const decision = evaluateCountry(
+        countryRules,
+        callDestinationCountry({ phone: c.dialPhone, countryCode: c.countryCode })
+      );
+      if (!decision.allowed) continue;
+      const rule = decision.rule;
+
+      // No recorded consent (or explicit refusal) where the shop's policy requires it.
+      const shopRequiresConsent = consentRequiredFor({ policy, countries: policyCountries, countryCode: c.countryCode });
+      if (consentRequiredForCountry(rule, shopRequiresConsent) && consent.get(c.checkoutId)?.granted !== true) {
+        continue;
+      }
 
-    if (last && (last.status === "FAILED" || last.status === "COMPLETED")) {
-      const retryMs = Math.max(0, Number(retryMinutes || 0)) * 60 * 1000;
-      if (retryMs > 0) {
-        const nextAllowed = new Date(new Date(last.createdAt).getTime() + retryMs);
-        if (nextAllowed > now) continue;
+      const history = historyByCheckout.get(c.checkoutId) ?? [];
+
+      // If there is already a queued/calling job, never create another.
+      if (history.some((j) => ACTIVE_CALL_STATUSES.includes(j.status))) continue;
+
+      // Too old to start calling (historical backfill).
+      if (history.length === 0 && c.abandonedAt && c.abandonedAt < firstCallCutoff) continue;
+
+      // Lifetime cap, per-outcome retry rules and backoff, counted from when the last call ended.
+      // The jittered time is fixed on the job here so it isn't re-rolled every cron tick.
+      const plan = planNextAttempt(retryPolicyForCountry(retryPolicy, rule), history);
+      if (plan.kind === "stop") continue;
+      const earliest = plan.kind === "retry" && plan.at > now ? plan.at : now;
+
+      // Scheduling:
+      // - delay is already enforced by abandonedAt cutoff
+      // - so we look for the next allowed slot from now (otherwise you “re-delay” from now every cron tick)
+      const timezone = resolveCallTimezone({ timezoneMode, customerTimezone: c.customerTimezone, shopTimezone });
+      if (!timezone) continue; // shop timezone not synced yet; picked up by a later run
+      const scheduledFor = nextAllowedSlot(earliest, scheduleForCountry(schedule, rule), timezone);
+      if (!scheduledFor) continue;
+
+      // Holdout: a checkout about to get its first call is assigned a group; control is never called.
+      if (c.experimentGroup === "control") continue;
+      if (!c.experimentGroup && history.length === 0 && holdoutPercent > 0) {
+        const group = pickGroup(shop, c.checkoutId, holdoutPercent);
+        assignments.set(c.checkoutId, group);
+        if (group === "control") continue;
       }
-    }
 
-    // Scheduling:
-    // - delay is already enforced by abandonedAt cutoff
-    // - so leadMinutes must be 0 (otherwise you “re-delay” from now every cron tick)
-    const scheduledFor = nextTimeWithinWindow(now, callWindowStart, callWindowEnd, 0);
+      const priority = scorePriority(
+        {
+          value: c.value,
+          priorOrders: priorOrders({ email: c.email, phone: c.dialPhone }),
+          abandonedAt: c.abandonedAt,
+          buyProbability: lastBuyProbability(history),
+        },
+        now
+      );
 
-    await db.callJob.create({
-      data: {
+      rows.push({
         shop,
         checkoutId: c.checkoutId,
-        phone,
+        phone: c.dialPhone,
         scheduledFor,
+        timezone,
         status: "QUEUED",
         attempts: 0,
-      },
-    });
+        priority: priority.score,
+        priorityReason: priority.reason,
+      });
+    }
+
+    if (assignments.size) await saveAssignments(shop, assignments, now);
+
+    if (rows.length) {
+      const created = await db.callJob.createMany({ data: rows, skipDuplicates: true });
+      enqueued += created.count;
+    }
 
-    enqueued += 1;
+    if (candidates.length < ENQUEUE_BATCH_SIZE) break;
   }
 
   return { enqueued };
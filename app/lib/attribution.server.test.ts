@@ -0,0 +1,68 @@
+// app/lib/attribution.server.test.ts
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../db.server", () => ({ default: {} }));
+
+import { attributionConfigFromSettings, orderIdentifiers } from "./attribution.server";
+
+describe("attributionConfigFromSettings", () => {
+  it("defaults to 7 days, every match rule and answered calls", () => {
+    expect(attributionConfigFromSettings({})).toEqual({
+      windowDays: 7,
+      rules: ["checkout_id", "checkout_token", "email", "phone"],
+      outcomes: ["COMPLETED"],
+    });
+  });
+
+  it("clamps the window and keeps known rules and outcomes in canonical order", () => {
+    const config = attributionConfigFromSettings({
+      attributionWindowDays: 400,
+      attributionRules: "phone; email, sms checkout_id",
+      attributionOutcomes: "busy,VOICEMAIL,COMPLETED,FAILED",
+    });
+    expect(config).toEqual({
+      windowDays: 90,
+      rules: ["checkout_id", "email", "phone"],
+      outcomes: ["COMPLETED", "VOICEMAIL"],
+    });
+    expect(attributionConfigFromSettings({ attributionWindowDays: 0 }).windowDays).toBe(7);
+  });
+
+  it("allows switching off call credit entirely", () => {
+    expect(attributionConfigFromSettings({ attributionOutcomes: "" }).outcomes).toEqual([]);
+  });
+});
+
+describe("orderIdentifiers", () => {
+  it("reads the checkout ids, a lower-cased email and an E.164 phone", () => {
+    const ids = orderIdentifiers({
+      checkout_id: 123,
+      checkout_token: " tok ",
+      email: " Jane@Example.COM ",
+      billing_address: { phone: "07911 123456", country_code: "GB" },
+      created_at: "2026-03-10T12:00:00Z",
+    });
+    expect(ids).toEqual({
+      checkoutId: "123",
+      checkoutToken: "tok",
+      email: "jane@example.com",
+      phone: "+447911123456",
+      orderedAt: new Date("2026-03-10T12:00:00Z"),
+    });
+  });
+
+  it("falls back to the customer's contact details and the shipping country", () => {
+    const ids = orderIdentifiers({
+      contact_email: "a@b.co",
+      customer: { phone: "(415) 555-2671" },
+      shipping_address: { country_code: "US" },
+    });
+    expect(ids).toMatchObject({ checkoutId: null, checkoutToken: null, email: "a@b.co", phone: "+14155552671" });
+  });
+
+  it("uses the current time when the order date is missing or invalid", () => {
+    const before = Date.now();
+    expect(orderIdentifiers({ created_at: "yesterday" }).orderedAt.getTime()).toBeGreaterThanOrEqual(before);
+    expect(orderIdentifiers(null)).toMatchObject({ checkoutId: null, email: null, phone: null });
+  });
+});
@@ -0,0 +1,228 @@
+// app/lib/attribution.server.ts
+import type { CallJobStatus } from "@prisma/client";
+import db from "../db.server";
+import { normalizePhone } from "./phone.server";
+import { eligibleTouches } from "./touchpoints.server";
+
+/**
+ * Order -> checkout -> call attribution (orders/create).
+ *
+ * 1. Find the checkout the order came from, trying the shop's enabled match rules in order:
+ *    checkout_id, checkout_token, then email and phone (E.164) against checkouts that were not
+ *    completed yet and were created within the window before the order.
+ * 2. The checkout is RECOVERED when it was touched within Settings.attributionWindowDays before the
+ *    order: a call that ended with an eligible outcome (Settings.attributionOutcomes, answered by
+ *    default), a follow-up message sent or a recovery link clicked (touchpoints.server). Otherwise
+ *    it's just CONVERTED. How the revenue splits across channels is up to the attribution model.
+ *
+ * The rule that matched is stored on the Order, and on the latest eligible CallJob, if any.
+ * Amounts start at the order total (gross); revenueAdjustments.server brings them to net.
+ */
+
+export type AttributionRule = "checkout_id" | "checkout_token" | "email" | "phone";
+
+export const ATTRIBUTION_RULES: AttributionRule[] = ["checkout_id", "checkout_token", "email", "phone"];
+export const ATTRIBUTION_OUTCOMES: CallJobStatus[] = ["COMPLETED", "VOICEMAIL", "NO_ANSWER", "BUSY"];
+
+export type AttributionConfig = {
+  windowDays: number;
+  rules: AttributionRule[];
+  outcomes: CallJobStatus[];
+};
+
+export type AttributionResult = {
+  checkoutId: string | null;
+  rule: AttributionRule | null;
+  callJobId: string | null;
+  // recovered: eligible touch in the window; converted: matched, no eligible touch; unmatched: no checkout found
+  kind: "recovered" | "converted" | "unmatched";
+};
+
+function csvList<T extends string>(csv: string | null | undefined, allowed: readonly T[]): T[] {
+  const wanted = new Set(
+    String(csv ?? "")
+      .split(/[\s,;]+/)
+      .map((x) => x.trim())
+      .filter(Boolean)
+  );
+  // Keep the canonical order (rules are tried in this order).
+  return allowed.filter((x) => wanted.has(x));
+}
+
+export function attributionConfigFromSettings(s: {
+  attributionWindowDays?: number | null;
+  attributionRules?: string | null;
+  attributionOutcomes?: string | null;
+}): AttributionConfig {
+  const days = Number(s.attributionWindowDays);
+  return {
+    windowDays: Number.isFinite(days) && days >= 1 ? Math.min(Math.round(days), 90) : 7,
+    rules: csvList(s.attributionRules ?? ATTRIBUTION_RULES.join(","), ATTRIBUTION_RULES),
+    outcomes: csvList(s.attributionOutcomes ?? "COMPLETED", ATTRIBUTION_OUTCOMES),
+  };
+}
+
+type OrderAddress = { country_code?: unknown; phone?: unknown } | null;
+
+/** The orders/create fields attribution reads; everything else in the payload is ignored. */
+type OrderIdentifierPayload = {
+  checkout_id?: unknown;
+  checkout_token?: unknown;
+  email?: unknown;
+  contact_email?: unknown;
+  phone?: unknown;
+  created_at?: unknown;
+  customer?: { email?: unknown; phone?: unknown } | null;
+  shipping_address?: OrderAddress;
+  billing_address?: OrderAddress;
+} | null;
+
+function str(v: unknown) {
+  const s = v == null ? "" : String(v).trim();
+  return s || null;
+}
+
+/** Identifiers an order carries that can point back at a checkout. */
+export function orderIdentifiers(payload: unknown) {
+  const o = payload && typeof payload === "object" ? (payload as OrderIdentifierPayload) : null;
+  const ship = o?.shipping_address ?? null;
+  const bill = o?.billing_address ?? null;
+  const country = str(ship?.country_code ?? bill?.country_code);
+  const rawPhone = str(o?.phone ?? o?.customer?.phone ?? bill?.phone ?? ship?.phone);
+  const createdAt = o?.created_at ? new Date(String(o.created_at)) : null;
+
+  return {
+    checkoutId: o?.checkout_id != null ? String(o.checkout_id) : null,
+    checkoutToken: str(o?.checkout_token),
+    email: str(o?.email ?? o?.contact_email ?? o?.customer?.email)?.toLowerCase() ?? null,
+    phone: normalizePhone(rawPhone, country).e164,
+    orderedAt: createdAt && !Number.isNaN(createdAt.getTime()) ? createdAt : new Date(),
+  };
+}
+
+async function matchCheckout(
+  shop: string,
+  ids: ReturnType<typeof orderIdentifiers>,
+  config: AttributionConfig
+): Promise<{ checkoutId: string; rule: AttributionRule } | null> {
+  const windowStart = new Date(ids.orderedAt.getTime() - config.windowDays * 24 * 60 * 60 * 1000);
+  // Fallback rules only look at checkouts still waiting for an order, newest first.
+  const openSince = {
+    shop,
+    status: { in: ["OPEN" as const, "ABANDONED" as const] },
+    createdAt: { gte: windowStart, lte: ids.orderedAt },
+  };
+
+  for (const rule of config.rules) {
+    let found: { checkoutId: string } | null = null;
+
+    if (rule === "checkout_id" && ids.checkoutId) {
+      found = await db.checkout.findFirst({ where: { shop, checkoutId: ids.checkoutId }, select: { checkoutId: true } });
+    } else if (rule === "checkout_token" && ids.checkoutToken) {
+      found = await db.checkout.findFirst({
+        where: { shop, token: ids.checkoutToken },
+        orderBy: { createdAt: "desc" },
+        select: { checkoutId: true },
+      });
+    } else if (rule === "email" && ids.email) {
+      found = await db.checkout.findFirst({
+        where: { ...openSince, email: { equals: ids.email, mode: "insensitive" } },
+        orderBy: { createdAt: "desc" },
+        select: { checkoutId: true },
+      });
+    } else if (rule === "phone" && ids.phone) {
+      found = await db.checkout.findFirst({
+        where: { ...openSince, phoneE164: ids.phone },
+        orderBy: { createdAt: "desc" },
+        select: { checkoutId: true },
+      });
+    }
+
+    if (found) return { checkoutId: found.checkoutId, rule };
+  }
+  return null;
+}
+
+/** Latest call on the checkout placed within the window before the order, with an eligible outcome. */
+async function creditedJob(shop: string, checkoutId: string, orderedAt: Date, config: AttributionConfig) {
+  if (config.outcomes.length === 0) return null;
+  const windowStart = new Date(orderedAt.getTime() - config.windowDays * 24 * 60 * 60 * 1000);
+  return db.callJob.findFirst({
+    where: {
+      shop,
+      checkoutId,
+      status: { in: config.outcomes },
+      dialedAt: { gte: windowStart, lte: orderedAt },
+    },
+    orderBy: { dialedAt: "desc" },
+    select: { id: true, attributedOrderId: true },
+  });
+}
+
+export async function attributeOrder(params: {
+  shop: string;
+  orderId: string;
+  total: number | null;
+  payload: unknown;
+  config: AttributionConfig;
+}): Promise<AttributionResult> {
+  const { shop, orderId, total, config } = params;
+  const ids = orderIdentifiers(params.payload);
+
+  const match = await matchCheckout(shop, ids, config);
+  if (!match) return { checkoutId: null, rule: null, callJobId: null, kind: "unmatched" };
+
+  const job = await creditedJob(shop, match.checkoutId, ids.orderedAt, config);
+  const touched =
+    Boolean(job) ||
+    Boolean(
+      (await eligibleTouches(shop, [{ checkoutId: match.checkoutId, at: ids.orderedAt }], config)).get(match.checkoutId)
+        ?.length
+    );
+
+  if (touched) {
+    // skip on replay of the same order (SQL NULL <> x is not true, hence the explicit null branch)
+    await db.checkout.updateMany({
+      where: {
+        shop,
+        checkoutId: match.checkoutId,
+        OR: [{ recoveredOrderId: null }, { recoveredOrderId: { not: orderId } }],
+      },
+      data: {
+        status: "RECOVERED",
+        recoveredAt: new Date(),
+        recoveredOrderId: orderId,
+        recoveredAmount: total ?? undefined,
+        recoveredGrossAmount: total ?? undefined,
+        abandonedAt: null,
+      },
+    });
+
+    // Already attributed to this order (replay): keep the original attributedAt
+    if (job && job.attributedOrderId !== orderId) {
+      await db.callJob.update({
+        where: { id: job.id },
+        data: {
+          attributedAt: new Date(),
+          attributedOrderId: orderId,
+          attributedAmount: total ?? undefined,
+          attributedGrossAmount: total ?? undefined,
+          attributionRule: match.rule,
+        },
+      });
+    }
+  } else {
+    // Bought without a creditable touch; a checkout already credited stays RECOVERED.
+    await db.checkout.updateMany({
+      where: { shop, checkoutId: match.checkoutId, status: { not: "RECOVERED" } },
+      data: { status: "CONVERTED", abandonedAt: null },
+    });
+  }
+
+  return {
+    checkoutId: match.checkoutId,
+    rule: match.rule,
+    callJobId: job?.id ?? null,
+    kind: touched ? "recovered" : "converted",
+  };
+}
@@ -0,0 +1,219 @@
+// app/lib/backgroundTasks.server.ts
+import type { BackgroundTask } from "@prisma/client";
+import db from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { ensureSettings, enqueueCallJobs, markAbandonedByDelay } from "../callRecovery.server";
+import { retryPolicyFromSettings } from "./retryPolicy.server";
+import { countryRulesFromSettings } from "./countryRules.server";
+import { renewPipelineLease, withPipelineLease } from "./pipelineLease.server";
+import { ensureShopTimezone, syncAbandonedCheckouts } from "./checkoutSync.server";
+
+/**
+ * Per-shop background work that used to run inside the Dashboard / Calls loaders.
+ *
+ * "sync_checkouts": pull abandoned checkouts with the shop's offline session (paged, resumable,
+ * see checkoutSync.server), mark abandoned by delay, enqueue call jobs. Cron runs one per shop under the pipeline lease; "Sync now" queues one
+ * and starts it in-process, taking the same lease (if cron holds it, the task waits for cron).
+ *
+ * Progress (0-100 + stage) is written to the row as the task goes, the pages poll it.
+ */
+
+export type BackgroundTaskKind = "sync_checkouts";
+
+const ACTIVE_TASK_STATUSES = ["QUEUED", "RUNNING"] as const;
+
+// RUNNING with no progress update for this long = the process died mid-task.
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+
+// Checkout pages per task; a longer backfill resumes from its cursor on the next run.
+const SYNC_PAGES_PER_RUN = 20;
+
+function safeStr(v: unknown, max = 2000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+/** Returns the shop's pending task of this kind if there is one, else queues a new one. */
+export async function queueBackgroundTask(params: { shop: string; kind: BackgroundTaskKind; trigger: "cron" | "manual" }) {
+  const existing = await db.backgroundTask.findFirst({
+    where: { shop: params.shop, kind: params.kind, status: { in: [...ACTIVE_TASK_STATUSES] } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (existing) return existing;
+
+  return db.backgroundTask.create({
+    data: { shop: params.shop, kind: params.kind, trigger: params.trigger, stage: "Queued" },
+  });
+}
+
+type Progress = (progress: number, stage: string) => Promise<void>;
+
+/**
+ * Keeps the caller's pipeline lease alive through a long task (up to SYNC_PAGES_PER_RUN pages plus
+ * enqueueing). Throws once it's lost, so a run that took the expired lease over isn't doubled.
+ */
+function leaseKeeper(holder: string | null) {
+  return async () => {
+    if (holder && !(await renewPipelineLease(holder))) {
+      throw new Error("Lease lost (expired while running); stopping");
+    }
+  };
+}
+
+/** Mark abandoned + enqueue for one shop, using its saved settings. */
+async function markAndEnqueue(shop: string) {
+  const s = await ensureSettings(shop);
+
+  const marked = await markAbandonedByDelay(shop, s.delayMinutes);
+
+  const enq = await enqueueCallJobs({
+    shop,
+    enabled: Boolean(s.enabled),
+    minOrderValue: Number(s.minOrderValue ?? 0),
+    callWindowStart: String(s.callWindowStart ?? "09:00"),
+    callWindowEnd: String(s.callWindowEnd ?? "19:00"),
+    weeklyScheduleJson: s.weeklyScheduleJson ?? null,
+    blackoutDatesJson: s.blackoutDatesJson ?? null,
+    timezoneMode: String(s.callTimezoneMode ?? "customer"),
+    shopTimezone: s.shopTimezone ?? null,
+    consentPolicy: s.consentPolicy ?? "none",
+    consentCountries: s.consentCountries ?? null,
+    delayMinutes: Number(s.delayMinutes ?? 30),
+    retryPolicy: retryPolicyFromSettings(s),
+    countryRules: countryRulesFromSettings(s),
+    holdoutPercent: s.holdoutPercent,
+  });
+
+  return { marked: marked.count, enqueued: enq.enqueued };
+}
+
+async function syncCheckoutsTask(task: BackgroundTask, progress: Progress, renewLease: () => Promise<void>) {
+  await progress(5, "Connecting to Shopify");
+  const { admin } = await unauthenticated.admin(task.shop);
+
+  await progress(10, "Syncing abandoned checkouts");
+  const report = await syncAbandonedCheckouts({
+    admin,
+    shop: task.shop,
+    maxPages: SYNC_PAGES_PER_RUN,
+    onPage: async (r) => {
+      await renewLease();
+      await progress(10 + Math.round((60 * r.pages) / SYNC_PAGES_PER_RUN), `Syncing abandoned checkouts (page ${r.pages}, ${r.rows} rows)`);
+    },
+  });
+
+  // Calls wait for the shop timezone (no server-zone fallback), so make sure it's stored.
+  await ensureShopTimezone(admin, task.shop);
+
+  await renewLease();
+  await progress(70, "Marking abandoned and enqueueing calls");
+  const enq = await markAndEnqueue(task.shop);
+
+  return {
+    synced: report.saved,
+    ...enq,
+    sync: {
+      mode: report.mode,
+      pages: report.pages,
+      rows: report.rows,
+      complete: report.complete,
+      errors: report.errors.length,
+    },
+  };
+}
+
+/**
+ * Claims a QUEUED task and runs it. The caller is responsible for holding the pipeline lease and
+ * passes its holder id so the task renews it as it goes.
+ * Returns null when the task wasn't QUEUED (already taken by another runner).
+ */
+export async function runBackgroundTask(taskId: string, opts: { leaseHolder?: string | null } = {}) {
+  const claimed = await db.backgroundTask.updateMany({
+    where: { id: taskId, status: "QUEUED" },
+    data: { status: "RUNNING", startedAt: new Date(), progress: 0, stage: "Starting", error: null },
+  });
+  if (claimed.count === 0) return null;
+
+  const task = await db.backgroundTask.findUniqueOrThrow({ where: { id: taskId } });
+
+  const progress: Progress = async (p, stage) => {
+    await db.backgroundTask.update({ where: { id: taskId }, data: { progress: Math.min(99, Math.max(0, p)), stage } });
+  };
+
+  try {
+    const result = await syncCheckoutsTask(task, progress, leaseKeeper(opts.leaseHolder ?? null));
+    return await db.backgroundTask.update({
+      where: { id: taskId },
+      data: { status: "SUCCEEDED", progress: 100, stage: "Done", resultJson: JSON.stringify(result), finishedAt: new Date() },
+    });
+  } catch (e) {
+    return await db.backgroundTask.update({
+      where: { id: taskId },
+      data: { status: "FAILED", stage: "Failed", error: safeStr(e instanceof Error ? e.message : e), finishedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * "Sync now": runs the task in this process without blocking the request. If a cron run holds
+ * the lease the task stays QUEUED and that (or the next) cron run picks it up.
+ */
+export function startBackgroundTask(task: Pick<BackgroundTask, "id" | "shop">) {
+  void withPipelineLease({ label: `task:${task.shop}`, waitMs: 10 * 1000 }, (holder) =>
+    runBackgroundTask(task.id, { leaseHolder: holder })
+  )
+    .then(async (r) => {
+      if (!r.ran) {
+        await db.backgroundTask.updateMany({
+          where: { id: task.id, status: "QUEUED" },
+          data: { stage: "Waiting for the running pipeline" },
+        });
+      }
+    })
+    .catch((e) => console.error("[backgroundTasks] start failed", task.id, e));
+}
+
+/** Tasks left RUNNING by a crashed process never finish on their own. */
+export async function failStaleBackgroundTasks() {
+  const r = await db.backgroundTask.updateMany({
+    where: { status: "RUNNING", updatedAt: { lt: new Date(Date.now() - STALE_RUNNING_MS) } },
+    data: { status: "FAILED", stage: "Failed", error: "Stopped without finishing (process restarted?)", finishedAt: new Date() },
+  });
+  return r.count;
+}
+
+export type BackgroundTaskView = {
+  id: string;
+  trigger: string;
+  status: string;
+  progress: number;
+  stage: string | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+};
+
+export async function latestBackgroundTask(shop: string, kind: BackgroundTaskKind): Promise<BackgroundTaskView | null> {
+  const t = await db.backgroundTask.findFirst({ where: { shop, kind }, orderBy: { createdAt: "desc" } });
+  if (!t) return null;
+
+  let result: Record<string, unknown> | null = null;
+  try {
+    result = t.resultJson ? JSON.parse(t.resultJson) : null;
+  } catch {
+    result = null;
+  }
+
+  return {
+    id: t.id,
+    trigger: t.trigger,
+    status: t.status,
+    progress: t.progress,
+    stage: t.stage,
+    result,
+    error: t.error,
+    createdAt: t.createdAt.toISOString(),
+    finishedAt: t.finishedAt ? t.finishedAt.toISOString() : null,
+  };
+}
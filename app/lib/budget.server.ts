@@ -0,0 +1,151 @@
+// app/lib/budget.server.ts
+import db from "../db.server";
+import { resolveCallTimezone } from "./callSchedule.server";
+import { zonedParts, zonedTimeToUtc } from "./timezone.server";
+
+/**
+ * Per-shop budget caps, checked by the dialer right before a call is placed:
+ * calls per day, call minutes per month, provider spend per month (USD).
+ *
+ * Days and months are in shop time. Usage counts jobs by dialedAt; minutes and spend come from
+ * the provider's end-of-call report, so calls still in flight aren't counted yet and a cap can
+ * be overshot by the calls running when it's reached.
+ *
+ * A job over a cap goes THROTTLED with scheduledFor = start of the next period;
+ * releaseThrottledJobs puts it back to QUEUED once that time has passed.
+ */
+
+export type BudgetCaps = {
+  callsPerDay: number | null;
+  minutesPerMonth: number | null;
+  spendPerMonth: number | null;
+};
+
+export type BudgetUsage = {
+  callsToday: number;
+  minutesThisMonth: number;
+  spendThisMonth: number;
+};
+
+export type BudgetPeriods = {
+  timezone: string;
+  dayStart: Date;
+  nextDay: Date;
+  monthStart: Date;
+  nextMonth: Date;
+};
+
+export type BudgetState = {
+  caps: BudgetCaps;
+  usage: BudgetUsage;
+  periods: BudgetPeriods;
+};
+
+export type BudgetBlock = { cap: "calls_per_day" | "minutes_per_month" | "spend_per_month"; reason: string; until: Date };
+
+function positiveOrNull(v: unknown) {
+  const n = Number(v);
+  return v != null && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function budgetCapsFromSettings(s: {
+  budgetCallsPerDay?: number | null;
+  budgetMinutesPerMonth?: number | null;
+  budgetSpendPerMonth?: number | null;
+}): BudgetCaps {
+  return {
+    callsPerDay: positiveOrNull(s.budgetCallsPerDay),
+    minutesPerMonth: positiveOrNull(s.budgetMinutesPerMonth),
+    spendPerMonth: positiveOrNull(s.budgetSpendPerMonth),
+  };
+}
+
+export function hasBudgetCaps(caps: BudgetCaps) {
+  return caps.callsPerDay != null || caps.minutesPerMonth != null || caps.spendPerMonth != null;
+}
+
+export function budgetPeriods(now: Date, timezone: string): BudgetPeriods {
+  const p = zonedParts(now, timezone);
+  const at = (year: number, month: number, day: number) => zonedTimeToUtc({ year, month, day, hour: 0, minute: 0 }, timezone);
+
+  // Date.UTC normalizes day/month overflow (Jan 32 -> Feb 1, month 13 -> next January).
+  const tomorrow = new Date(Date.UTC(p.year, p.month - 1, p.day + 1));
+  const nextMonth = new Date(Date.UTC(p.year, p.month, 1));
+
+  return {
+    timezone,
+    dayStart: at(p.year, p.month, p.day),
+    nextDay: at(tomorrow.getUTCFullYear(), tomorrow.getUTCMonth() + 1, tomorrow.getUTCDate()),
+    monthStart: at(p.year, p.month, 1),
+    nextMonth: at(nextMonth.getUTCFullYear(), nextMonth.getUTCMonth() + 1, 1),
+  };
+}
+
+export async function loadBudgetState(
+  shop: string,
+  settings: Parameters<typeof budgetCapsFromSettings>[0] & { shopTimezone?: string | null },
+  now = new Date()
+): Promise<BudgetState> {
+  const caps = budgetCapsFromSettings(settings);
+  // Period boundaries only (nothing is scheduled from them): UTC until the shop timezone is synced.
+  const periods = budgetPeriods(
+    now,
+    resolveCallTimezone({ timezoneMode: "shop", shopTimezone: settings.shopTimezone }) ?? "UTC"
+  );
+
+  const [callsToday, month] = await Promise.all([
+    db.callJob.count({ where: { shop, dialedAt: { gte: periods.dayStart } } }),
+    db.callJob.aggregate({
+      where: { shop, dialedAt: { gte: periods.monthStart } },
+      _sum: { durationSeconds: true, costUsd: true },
+    }),
+  ]);
+
+  return {
+    caps,
+    periods,
+    usage: {
+      callsToday,
+      minutesThisMonth: Math.round((Number(month._sum.durationSeconds ?? 0) / 60) * 10) / 10,
+      spendThisMonth: Math.round(Number(month._sum.costUsd ?? 0) * 100) / 100,
+    },
+  };
+}
+
+/** First cap that is used up, or null when another call may be placed. */
+export function budgetBlock(state: BudgetState): BudgetBlock | null {
+  const { caps, usage, periods } = state;
+
+  if (caps.spendPerMonth != null && usage.spendThisMonth >= caps.spendPerMonth) {
+    return {
+      cap: "spend_per_month",
+      reason: `monthly spend cap $${caps.spendPerMonth} reached`,
+      until: periods.nextMonth,
+    };
+  }
+  if (caps.minutesPerMonth != null && usage.minutesThisMonth >= caps.minutesPerMonth) {
+    return {
+      cap: "minutes_per_month",
+      reason: `monthly cap of ${caps.minutesPerMonth} call minutes reached`,
+      until: periods.nextMonth,
+    };
+  }
+  if (caps.callsPerDay != null && usage.callsToday >= caps.callsPerDay) {
+    return { cap: "calls_per_day", reason: `daily cap of ${caps.callsPerDay} calls reached`, until: periods.nextDay };
+  }
+  return null;
+}
+
+/** THROTTLED jobs whose period has rolled over go back in the queue (dial-time checks still apply). */
+export async function releaseThrottledJobs(params: { shop?: string | null; now?: Date }) {
+  const now = params.now ?? new Date();
+  const r = await db.callJob.updateMany({
+    where: {
+      ...(params.shop ? { shop: params.shop } : {}),
+      status: "THROTTLED",
+      scheduledFor: { lte: now },
+    },
+    data: { status: "QUEUED", outcome: "RELEASED: budget period reset" },
+  });
+  return r.count;
+}
@@ -0,0 +1,101 @@
+// app/lib/callConcurrency.server.ts
+import db from "../db.server";
+import { LIVE_CALL_STATUSES } from "./callOutcome.server";
+import type { CallerLine } from "./providers/types";
+
+/**
+ * Concurrency limits on live (CALLING / IN_PROGRESS) calls, checked by the dialer right before the lock:
+ * - per shop: Settings.maxConcurrentCalls
+ * - per outbound number: Settings.maxConcurrentPerNumber when the shop dials from its own number;
+ *   the shared platform number uses PLATFORM_NUMBER_MAX_CONCURRENT (default 10), counted across all shops.
+ *
+ * A job over a limit stays QUEUED and is picked up by a later run. runDueCallJobs takes due jobs
+ * round-robin across shops so one store with a big backlog can't use every slot of a run.
+ */
+
+export type ConcurrencyLimits = { perShop: number; perLine: number };
+
+// Live calls per shop / per line, loaded on first use and bumped for every call a run starts.
+export type LiveCallCounts = { byShop: Map<string, number>; byLine: Map<string, number> };
+
+const PLATFORM_LINE_DEFAULT = 10;
+
+function clampLimit(v: unknown, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 1 ? Math.min(Math.round(n), 100) : fallback;
+}
+
+export function concurrencyLimits(
+  settings: { maxConcurrentCalls?: number | null; maxConcurrentPerNumber?: number | null },
+  line: CallerLine | null
+): ConcurrencyLimits {
+  return {
+    perShop: clampLimit(settings.maxConcurrentCalls, 3),
+    perLine: line?.shared
+      ? clampLimit(process.env.PLATFORM_NUMBER_MAX_CONCURRENT, PLATFORM_LINE_DEFAULT)
+      : clampLimit(settings.maxConcurrentPerNumber, 5),
+  };
+}
+
+export function newLiveCallCounts(): LiveCallCounts {
+  return { byShop: new Map(), byLine: new Map() };
+}
+
+async function liveForShop(counts: LiveCallCounts, shop: string) {
+  let n = counts.byShop.get(shop);
+  if (n == null) {
+    n = await db.callJob.count({ where: { shop, status: { in: LIVE_CALL_STATUSES } } });
+    counts.byShop.set(shop, n);
+  }
+  return n;
+}
+
+async function liveOnLine(counts: LiveCallCounts, lineId: string) {
+  let n = counts.byLine.get(lineId);
+  if (n == null) {
+    n = await db.callJob.count({ where: { callerNumber: lineId, status: { in: LIVE_CALL_STATUSES } } });
+    counts.byLine.set(lineId, n);
+  }
+  return n;
+}
+
+/** Reason the job has to wait, or null when a line is free. */
+export async function concurrencyBlock(
+  counts: LiveCallCounts,
+  params: { shop: string; limits: ConcurrencyLimits; line: CallerLine | null }
+): Promise<string | null> {
+  const { shop, limits, line } = params;
+
+  if ((await liveForShop(counts, shop)) >= limits.perShop) {
+    return `${limits.perShop} concurrent call${limits.perShop === 1 ? "" : "s"} for this shop in progress`;
+  }
+  if (line && (await liveOnLine(counts, line.id)) >= limits.perLine) {
+    return `outbound number busy (${limits.perLine} concurrent call${limits.perLine === 1 ? "" : "s"})`;
+  }
+  return null;
+}
+
+export function countStartedCall(counts: LiveCallCounts, shop: string, line: CallerLine | null) {
+  counts.byShop.set(shop, (counts.byShop.get(shop) ?? 0) + 1);
+  if (line) counts.byLine.set(line.id, (counts.byLine.get(line.id) ?? 0) + 1);
+}
+
+/**
+ * 1-based position of each QUEUED job in its shop's dial order: due jobs as runDueCallJobs takes them
+ * (priority, then scheduledFor, then id), followed by jobs not due yet in scheduledFor order.
+ */
+export async function queuePositions(shop: string, now = new Date()): Promise<Map<string, number>> {
+  const queued = await db.callJob.findMany({
+    where: { shop, status: "QUEUED" },
+    orderBy: [{ scheduledFor: "asc" }, { id: "asc" }],
+    select: { id: true, scheduledFor: true, priority: true },
+    take: 5000,
+  });
+
+  const due = queued.filter((j) => j.scheduledFor <= now);
+  const later = queued.filter((j) => j.scheduledFor > now);
+  // Array.sort is stable, so equal priorities keep the scheduledFor/id order.
+  due.sort((a, b) => b.priority - a.priority);
+
+  return new Map([...due, ...later].map((j, i) => [j.id, i + 1]));
+}
@@ -9,14 +9,6 @@ function cleanIdList(values: string[]) {
   return uniq(values).map((x) => x.replace(/[,"'()]/g, ""));
 }
 
-export function isVapiConfiguredFromEnv() {
-  const assistantId = process.env.VAPI_ASSISTANT_ID?.trim();
-  const phoneNumberId = process.env.VAPI_PHONE_NUMBER_ID?.trim();
-  const apiKey = process.env.VAPI_API_KEY?.trim();
-  const serverUrl = process.env.VAPI_SERVER_URL?.trim();
-  return Boolean(apiKey) && Boolean(assistantId) && Boolean(phoneNumberId) && Boolean(serverUrl);
-}
-
 export async function fetchSupabaseSummaries(opts: {
   shop: string;
   callIds?: string[];
@@ -0,0 +1,62 @@
+// app/lib/callOutcome.server.ts
+import type { CallJobStatus } from "@prisma/client";
+
+/**
+ * How a dialed call ended, derived from the provider's endedReason.
+ * Drives the final CallJob status; retryPolicy.server decides whether/when the checkout gets another attempt.
+ */
+export type CallOutcome = "answered" | "no_answer" | "voicemail" | "busy" | "provider_error" | "canceled";
+
+// Dialed and not finished yet (webhook still to come).
+export const LIVE_CALL_STATUSES: CallJobStatus[] = ["CALLING", "IN_PROGRESS"];
+// A job in any of these blocks enqueueing another one for the same checkout.
+// Keep in sync with the partial unique index "CallJob_shop_checkoutId_active_key".
+export const ACTIVE_CALL_STATUSES: CallJobStatus[] = ["QUEUED", "THROTTLED", "CALLING", "IN_PROGRESS"];
+// Call happened (or was attempted) and ended; eligible for a per-outcome retry.
+export const ENDED_CALL_STATUSES: CallJobStatus[] = ["COMPLETED", "NO_ANSWER", "VOICEMAIL", "BUSY", "FAILED"];
+
+/**
+ * Vapi endedReason values (the mock provider uses the same ones). Anything we don't
+ * recognise as unanswered or an error counts as a conversation that happened.
+ */
+export function classifyEndedReason(endedReason: string | null | undefined): CallOutcome {
+  const s = String(endedReason ?? "").trim().toLowerCase();
+  if (!s) return "answered";
+
+  if (s === "manually-canceled") return "canceled";
+  if (s.includes("voicemail")) return "voicemail";
+  if (s.includes("busy")) return "busy";
+  if (s.includes("did-not-answer") || s.includes("no-answer") || s.includes("ring-timeout")) return "no_answer";
+  if (
+    s.includes("error") ||
+    s.includes("failed") ||
+    s.includes("fault") ||
+    s.startsWith("pipeline-") ||
+    s.startsWith("phone-call-provider") ||
+    s.startsWith("twilio-") ||
+    s.startsWith("vonage-")
+  ) {
+    return "provider_error";
+  }
+  return "answered";
+}
+
+export function statusForOutcome(outcome: CallOutcome): CallJobStatus {
+  if (outcome === "no_answer") return "NO_ANSWER";
+  if (outcome === "voicemail") return "VOICEMAIL";
+  if (outcome === "busy") return "BUSY";
+  if (outcome === "provider_error") return "FAILED";
+  if (outcome === "canceled") return "CANCELED";
+  return "COMPLETED";
+}
+
+/**
+ * Provider status-update -> job status while the call is live. "ended" is left to the
+ * end-of-call-report, which knows why it ended.
+ */
+export function statusForLiveUpdate(providerStatus: string | null | undefined): CallJobStatus | null {
+  const s = String(providerStatus ?? "").trim().toLowerCase();
+  if (s === "in-progress" || s === "connected" || s === "forwarding") return "IN_PROGRESS";
+  if (s === "queued" || s === "ringing") return "CALLING";
+  return null;
+}
@@ -0,0 +1,105 @@
+// app/lib/callPriority.server.ts
+import db from "../db.server";
+
+/**
+ * Priority score (0-100) stored on CallJob.priority when the job is enqueued. Within a shop the dialer
+ * takes due jobs highest score first, so when lines or a run's limit are short the valuable carts go out first.
+ *
+ *   cart value         up to 40  (log scale, full marks at PRIORITY_VALUE_FULL in shop currency)
+ *   customer history   up to 15  (earlier completed checkouts by the same email / phone)
+ *   recency            up to 20  (just abandoned = 20, nothing after 72h)
+ *   buy probability    up to 25  (previous call's analysis; 12.5 when there's no analysed call yet)
+ */
+
+export type PriorityInput = {
+  value: number;
+  priorOrders: number;
+  abandonedAt: Date | null;
+  buyProbability: number | null;
+};
+
+export type PriorityScore = { score: number; reason: string };
+
+const PRIORITY_VALUE_FULL = 2000;
+const RECENCY_WINDOW_HOURS = 72;
+
+function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+export function scorePriority(input: PriorityInput, now = new Date()): PriorityScore {
+  const value = Math.max(0, Number(input.value) || 0);
+  const valuePts = 40 * Math.min(1, Math.log10(1 + value) / Math.log10(1 + PRIORITY_VALUE_FULL));
+
+  const orders = Math.max(0, input.priorOrders);
+  const historyPts = orders >= 2 ? 15 : orders === 1 ? 10 : 0;
+
+  const ageHours = input.abandonedAt ? Math.max(0, (now.getTime() - input.abandonedAt.getTime()) / 3600000) : null;
+  const recencyPts = ageHours == null ? 0 : 20 * Math.max(0, 1 - ageHours / RECENCY_WINDOW_HOURS);
+
+  const p = input.buyProbability;
+  const buyPts = 25 * (p == null ? 0.5 : Math.min(1, Math.max(0, p)));
+
+  const parts = [
+    `value ${round1(valuePts)}`,
+    `history ${historyPts} (${orders} order${orders === 1 ? "" : "s"})`,
+    `recency ${round1(recencyPts)}${ageHours == null ? "" : ` (${Math.round(ageHours)}h)`}`,
+    `buy ${round1(buyPts)}${p == null ? " (no analysis)" : ` (${Math.round(p * 100)}%)`}`,
+  ];
+
+  return { score: round1(valuePts + historyPts + recencyPts + buyPts), reason: parts.join(" · ") };
+}
+
+/** buyProbability from the newest analysed job (history newest first, as enqueue loads it). */
+export function lastBuyProbability(history: Array<{ analysisJson: string | null }>): number | null {
+  for (const j of history) {
+    if (!j.analysisJson) continue;
+    try {
+      const p = Number(JSON.parse(j.analysisJson)?.buyProbability);
+      if (Number.isFinite(p)) return Math.min(1, Math.max(0, p));
+    } catch {
+      // truncated / non-JSON analysis: try the next job
+    }
+  }
+  return null;
+}
+
+/**
+ * Completed checkouts per customer, keyed by email and by phone, for a batch of candidates.
+ * Converted and recovered checkouts both count as an order.
+ */
+export async function loadPriorOrders(
+  shop: string,
+  customers: Array<{ email: string | null; phone: string | null }>
+) {
+  const emails = Array.from(new Set(customers.map((c) => c.email?.trim().toLowerCase()).filter(Boolean))) as string[];
+  const phones = Array.from(new Set(customers.map((c) => c.phone).filter(Boolean))) as string[];
+  const done = { in: ["CONVERTED" as const, "RECOVERED" as const] };
+
+  const [byEmail, byPhone] = await Promise.all([
+    db.checkout.groupBy({
+      by: ["email"],
+      where: { shop, status: done, email: { in: emails, mode: "insensitive" } },
+      _count: { _all: true },
+    }),
+    db.checkout.groupBy({
+      by: ["phoneE164"],
+      where: { shop, status: done, phoneE164: { in: phones } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  // Emails are grouped as stored, so sum the case variants.
+  const emailCounts = new Map<string, number>();
+  for (const g of byEmail) {
+    const key = String(g.email ?? "").toLowerCase();
+    emailCounts.set(key, (emailCounts.get(key) ?? 0) + g._count._all);
+  }
+  const phoneCounts = new Map(byPhone.map((g) => [String(g.phoneE164 ?? ""), g._count._all]));
+
+  return (c: { email: string | null; phone: string | null }) =>
+    Math.max(
+      c.email ? emailCounts.get(c.email.trim().toLowerCase()) ?? 0 : 0,
+      c.phone ? phoneCounts.get(c.phone) ?? 0 : 0
+    );
+}
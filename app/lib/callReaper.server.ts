@@ -0,0 +1,117 @@
+// app/lib/callReaper.server.ts
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { getCallProvider } from "./providers/index.server";
+import { LIVE_CALL_STATUSES, classifyEndedReason, statusForOutcome } from "./callOutcome.server";
+
+/**
+ * Stuck-call reaper. A job stays CALLING/IN_PROGRESS until the provider's end-of-call webhook
+ * lands; if that never happens the checkout is blocked from further attempts forever.
+ *
+ * Jobs with no update for STUCK_CALL_MINUTES (default 15) are checked against the provider:
+ * - ended          -> finalized from the provider's endedReason / artifacts
+ * - not found      -> FAILED
+ * - still live     -> left alone until STUCK_CALL_MAX_MINUTES (default 90), then ended + FAILED
+ * - status error   -> retried next run, FAILED once past the max age
+ */
+
+function envMinutes(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function safeStr(v: unknown, max = 2000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+export async function reconcileStuckCalls(params: { shop?: string; limit?: number } = {}) {
+  const now = Date.now();
+  const stuckMinutes = envMinutes("STUCK_CALL_MINUTES", 15);
+  const maxMinutes = Math.max(stuckMinutes, envMinutes("STUCK_CALL_MAX_MINUTES", 90));
+
+  const jobs = await db.callJob.findMany({
+    where: {
+      ...(params.shop ? { shop: params.shop } : {}),
+      status: { in: LIVE_CALL_STATUSES },
+      updatedAt: { lte: new Date(now - stuckMinutes * 60 * 1000) },
+    },
+    orderBy: { updatedAt: "asc" },
+    take: params.limit ?? 50,
+    select: { id: true, shop: true, provider: true, providerCallId: true, updatedAt: true },
+  });
+
+  const result = { checked: jobs.length, finalized: 0, failed: 0, stillLive: 0, errors: 0 };
+
+  // Guarded on the live statuses so a webhook that lands meanwhile wins.
+  const finish = (jobId: string, data: Prisma.CallJobUpdateManyMutationInput) =>
+    db.callJob.updateMany({ where: { id: jobId, status: { in: LIVE_CALL_STATUSES } }, data });
+
+  for (const job of jobs) {
+    const ageMin = Math.round((now - job.updatedAt.getTime()) / 60000);
+    const overMax = ageMin >= maxMinutes;
+
+    if (!job.providerCallId) {
+      await finish(job.id, { status: "FAILED", outcome: `REAPED: no provider call id after ${ageMin}m` });
+      result.failed += 1;
+      continue;
+    }
+
+    const provider = getCallProvider(job.provider);
+
+    let status;
+    try {
+      status = await provider.fetchCallStatus(job.shop, job.providerCallId);
+    } catch (e) {
+      result.errors += 1;
+      if (overMax) {
+        await finish(job.id, {
+          status: "FAILED",
+          outcome: safeStr(`REAPED: provider status unavailable after ${ageMin}m (${e instanceof Error ? e.message : String(e)})`),
+        });
+        result.failed += 1;
+      }
+      continue;
+    }
+
+    if (status.state === "ended") {
+      // No reason at all means we can't tell whether anyone picked up.
+      const callOutcome = status.endedReason ? classifyEndedReason(status.endedReason) : null;
+      await finish(job.id, {
+        status: callOutcome ? statusForOutcome(callOutcome) : "FAILED",
+        endedReason: status.endedReason ?? null,
+        transcript: status.transcript ?? undefined,
+        recordingUrl: status.recordingUrl ?? undefined,
+        durationSeconds: status.durationSeconds ?? undefined,
+        costUsd: status.costUsd ?? undefined,
+        outcome: safeStr(
+          `RECONCILED: ended at ${provider.name} (${status.endedReason ?? "no reason"}), webhook missing after ${ageMin}m`
+        ),
+      });
+      if (callOutcome) result.finalized += 1;
+      else result.failed += 1;
+      continue;
+    }
+
+    if (status.state === "not_found") {
+      await finish(job.id, { status: "FAILED", outcome: `REAPED: call not found at ${provider.name}` });
+      result.failed += 1;
+      continue;
+    }
+
+    // queued / ringing / in-progress / unknown
+    if (!overMax) {
+      result.stillLive += 1;
+      continue;
+    }
+
+    await provider.cancelCall(job.shop, job.providerCallId).catch(() => {});
+    await finish(job.id, {
+      status: "FAILED",
+      outcome: `REAPED: still ${status.state} at ${provider.name} after ${ageMin}m, ended`,
+    });
+    result.failed += 1;
+  }
+
+  return result;
+}
@@ -0,0 +1,253 @@
+// app/lib/callSchedule.server.ts
+import { isValidTimeZone, zonedParts, zonedTimeToUtc } from "./timezone.server";
+
+export type DaySchedule = {
+  enabled: boolean;
+  start: string; // HH:MM
+  end: string; // HH:MM
+};
+
+// index 0 = Sunday ... 6 = Saturday
+export type WeeklySchedule = DaySchedule[];
+
+export type BlackoutRange = {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD (inclusive)
+  label: string | null;
+};
+
+export type CallSchedule = {
+  weekly: WeeklySchedule;
+  blackouts: BlackoutRange[];
+};
+
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseHHMM(hhmm: string): number | null {
+  const m = /^(\d{2}):(\d{2})$/.exec((hhmm || "").trim());
+  if (!m) return null;
+  const hh = Number(m[1]);
+  const mm = Number(m[2]);
+  if (!Number.isFinite(hh) || !Number.isFinite(mm)) return null;
+  if (hh < 0 || hh > 23 || mm < 0 || mm > 59) return null;
+  return hh * 60 + mm;
+}
+
+function safeJson(v: string | null | undefined): unknown {
+  if (!v) return null;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Weekly schedule stored as JSON: [{ day, enabled, start?, end? }].
+ * Missing days / times fall back to the default window (callWindowStart/End), so shops
+ * that never touched the weekly editor keep the old "same window every day" behavior.
+ */
+export function parseWeeklySchedule(
+  json: string | null | undefined,
+  defaultStart: string,
+  defaultEnd: string
+): WeeklySchedule {
+  const fallbackStart = parseHHMM(defaultStart) != null ? defaultStart : "09:00";
+  const fallbackEnd = parseHHMM(defaultEnd) != null ? defaultEnd : "19:00";
+
+  const week: WeeklySchedule = Array.from({ length: 7 }, () => ({
+    enabled: true,
+    start: fallbackStart,
+    end: fallbackEnd,
+  }));
+
+  const arr = safeJson(json);
+  if (!Array.isArray(arr)) return week;
+
+  for (const d of arr as Array<{ day?: unknown; enabled?: unknown; start?: unknown; end?: unknown } | null>) {
+    const day = Number(d?.day);
+    if (!Number.isInteger(day) || day < 0 || day > 6) continue;
+    const start = String(d?.start ?? "").trim();
+    const end = String(d?.end ?? "").trim();
+    week[day] = {
+      enabled: d?.enabled !== false,
+      start: parseHHMM(start) != null ? start : fallbackStart,
+      end: parseHHMM(end) != null ? end : fallbackEnd,
+    };
+  }
+
+  return week;
+}
+
+/**
+ * Raw per-day rows for the settings editor: null start/end means "use the default window".
+ */
+export function weeklyScheduleRows(json: string | null | undefined) {
+  const rows = WEEKDAY_LABELS.map((label, day) => ({
+    day,
+    label,
+    enabled: true,
+    start: null as string | null,
+    end: null as string | null,
+  }));
+
+  const arr = safeJson(json);
+  if (!Array.isArray(arr)) return rows;
+
+  for (const d of arr as Array<{ day?: unknown; enabled?: unknown; start?: unknown; end?: unknown } | null>) {
+    const day = Number(d?.day);
+    if (!Number.isInteger(day) || day < 0 || day > 6) continue;
+    const start = String(d?.start ?? "").trim();
+    const end = String(d?.end ?? "").trim();
+    rows[day].enabled = d?.enabled !== false;
+    rows[day].start = parseHHMM(start) != null ? start : null;
+    rows[day].end = parseHHMM(end) != null ? end : null;
+  }
+
+  return rows;
+}
+
+export function serializeWeeklySchedule(
+  days: Array<{ day: number; enabled: boolean; start: string | null; end: string | null }>
+) {
+  return JSON.stringify(
+    days.map((d) => ({
+      day: d.day,
+      enabled: d.enabled,
+      start: d.start && parseHHMM(d.start) != null ? d.start : null,
+      end: d.end && parseHHMM(d.end) != null ? d.end : null,
+    }))
+  );
+}
+
+export function parseBlackoutDates(json: string | null | undefined): BlackoutRange[] {
+  const arr = safeJson(json);
+  if (!Array.isArray(arr)) return [];
+
+  return (arr as Array<{ from?: unknown; to?: unknown; label?: unknown } | null>)
+    .map((r) => {
+      const from = String(r?.from ?? "").trim();
+      const to = String(r?.to ?? from).trim();
+      if (!DATE_RE.test(from) || !DATE_RE.test(to)) return null;
+      return {
+        from: from <= to ? from : to,
+        to: from <= to ? to : from,
+        label: String(r?.label ?? "").trim() || null,
+      };
+    })
+    .filter(Boolean) as BlackoutRange[];
+}
+
+/**
+ * Text editor format, one entry per line:
+ *   2026-12-25 Christmas
+ *   2026-11-27..2026-11-30 Black Friday sale
+ */
+export function parseBlackoutLines(text: string): BlackoutRange[] {
+  const out: BlackoutRange[] = [];
+  for (const line of String(text ?? "").split(/\r?\n/)) {
+    const t = line.trim();
+    if (!t) continue;
+    const m = /^(\d{4}-\d{2}-\d{2})(?:\s*\.\.\s*(\d{4}-\d{2}-\d{2}))?\s*(.*)$/.exec(t);
+    if (!m) continue;
+    const from = m[1];
+    const to = m[2] ?? m[1];
+    out.push({
+      from: from <= to ? from : to,
+      to: from <= to ? to : from,
+      label: m[3].trim() || null,
+    });
+  }
+  return out;
+}
+
+export function formatBlackoutLines(ranges: BlackoutRange[]) {
+  return ranges
+    .map((r) => `${r.from}${r.to !== r.from ? `..${r.to}` : ""}${r.label ? ` ${r.label}` : ""}`)
+    .join("\n");
+}
+
+export function callScheduleFromSettings(settings: {
+  callWindowStart?: string | null;
+  callWindowEnd?: string | null;
+  weeklyScheduleJson?: string | null;
+  blackoutDatesJson?: string | null;
+}): CallSchedule {
+  return {
+    weekly: parseWeeklySchedule(
+      settings.weeklyScheduleJson,
+      String(settings.callWindowStart ?? "09:00"),
+      String(settings.callWindowEnd ?? "19:00")
+    ),
+    blackouts: parseBlackoutDates(settings.blackoutDatesJson),
+  };
+}
+
+/**
+ * Timezone a job's call window is evaluated in.
+ * "customer" mode uses the checkout's derived timezone when we have one; otherwise shop time.
+ * Null while shop time is needed but the shop's timezone hasn't been synced yet: the server's zone
+ * (UTC on most hosts) would put calls hours outside the merchant's window, so callers wait instead.
+ */
+export function resolveCallTimezone(params: {
+  timezoneMode: string;
+  customerTimezone?: string | null;
+  shopTimezone?: string | null;
+}): string | null {
+  if (params.timezoneMode !== "shop" && isValidTimeZone(params.customerTimezone)) return params.customerTimezone;
+  if (isValidTimeZone(params.shopTimezone)) return params.shopTimezone;
+  return null;
+}
+
+function dateKey(y: number, m: number, d: number) {
+  return `${String(y).padStart(4, "0")}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+function isBlackedOut(key: string, blackouts: BlackoutRange[]) {
+  return blackouts.some((b) => key >= b.from && key <= b.to);
+}
+
+function windowMinutes(day: DaySchedule) {
+  const start = parseHHMM(day.start) ?? 9 * 60;
+  const end = parseHHMM(day.end) ?? 19 * 60;
+  return { start: Math.min(start, end), end: Math.max(start, end) };
+}
+
+/**
+ * Earliest instant >= `from` that falls inside an enabled weekday window and outside every
+ * blackout range, on the wall clock of `timeZone`. Null when nothing opens up within ~a year.
+ */
+export function nextAllowedSlot(from: Date, schedule: CallSchedule, timeZone: string): Date | null {
+  const local = zonedParts(from, timeZone);
+  const minsNow = local.hour * 60 + local.minute;
+
+  for (let offset = 0; offset <= 370; offset += 1) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    const y = day.getUTCFullYear();
+    const m = day.getUTCMonth() + 1;
+    const d = day.getUTCDate();
+
+    if (isBlackedOut(dateKey(y, m, d), schedule.blackouts)) continue;
+
+    const daySchedule = schedule.weekly[day.getUTCDay()];
+    if (!daySchedule?.enabled) continue;
+
+    const w = windowMinutes(daySchedule);
+
+    if (offset === 0) {
+      if (minsNow >= w.start && minsNow <= w.end) return from;
+      if (minsNow > w.end) continue;
+    }
+
+    return zonedTimeToUtc({ year: y, month: m, day: d, hour: Math.floor(w.start / 60), minute: w.start % 60 }, timeZone);
+  }
+
+  return null;
+}
+
+export function isCallAllowedAt(at: Date, schedule: CallSchedule, timeZone: string) {
+  const next = nextAllowedSlot(at, schedule, timeZone);
+  return next != null && next.getTime() === at.getTime();
+}
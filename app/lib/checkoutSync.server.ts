@@ -0,0 +1,527 @@
+// app/lib/checkoutSync.server.ts
+import db from "../db.server";
+import { isValidTimeZone, locationFromCheckout } from "./timezone.server";
+import { recordCheckoutConsent } from "./consent.server";
+import { phoneFields } from "./phone.server";
+
+/**
+ * Abandoned-checkout sync from the Shopify Admin GraphQL API.
+ *
+ * - Cursor pagination (50 per page). A pass that hits the page budget stores its cursor in
+ *   CheckoutSyncState and the next run resumes it with the same query.
+ * - First pass per shop is a full backfill; after it completes, passes are incremental:
+ *   `updated_at:>=watermark` (minus a small overlap), where watermark = newest updatedAt seen,
+ *   capped at the time the pass started. A pass can span several runs (hours), and a checkout
+ *   read early in it may be updated again before it ends; the cap makes the next pass refetch it.
+ *   The watermark only moves once a pass reaches the last page.
+ * - Query cost: waits for the bucket to refill when it runs low, retries THROTTLED responses.
+ * - Errors are reported, not swallowed: a page that keeps failing ends the run (cursor kept),
+ *   a row that fails to save is skipped and listed in the report.
+ */
+
+type AdminClient = {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<unknown>;
+};
+
+type ShopMoney = { shopMoney?: { amount?: string | null; currencyCode?: string | null } | null } | null;
+type PageInfo = { hasNextPage?: boolean; endCursor?: string | null } | null;
+
+type LineItemNode = {
+  title?: string | null;
+  quantity?: number | null;
+  variantTitle?: string | null;
+  originalUnitPriceSet?: ShopMoney;
+};
+
+type LineItemConnection = {
+  pageInfo?: PageInfo;
+  edges?: Array<{ node?: LineItemNode | null } | null> | null;
+} | null;
+
+/** AbandonedCheckout node as selected by CHECKOUT_FIELDS (plus its first line-item page). */
+type CheckoutNode = {
+  id?: string | null;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+  completedAt?: string | null;
+  abandonedCheckoutUrl?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  totalPriceSet?: ShopMoney;
+  shippingAddress?: { firstName?: string | null; lastName?: string | null; countryCodeV2?: string | null; provinceCode?: string | null } | null;
+  billingAddress?: { countryCodeV2?: string | null; provinceCode?: string | null } | null;
+  customer?: { firstName?: string | null; lastName?: string | null } | null;
+  customAttributes?: Array<{ key?: string | null; value?: string | null }> | null;
+  lineItems?: LineItemConnection;
+} | null;
+
+type CheckoutsPage = {
+  shop?: { ianaTimezone?: string | null } | null;
+  abandonedCheckouts?: {
+    pageInfo?: PageInfo;
+    edges?: Array<{ node?: CheckoutNode } | null> | null;
+  } | null;
+} | null;
+
+type LineItemsPage = { node?: { lineItems?: LineItemConnection } | null } | null;
+
+type GraphQLError = { message?: unknown; extensions?: { code?: unknown } | null } | null;
+
+type GraphQLResponse = {
+  data?: unknown;
+  errors?: unknown;
+  extensions?: {
+    cost?: {
+      requestedQueryCost?: number;
+      actualQueryCost?: number;
+      throttleStatus?: { currentlyAvailable?: number; restoreRate?: number } | null;
+    } | null;
+  } | null;
+} | null;
+
+export type SyncedLineItem = {
+  title: string | null;
+  quantity: number;
+  variantTitle: string | null;
+  price: string | null;
+  currency: string | null;
+};
+
+export type CheckoutSyncReport = {
+  mode: "backfill" | "incremental";
+  resumed: boolean;
+  complete: boolean; // reached the last page of the pass
+  pages: number;
+  rows: number; // checkouts received
+  saved: number;
+  lineItemPages: number; // extra requests for checkouts with > 100 line items
+  throttledMs: number;
+  queryCost: number;
+  errors: string[];
+  watermark: string | null;
+  startedAt: string;
+  finishedAt: string;
+};
+
+const PAGE_SIZE = 50;
+const LINE_ITEMS_PAGE = 100;
+const WATERMARK_OVERLAP_MS = 5 * 60 * 1000;
+const MAX_PAGE_TRIES = 4;
+const MAX_REPORT_ERRORS = 20;
+
+const CHECKOUT_FIELDS = `
+  id
+  createdAt
+  updatedAt
+  completedAt
+  abandonedCheckoutUrl
+  email
+  phone
+  totalPriceSet {
+    shopMoney { amount currencyCode }
+  }
+  shippingAddress { firstName lastName countryCodeV2 provinceCode }
+  billingAddress { countryCodeV2 provinceCode }
+  customer { firstName lastName }
+  customAttributes { key value }
+`;
+
+const LINE_ITEM_FIELDS = `
+  title
+  quantity
+  variantTitle
+  originalUnitPriceSet { shopMoney { amount currencyCode } }
+`;
+
+const CHECKOUTS_QUERY = `
+  query AbandonedCheckouts($first: Int!, $after: String, $query: String) {
+    shop { ianaTimezone }
+    abandonedCheckouts(first: $first, after: $after, query: $query, sortKey: CREATED_AT) {
+      pageInfo { hasNextPage endCursor }
+      edges {
+        node {
+          ${CHECKOUT_FIELDS}
+          lineItems(first: ${LINE_ITEMS_PAGE}) {
+            pageInfo { hasNextPage endCursor }
+            edges { node { ${LINE_ITEM_FIELDS} } }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const SHOP_TIMEZONE_QUERY = `
+  query ShopTimezone {
+    shop { ianaTimezone }
+  }
+`;
+
+const LINE_ITEMS_QUERY = `
+  query AbandonedCheckoutLineItems($id: ID!, $after: String) {
+    node(id: $id) {
+      ... on AbandonedCheckout {
+        lineItems(first: ${LINE_ITEMS_PAGE}, after: $after) {
+          pageInfo { hasNextPage endCursor }
+          edges { node { ${LINE_ITEM_FIELDS} } }
+        }
+      }
+    }
+  }
+`;
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/** The admin client returns a fetch Response; tests and older clients hand back the JSON itself. */
+async function responseJson(res: unknown): Promise<unknown> {
+  const r = res as { json?: () => Promise<unknown> } | null;
+  return typeof r?.json === "function" ? await r.json() : res;
+}
+
+function errorsOf(e: unknown): GraphQLError[] {
+  const x = e as { body?: { errors?: unknown }; response?: { errors?: unknown }; errors?: unknown } | null;
+  const errs = x?.body?.errors ?? x?.response?.errors ?? x?.errors;
+  if (Array.isArray(errs)) return errs;
+  const gql = (errs as { graphQLErrors?: unknown } | null)?.graphQLErrors;
+  if (Array.isArray(gql)) return gql;
+  return [];
+}
+
+function isThrottled(errors: GraphQLError[], e?: unknown) {
+  if (errors.some((x) => String(x?.extensions?.code ?? "").toUpperCase() === "THROTTLED")) return true;
+  return /throttled/i.test(e instanceof Error ? e.message : "");
+}
+
+/**
+ * Runs one GraphQL request with throttle handling. Returns `data`; throws after MAX_PAGE_TRIES
+ * or on a non-throttle error.
+ */
+async function graphqlWithCost<T>(
+  admin: AdminClient,
+  query: string,
+  variables: Record<string, unknown>,
+  report: CheckoutSyncReport
+): Promise<T | null> {
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= MAX_PAGE_TRIES; attempt++) {
+    let json: GraphQLResponse;
+    try {
+      json = (await responseJson(await admin.graphql(query, { variables }))) as GraphQLResponse;
+    } catch (e) {
+      const errs = errorsOf(e);
+      if (isThrottled(errs, e)) {
+        const waitMs = 1000 * 2 ** attempt;
+        report.throttledMs += waitMs;
+        await sleep(waitMs);
+        lastError = e;
+        continue;
+      }
+      throw e;
+    }
+
+    const errs: GraphQLError[] = Array.isArray(json?.errors) ? json.errors : [];
+    const cost = json?.extensions?.cost;
+    const throttle = cost?.throttleStatus;
+
+    if (errs.length && isThrottled(errs)) {
+      // Wait until the bucket holds enough points for this query again.
+      const needed = Number(cost?.requestedQueryCost ?? 100) - Number(throttle?.currentlyAvailable ?? 0);
+      const rate = Math.max(1, Number(throttle?.restoreRate ?? 50));
+      const waitMs = Math.max(1000, Math.ceil((needed / rate) * 1000));
+      report.throttledMs += waitMs;
+      await sleep(waitMs);
+      lastError = new Error("Throttled");
+      continue;
+    }
+
+    if (errs.length) {
+      throw new Error(errs.map((x) => String(x?.message ?? x)).join("; ").slice(0, 500));
+    }
+
+    report.queryCost += Number(cost?.actualQueryCost ?? cost?.requestedQueryCost ?? 0);
+
+    // Leave headroom for the next page instead of running into THROTTLED.
+    if (throttle) {
+      const available = Number(throttle.currentlyAvailable ?? 0);
+      const needed = Number(cost?.requestedQueryCost ?? 0);
+      if (needed && available < needed * 2) {
+        const waitMs = Math.ceil(((needed * 2 - available) / Math.max(1, Number(throttle.restoreRate ?? 50))) * 1000);
+        report.throttledMs += waitMs;
+        await sleep(waitMs);
+      }
+    }
+
+    return (json?.data ?? null) as T | null;
+  }
+
+  throw new Error(`Shopify kept throttling after ${MAX_PAGE_TRIES} tries (${errorMessage(lastError)})`);
+}
+
+function mapLineItems(edges: NonNullable<LineItemConnection>["edges"]): SyncedLineItem[] {
+  return (edges ?? [])
+    .map((x) => x?.node)
+    .filter((it): it is LineItemNode => Boolean(it))
+    .map((it) => ({
+      title: it?.title ?? null,
+      quantity: Number(it?.quantity ?? 1),
+      variantTitle: it?.variantTitle ?? null,
+      price: it?.originalUnitPriceSet?.shopMoney?.amount ?? null,
+      currency: it?.originalUnitPriceSet?.shopMoney?.currencyCode ?? null,
+    }))
+    .filter((x) => x.title);
+}
+
+async function allLineItems(admin: AdminClient, node: CheckoutNode, report: CheckoutSyncReport) {
+  const items = mapLineItems(node?.lineItems?.edges);
+  let pageInfo = node?.lineItems?.pageInfo;
+
+  while (pageInfo?.hasNextPage && pageInfo?.endCursor) {
+    const data = await graphqlWithCost<LineItemsPage>(
+      admin,
+      LINE_ITEMS_QUERY,
+      { id: node?.id, after: pageInfo.endCursor },
+      report
+    );
+    report.lineItemPages += 1;
+    const li = data?.node?.lineItems;
+    items.push(...mapLineItems(li?.edges));
+    pageInfo = li?.pageInfo;
+  }
+
+  return items;
+}
+
+/** Upserts one AbandonedCheckout node; `items` is the full line-item list (all pages). */
+export async function upsertAbandonedCheckout(shop: string, n: CheckoutNode, items: SyncedLineItem[]) {
+  const checkoutId = String(n?.id ?? "").trim();
+  if (!checkoutId) return false;
+
+  const firstName = String(n?.shippingAddress?.firstName ?? n?.customer?.firstName ?? "").trim();
+  const lastName = String(n?.shippingAddress?.lastName ?? n?.customer?.lastName ?? "").trim();
+  const customerName = `${firstName} ${lastName}`.trim() || null;
+
+  const itemsJson = items.length ? JSON.stringify(items) : null;
+  const location = locationFromCheckout(n, n?.phone ?? null);
+
+  const amount = Number(n?.totalPriceSet?.shopMoney?.amount ?? 0);
+  const currency = String(n?.totalPriceSet?.shopMoney?.currencyCode ?? "USD");
+  const completedAt = n?.completedAt ? new Date(n.completedAt) : null;
+
+  // IMPORTANT:
+  // - Keep status ABANDONED (Shopify already considers it abandoned),
+  // - Use abandonedAt = Shopify updatedAt/createdAt so delay can be enforced reliably.
+  const abandonedAt = completedAt ? null : new Date(n?.updatedAt ?? n?.createdAt ?? Date.now());
+
+  const data = {
+    email: n?.email ?? null,
+    phone: n?.phone ?? null,
+    ...phoneFields(n?.phone ?? null, location.countryCode),
+    value: Number.isFinite(amount) ? amount : 0,
+    currency,
+    raw: JSON.stringify(n ?? null),
+    customerName,
+    itemsJson,
+    ...location,
+  };
+
+  await db.checkout.upsert({
+    where: { shop_checkoutId: { shop, checkoutId } },
+    create: {
+      shop,
+      checkoutId,
+      token: null,
+      ...data,
+      status: completedAt ? "CONVERTED" : "ABANDONED",
+      abandonedAt,
+    },
+    update: data,
+  });
+
+  // Existing rows only move forward: RECOVERED/CONVERTED stay as they are (a pass refetches
+  // checkouts completed after a call), and an already-abandoned row keeps its abandonedAt.
+  if (completedAt) {
+    await db.checkout.updateMany({
+      where: { shop, checkoutId, status: { in: ["OPEN", "ABANDONED"] } },
+      data: { status: "CONVERTED" },
+    });
+  } else {
+    await db.checkout.updateMany({
+      where: { shop, checkoutId, status: "OPEN" },
+      data: { status: "ABANDONED", abandonedAt },
+    });
+  }
+
+  await recordCheckoutConsent(shop, checkoutId, n);
+  return true;
+}
+
+/**
+ * Saves the shop's IANA timezone if Settings doesn't have it yet (a sync pass records it from its
+ * first page; this covers runs whose first page failed). Returns the stored zone, or null.
+ */
+export async function ensureShopTimezone(admin: AdminClient, shop: string) {
+  const settings = await db.settings.findUnique({ where: { shop }, select: { shopTimezone: true } });
+  if (isValidTimeZone(settings?.shopTimezone)) return settings!.shopTimezone;
+
+  const json = (await responseJson(await admin.graphql(SHOP_TIMEZONE_QUERY))) as {
+    data?: { shop?: { ianaTimezone?: string | null } | null } | null;
+  } | null;
+  const shopTimezone = String(json?.data?.shop?.ianaTimezone ?? "").trim();
+  if (!isValidTimeZone(shopTimezone)) return null;
+
+  await db.settings.updateMany({ where: { shop }, data: { shopTimezone } });
+  return shopTimezone;
+}
+
+function shopifyDate(d: Date) {
+  return d.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+export async function getCheckoutSyncState(shop: string) {
+  return db.checkoutSyncState.findUnique({ where: { shop } });
+}
+
+/**
+ * Runs (or resumes) a sync pass for up to `maxPages` pages.
+ * `onPage` is called after every page, e.g. to report task progress.
+ */
+export async function syncAbandonedCheckouts(params: {
+  admin: AdminClient;
+  shop: string;
+  maxPages?: number;
+  onPage?: (report: CheckoutSyncReport) => Promise<void> | void;
+}): Promise<CheckoutSyncReport> {
+  const { admin, shop } = params;
+  const maxPages = Math.min(Math.max(params.maxPages ?? 20, 1), 500);
+  const startedAt = new Date();
+
+  const state =
+    (await db.checkoutSyncState.findUnique({ where: { shop } })) ??
+    (await db.checkoutSyncState.create({ data: { shop } }));
+
+  const resumed = Boolean(state.passCursor);
+  const mode: CheckoutSyncReport["mode"] = state.backfillCompletedAt ? "incremental" : "backfill";
+
+  // New pass: incremental from the watermark (with overlap for clock skew), or everything.
+  let passQuery = state.passQuery;
+  if (!resumed) {
+    passQuery =
+      mode === "incremental" && state.watermark
+        ? `updated_at:>='${shopifyDate(new Date(state.watermark.getTime() - WATERMARK_OVERLAP_MS))}'`
+        : null;
+    await db.checkoutSyncState.update({
+      where: { shop },
+      data: { passQuery, passCursor: null, passMaxUpdatedAt: null, passStartedAt: startedAt },
+    });
+  }
+
+  const report: CheckoutSyncReport = {
+    mode,
+    resumed,
+    complete: false,
+    pages: 0,
+    rows: 0,
+    saved: 0,
+    lineItemPages: 0,
+    throttledMs: 0,
+    queryCost: 0,
+    errors: [],
+    watermark: state.watermark ? state.watermark.toISOString() : null,
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+  };
+
+  const addError = (msg: string) => {
+    if (report.errors.length < MAX_REPORT_ERRORS) report.errors.push(msg.slice(0, 300));
+  };
+
+  let cursor = state.passCursor;
+  let maxUpdated = state.passMaxUpdatedAt;
+  const passStartedAt = (resumed ? state.passStartedAt : null) ?? startedAt;
+  let timezoneSaved = false;
+
+  while (report.pages < maxPages) {
+    let data: CheckoutsPage;
+    try {
+      data = await graphqlWithCost<CheckoutsPage>(
+        admin,
+        CHECKOUTS_QUERY,
+        { first: PAGE_SIZE, after: cursor, query: passQuery },
+        report
+      );
+    } catch (e) {
+      addError(`Page ${report.pages + 1}: ${errorMessage(e)}`);
+      break; // cursor kept, next run resumes here
+    }
+
+    if (!timezoneSaved) {
+      const shopTimezone = String(data?.shop?.ianaTimezone ?? "").trim();
+      if (isValidTimeZone(shopTimezone)) {
+        await db.settings.updateMany({ where: { shop }, data: { shopTimezone } });
+      }
+      timezoneSaved = true;
+    }
+
+    const conn = data?.abandonedCheckouts;
+    const edges = Array.isArray(conn?.edges) ? conn.edges : [];
+    report.pages += 1;
+
+    for (const e of edges) {
+      const n = e?.node ?? null;
+      report.rows += 1;
+      try {
+        const items = await allLineItems(admin, n, report);
+        if (await upsertAbandonedCheckout(shop, n, items)) report.saved += 1;
+
+        const updatedAt = n?.updatedAt ? new Date(n.updatedAt) : null;
+        if (updatedAt && !Number.isNaN(updatedAt.getTime()) && (!maxUpdated || updatedAt > maxUpdated)) {
+          maxUpdated = updatedAt;
+        }
+      } catch (err) {
+        addError(`${String(n?.id ?? "checkout")}: ${errorMessage(err)}`);
+      }
+    }
+
+    const hasNext = Boolean(conn?.pageInfo?.hasNextPage && conn?.pageInfo?.endCursor);
+    cursor = hasNext ? String(conn?.pageInfo?.endCursor) : null;
+
+    if (!hasNext) {
+      report.complete = true;
+      const watermark = maxUpdated
+        ? new Date(Math.min(maxUpdated.getTime(), passStartedAt.getTime()))
+        : state.watermark ?? null;
+      report.watermark = watermark ? watermark.toISOString() : null;
+      await db.checkoutSyncState.update({
+        where: { shop },
+        data: {
+          watermark,
+          backfillCompletedAt: state.backfillCompletedAt ?? new Date(),
+          passQuery: null,
+          passCursor: null,
+          passMaxUpdatedAt: null,
+          passStartedAt: null,
+        },
+      });
+      await params.onPage?.(report);
+      break;
+    }
+
+    await db.checkoutSyncState.update({ where: { shop }, data: { passCursor: cursor, passMaxUpdatedAt: maxUpdated } });
+    await params.onPage?.(report);
+  }
+
+  report.finishedAt = new Date().toISOString();
+  await db.checkoutSyncState.update({
+    where: { shop },
+    data: { lastRunAt: new Date(), lastReportJson: JSON.stringify(report) },
+  });
+
+  return report;
+}
@@ -0,0 +1,145 @@
+// app/lib/consent.server.ts
+import db from "../db.server";
+
+export type ConsentPolicy = "none" | "required" | "required_countries";
+export type ConsentSource = "sms_marketing" | "note_attribute" | "checkout_extension";
+
+export type ConsentSignal = {
+  granted: boolean;
+  source: ConsentSource;
+  wording: string | null;
+  capturedAt: Date;
+};
+
+// Cart/checkout attributes written by the call-consent checkout extension (or theme code).
+// Leading underscore keeps them hidden from the buyer in Shopify's order UI.
+export const CONSENT_ATTRIBUTE = "_call_consent";
+export const CONSENT_TEXT_ATTRIBUTE = "_call_consent_text";
+export const CONSENT_SOURCE_ATTRIBUTE = "_call_consent_source";
+
+export function pickConsentPolicy(v: unknown): ConsentPolicy {
+  const s = String(v ?? "").trim().toLowerCase();
+  if (s === "required" || s === "required_countries") return s;
+  return "none";
+}
+
+export function parseConsentCountries(csv: string | null | undefined): string[] {
+  return Array.from(
+    new Set(
+      String(csv ?? "")
+        .split(/[\s,;]+/)
+        .map((x) => x.trim().toUpperCase())
+        .filter((x) => /^[A-Z]{2}$/.test(x))
+    )
+  );
+}
+
+/**
+ * Whether a checkout needs recorded consent before we dial it.
+ * Unknown country under "required_countries" counts as required (fail closed).
+ */
+export function consentRequiredFor(params: {
+  policy: ConsentPolicy;
+  countries: string[];
+  countryCode?: string | null;
+}) {
+  if (params.policy === "required") return true;
+  if (params.policy !== "required_countries") return false;
+  const cc = String(params.countryCode ?? "").trim().toUpperCase();
+  if (!cc) return true;
+  return params.countries.includes(cc);
+}
+
+// The parts of a checkout payload (REST webhook or GraphQL node) consent is read from.
+type ConsentPayload = {
+  note_attributes?: unknown;
+  noteAttributes?: unknown;
+  customAttributes?: unknown;
+  attributes?: unknown;
+  updated_at?: unknown;
+  updatedAt?: unknown;
+  created_at?: unknown;
+  createdAt?: unknown;
+  buyer_accepts_sms_marketing?: unknown;
+  buyerAcceptsSmsMarketing?: unknown;
+} | null;
+
+type CheckoutAttribute = { name?: unknown; key?: unknown; value?: unknown } | null;
+
+function attributeMap(c: ConsentPayload): Map<string, string> {
+  const out = new Map<string, string>();
+  // REST webhooks: note_attributes [{ name, value }]; GraphQL: customAttributes [{ key, value }]
+  const arr = [
+    ...(Array.isArray(c?.note_attributes) ? c.note_attributes : []),
+    ...(Array.isArray(c?.noteAttributes) ? c.noteAttributes : []),
+    ...(Array.isArray(c?.customAttributes) ? c.customAttributes : []),
+    ...(Array.isArray(c?.attributes) ? c.attributes : []),
+  ] as CheckoutAttribute[];
+  for (const a of arr) {
+    const k = String(a?.name ?? a?.key ?? "").trim().toLowerCase();
+    if (!k) continue;
+    out.set(k, String(a?.value ?? "").trim());
+  }
+  return out;
+}
+
+function parseYesNo(v: string | undefined): boolean | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  if (s === "yes" || s === "true" || s === "1" || s === "granted" || s === "on") return true;
+  if (s === "no" || s === "false" || s === "0" || s === "denied" || s === "off") return false;
+  return null;
+}
+
+/**
+ * Consent signal carried by a checkout payload (webhook or GraphQL sync).
+ * Explicit call-consent attribute wins over the generic SMS marketing flag.
+ * Null when the payload says nothing either way.
+ */
+export function consentFromCheckout(payload: unknown): ConsentSignal | null {
+  const c = payload && typeof payload === "object" ? (payload as ConsentPayload) : null;
+  const when = c?.updated_at ?? c?.updatedAt ?? c?.created_at ?? c?.createdAt;
+  const capturedAt = when != null ? new Date(String(when)) : new Date();
+  const at = Number.isNaN(capturedAt.getTime()) ? new Date() : capturedAt;
+
+  const attrs = attributeMap(c);
+  const explicit = parseYesNo(attrs.get(CONSENT_ATTRIBUTE) ?? attrs.get(CONSENT_ATTRIBUTE.slice(1)));
+  if (explicit != null) {
+    const fromExtension = attrs.get(CONSENT_SOURCE_ATTRIBUTE) === "checkout_extension";
+    return {
+      granted: explicit,
+      source: fromExtension ? "checkout_extension" : "note_attribute",
+      wording: attrs.get(CONSENT_TEXT_ATTRIBUTE)?.slice(0, 1000) || null,
+      capturedAt: at,
+    };
+  }
+
+  const sms = c?.buyer_accepts_sms_marketing ?? c?.buyerAcceptsSmsMarketing;
+  if (typeof sms === "boolean") {
+    return { granted: sms, source: "sms_marketing", wording: null, capturedAt: at };
+  }
+
+  return null;
+}
+
+export async function recordCheckoutConsent(shop: string, checkoutId: string, c: unknown) {
+  const signal = consentFromCheckout(c);
+  if (!signal) return null;
+
+  return db.callConsent.upsert({
+    where: { shop_checkoutId: { shop, checkoutId } },
+    create: { shop, checkoutId, ...signal },
+    update: { ...signal },
+  });
+}
+
+export async function loadConsentByCheckout(shop: string, checkoutIds: string[]) {
+  const out = new Map<string, { granted: boolean; source: string; wording: string | null; capturedAt: Date }>();
+  if (!checkoutIds.length) return out;
+
+  const rows = await db.callConsent.findMany({
+    where: { shop, checkoutId: { in: checkoutIds } },
+    select: { checkoutId: true, granted: true, source: true, wording: true, capturedAt: true },
+  });
+  for (const r of rows) out.set(r.checkoutId, r);
+  return out;
+}
@@ -0,0 +1,140 @@
+// app/lib/countryRules.server.test.ts
+import { describe, expect, it } from "vitest";
+import type { CallSchedule } from "./callSchedule.server";
+import { parseRetryPolicy } from "./retryPolicy.server";
+import {
+  callDestinationCountry,
+  consentRequiredForCountry,
+  evaluateCountry,
+  parseCountryRules,
+  retryPolicyForCountry,
+  scheduleForCountry,
+  serializeCountryRules,
+  type CountryRule,
+} from "./countryRules.server";
+
+const rule = (country: string, extra?: Partial<CountryRule>): CountryRule => ({
+  country,
+  callWindowStart: null,
+  callWindowEnd: null,
+  maxAttempts: null,
+  consent: "inherit",
+  ...extra,
+});
+
+describe("parseCountryRules", () => {
+  it("returns an open, empty rule set for missing or broken JSON", () => {
+    const empty = { restrict: false, countries: [] };
+    expect(parseCountryRules(null)).toEqual(empty);
+    expect(parseCountryRules("{oops")).toEqual(empty);
+    expect(parseCountryRules('"US"')).toEqual(empty);
+    expect(parseCountryRules(JSON.stringify({ restrict: true, countries: "US" }))).toEqual({ restrict: true, countries: [] });
+  });
+
+  it("normalizes countries and drops invalid or duplicate ones", () => {
+    const rules = parseCountryRules(
+      JSON.stringify({ restrict: true, countries: [{ country: " us " }, { country: "US" }, { country: "USA" }, null, { country: "de" }] })
+    );
+    expect(rules.countries.map((r) => r.country)).toEqual(["US", "DE"]);
+  });
+
+  it("keeps a call window only when both ends are valid", () => {
+    const rules = parseCountryRules(
+      JSON.stringify({
+        countries: [
+          { country: "GB", callWindowStart: "10:00", callWindowEnd: "18:30" },
+          { country: "FR", callWindowStart: "10:00", callWindowEnd: "" },
+          { country: "DE", callWindowStart: "9:00", callWindowEnd: "17:00" },
+        ],
+      })
+    );
+    expect(rules.countries[0]).toMatchObject({ callWindowStart: "10:00", callWindowEnd: "18:30" });
+    expect(rules.countries[1]).toMatchObject({ callWindowStart: null, callWindowEnd: null });
+    expect(rules.countries[2]).toMatchObject({ callWindowStart: null, callWindowEnd: null });
+  });
+
+  it("clamps max attempts and defaults unknown consent values to inherit", () => {
+    const rules = parseCountryRules(
+      JSON.stringify({
+        countries: [
+          { country: "US", maxAttempts: 0, consent: "required" },
+          { country: "CA", maxAttempts: "50", consent: "not_required" },
+          { country: "MX", maxAttempts: "", consent: "yes" },
+          { country: "BR", maxAttempts: 2.6 },
+        ],
+      })
+    );
+    expect(rules.countries.map((r) => [r.maxAttempts, r.consent])).toEqual([
+      [1, "required"],
+      [20, "not_required"],
+      [null, "inherit"],
+      [3, "inherit"],
+    ]);
+  });
+
+  it("round-trips through serializeCountryRules, which stores nothing for the default", () => {
+    const rules = { restrict: true, countries: [rule("US", { maxAttempts: 3, consent: "required" })] };
+    expect(parseCountryRules(serializeCountryRules(rules))).toEqual(rules);
+    expect(serializeCountryRules({ restrict: false, countries: [] })).toBeNull();
+  });
+});
+
+describe("callDestinationCountry", () => {
+  it("prefers the phone's country code over the address", () => {
+    expect(callDestinationCountry({ phone: "+447911123456", countryCode: "US" })).toBe("GB");
+    expect(callDestinationCountry({ phone: "7911 123456", countryCode: " gb " })).toBe("GB");
+    expect(callDestinationCountry({ phone: null, countryCode: "United Kingdom" })).toBeNull();
+  });
+});
+
+describe("evaluateCountry", () => {
+  const us = rule("US");
+
+  it("allows every country when not restricted, with the matching rule", () => {
+    const rules = { restrict: false, countries: [us] };
+    expect(evaluateCountry(rules, "US")).toEqual({ allowed: true, country: "US", rule: us });
+    expect(evaluateCountry(rules, "DE")).toEqual({ allowed: true, country: "DE", rule: null });
+    expect(evaluateCountry(rules, null)).toEqual({ allowed: true, country: null, rule: null });
+  });
+
+  it("only allows listed countries when restricted", () => {
+    const rules = { restrict: true, countries: [us] };
+    expect(evaluateCountry(rules, "US")).toEqual({ allowed: true, country: "US", rule: us });
+    expect(evaluateCountry(rules, "DE")).toEqual({ allowed: false, country: "DE", reason: "DE is not an allowed calling country" });
+    expect(evaluateCountry(rules, null)).toEqual({ allowed: false, country: null, reason: "Destination country unknown" });
+  });
+});
+
+describe("country overrides", () => {
+  const schedule: CallSchedule = {
+    weekly: [
+      { enabled: false, start: "09:00", end: "19:00" },
+      { enabled: true, start: "09:00", end: "19:00" },
+    ],
+    blackouts: [{ from: "2026-12-25", to: "2026-12-26", label: "Christmas" }],
+  };
+
+  it("replaces the hours on every weekday and keeps days and blackouts", () => {
+    const s = scheduleForCountry(schedule, rule("GB", { callWindowStart: "10:00", callWindowEnd: "17:00" }));
+    expect(s.weekly).toEqual([
+      { enabled: false, start: "10:00", end: "17:00" },
+      { enabled: true, start: "10:00", end: "17:00" },
+    ]);
+    expect(s.blackouts).toBe(schedule.blackouts);
+    expect(scheduleForCountry(schedule, rule("GB"))).toBe(schedule);
+    expect(scheduleForCountry(schedule, null)).toBe(schedule);
+  });
+
+  it("overrides the lifetime call cap", () => {
+    const policy = parseRetryPolicy(null, { maxAttempts: 4 });
+    expect(retryPolicyForCountry(policy, rule("US", { maxAttempts: 1 })).maxCallsPerCheckout).toBe(1);
+    expect(retryPolicyForCountry(policy, rule("US"))).toBe(policy);
+  });
+
+  it("overrides the shop-wide consent decision unless set to inherit", () => {
+    expect(consentRequiredForCountry(rule("DE", { consent: "required" }), false)).toBe(true);
+    expect(consentRequiredForCountry(rule("US", { consent: "not_required" }), true)).toBe(false);
+    expect(consentRequiredForCountry(rule("FR"), true)).toBe(true);
+    expect(consentRequiredForCountry(null, false)).toBe(false);
+  });
+});
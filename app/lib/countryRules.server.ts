@@ -0,0 +1,137 @@
+// app/lib/countryRules.server.ts
+import { parseHHMM, type CallSchedule } from "./callSchedule.server";
+import { countryFromPhone } from "./timezone.server";
+import type { RetryPolicy } from "./retryPolicy.server";
+
+/**
+ * Destination-country rules (Settings.countryRulesJson).
+ *
+ * - `restrict` on: only numbers in a listed country are enqueued/dialed; the rest are blocked.
+ * - Each listed country can override the call window (same weekdays, different hours),
+ *   the max calls per checkout and whether consent is required.
+ *
+ * The destination is the phone's country code (what the provider dials, and what it costs);
+ * the shipping/billing country is only used when the number itself can't tell.
+ */
+
+export type CountryConsent = "inherit" | "required" | "not_required";
+
+export type CountryRule = {
+  country: string; // ISO 3166-1 alpha-2
+  callWindowStart: string | null; // HH:MM, null = shop schedule
+  callWindowEnd: string | null;
+  maxAttempts: number | null; // null = Settings.maxAttempts
+  consent: CountryConsent;
+};
+
+export type CountryRules = {
+  restrict: boolean;
+  countries: CountryRule[];
+};
+
+export type CountryDecision =
+  | { allowed: true; country: string | null; rule: CountryRule | null }
+  | { allowed: false; country: string | null; reason: string };
+
+/** Stored JSON as written by the settings form (or by hand); every field is checked. */
+type RawCountryRules = {
+  restrict?: unknown;
+  countries?: unknown;
+} | null;
+
+type RawCountryRule = {
+  country?: unknown;
+  callWindowStart?: unknown;
+  callWindowEnd?: unknown;
+  maxAttempts?: unknown;
+  consent?: unknown;
+} | null;
+
+function pickConsent(v: unknown): CountryConsent {
+  return v === "required" || v === "not_required" ? v : "inherit";
+}
+
+function pickWindow(v: unknown): string | null {
+  const s = String(v ?? "").trim();
+  return s && parseHHMM(s) != null ? s : null;
+}
+
+export function parseCountryRules(json: string | null | undefined): CountryRules {
+  let raw: RawCountryRules = null;
+  try {
+    const parsed: unknown = json ? JSON.parse(json) : null;
+    raw = parsed && typeof parsed === "object" ? (parsed as RawCountryRules) : null;
+  } catch {
+    raw = null;
+  }
+
+  const seen = new Set<string>();
+  const countries: CountryRule[] = [];
+  const list: RawCountryRule[] = Array.isArray(raw?.countries) ? raw.countries : [];
+  for (const r of list) {
+    const country = String(r?.country ?? "").trim().toUpperCase();
+    if (!/^[A-Z]{2}$/.test(country) || seen.has(country)) continue;
+    seen.add(country);
+
+    const start = pickWindow(r?.callWindowStart);
+    const end = pickWindow(r?.callWindowEnd);
+    const max = r?.maxAttempts == null || r?.maxAttempts === "" ? NaN : Number(r.maxAttempts);
+
+    countries.push({
+      country,
+      // A window override needs both ends.
+      callWindowStart: start && end ? start : null,
+      callWindowEnd: start && end ? end : null,
+      maxAttempts: Number.isFinite(max) ? Math.min(Math.max(Math.round(max), 1), 20) : null,
+      consent: pickConsent(r?.consent),
+    });
+  }
+
+  return { restrict: Boolean(raw?.restrict), countries };
+}
+
+export function serializeCountryRules(rules: CountryRules): string | null {
+  if (!rules.restrict && rules.countries.length === 0) return null;
+  return JSON.stringify(rules);
+}
+
+export function countryRulesFromSettings(s: { countryRulesJson?: string | null }) {
+  return parseCountryRules(s.countryRulesJson);
+}
+
+/** Country the call goes to: phone country code first, then the checkout address. */
+export function callDestinationCountry(params: { phone?: string | null; countryCode?: string | null }) {
+  const fromPhone = countryFromPhone(params.phone);
+  if (fromPhone) return fromPhone;
+  const cc = String(params.countryCode ?? "").trim().toUpperCase();
+  return /^[A-Z]{2}$/.test(cc) ? cc : null;
+}
+
+export function evaluateCountry(rules: CountryRules, country: string | null): CountryDecision {
+  const rule = country ? rules.countries.find((r) => r.country === country) ?? null : null;
+  if (!rules.restrict) return { allowed: true, country, rule };
+  if (!country) return { allowed: false, country, reason: "Destination country unknown" };
+  if (!rule) return { allowed: false, country, reason: `${country} is not an allowed calling country` };
+  return { allowed: true, country, rule };
+}
+
+/** Shop schedule with the country's hours on every enabled weekday (blackouts unchanged). */
+export function scheduleForCountry(schedule: CallSchedule, rule: CountryRule | null): CallSchedule {
+  if (!rule?.callWindowStart || !rule.callWindowEnd) return schedule;
+  return {
+    ...schedule,
+    weekly: schedule.weekly.map((d) => ({ ...d, start: rule.callWindowStart as string, end: rule.callWindowEnd as string })),
+  };
+}
+
+export function retryPolicyForCountry(policy: RetryPolicy, rule: CountryRule | null): RetryPolicy {
+  if (rule?.maxAttempts == null) return policy;
+  return { ...policy, maxCallsPerCheckout: rule.maxAttempts };
+}
+
+/** Country override on top of the shop-wide consent decision. */
+export function consentRequiredForCountry(rule: CountryRule | null, shopRequires: boolean) {
+  if (rule?.consent === "required") return true;
+  if (rule?.consent === "not_required") return false;
+  return shopRequires;
+}
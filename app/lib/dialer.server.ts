@@ -0,0 +1,362 @@
+// app/lib/dialer.server.ts
+import type { CallJob } from "@prisma/client";
+import db from "../db.server";
+import { ensureSettings } from "../callRecovery.server";
+import { startCallForJob } from "../callProvider.server";
+import { getCallProvider } from "./providers/index.server";
+import type { CallerLine, CallProvider } from "./providers/types";
+import { findSuppressionForJob } from "./suppression.server";
+import { recordTouchpoint } from "./touchpoints.server";
+import { callScheduleFromSettings, isCallAllowedAt, nextAllowedSlot, resolveCallTimezone } from "./callSchedule.server";
+import { consentRequiredFor, loadConsentByCheckout, parseConsentCountries, pickConsentPolicy } from "./consent.server";
+import {
+  callDestinationCountry,
+  consentRequiredForCountry,
+  countryRulesFromSettings,
+  evaluateCountry,
+  scheduleForCountry,
+} from "./countryRules.server";
+import {
+  budgetBlock,
+  budgetCapsFromSettings,
+  hasBudgetCaps,
+  loadBudgetState,
+  releaseThrottledJobs,
+  type BudgetState,
+} from "./budget.server";
+import {
+  concurrencyBlock,
+  concurrencyLimits,
+  countStartedCall,
+  newLiveCallCounts,
+  type LiveCallCounts,
+} from "./callConcurrency.server";
+
+/**
+ * One place that dials a QUEUED job:
+ * suppression -> country rules -> call schedule -> provider config -> budget caps -> concurrency -> lock -> start.
+ * Used by the cron endpoint, /api/call-jobs/run and the Calls page buttons.
+ *
+ * A job is dialed at most once. If the provider call can't be started the job ends FAILED and
+ * the retry policy (enqueueCallJobs) decides whether and when the checkout gets another job.
+ */
+
+export type DialResult = "started" | "failed" | "rescheduled" | "suppressed" | "blocked" | "throttled" | "deferred" | "skipped";
+
+function safeStr(v: unknown, max = 2000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+async function checkCountryRules(
+  job: Pick<CallJob, "shop" | "checkoutId" | "phone">,
+  settings: Awaited<ReturnType<typeof ensureSettings>>
+) {
+  const decision = evaluateCountry(countryRulesFromSettings(settings), callDestinationCountry({ phone: job.phone }));
+  if (!decision.allowed) return { ok: false as const, reason: decision.reason };
+  const rule = decision.rule;
+
+  const shopRequiresConsent = consentRequiredFor({
+    policy: pickConsentPolicy(settings.consentPolicy),
+    countries: parseConsentCountries(settings.consentCountries),
+    countryCode: decision.country,
+  });
+  if (consentRequiredForCountry(rule, shopRequiresConsent)) {
+    const consent = await loadConsentByCheckout(job.shop, [job.checkoutId]);
+    if (consent.get(job.checkoutId)?.granted !== true) {
+      return { ok: false as const, reason: `no call consent (required for ${decision.country ?? "unknown country"})` };
+    }
+  }
+
+  if (rule?.maxAttempts != null) {
+    const used = await db.callJob.aggregate({
+      where: { shop: job.shop, checkoutId: job.checkoutId },
+      _sum: { attempts: true },
+    });
+    if (Number(used._sum.attempts ?? 0) >= rule.maxAttempts) {
+      return { ok: false as const, reason: `max ${rule.maxAttempts} calls for ${rule.country} reached` };
+    }
+  }
+
+  return { ok: true as const, rule };
+}
+
+export async function dialJob(
+  job: Pick<CallJob, "id" | "shop" | "checkoutId" | "phone" | "timezone">,
+  ctx: {
+    settings: Awaited<ReturnType<typeof ensureSettings>>;
+    provider: CallProvider;
+    providerConfigured: boolean;
+    now?: Date;
+    ignoreSchedule?: boolean; // manual "call now"
+    budget?: BudgetState | null; // shared across a batch so it counts its own calls; loaded when omitted
+    line?: CallerLine | null; // outbound number; resolved from the provider when omitted
+    live?: LiveCallCounts; // shared across a batch, like budget
+  }
+): Promise<DialResult> {
+  const { settings, provider } = ctx;
+  const now = ctx.now ?? new Date();
+  const queued = { id: job.id, shop: job.shop, status: "QUEUED" as const };
+
+  const dnc = await findSuppressionForJob(job);
+  if (dnc) {
+    await db.callJob.updateMany({
+      where: queued,
+      data: { status: "CANCELED", outcome: `SUPPRESSED: ${dnc.reason ?? "on do-not-call list"}` },
+    });
+    return "suppressed";
+  }
+
+  // Country rules may have changed since enqueue (country dropped from the allow-list, consent now required).
+  const country = await checkCountryRules(job, settings);
+  if (!country.ok) {
+    await db.callJob.updateMany({ where: queued, data: { status: "CANCELED", outcome: safeStr(`BLOCKED: ${country.reason}`) } });
+    return "blocked";
+  }
+
+  // Job may have drifted into a blocked slot (schedule edited, blackout added, retry landed at night).
+  if (!ctx.ignoreSchedule) {
+    const timezone =
+      job.timezone ?? resolveCallTimezone({ timezoneMode: "shop", shopTimezone: settings.shopTimezone });
+    if (!timezone) {
+      await db.callJob.updateMany({
+        where: queued,
+        data: {
+          scheduledFor: new Date(now.getTime() + 60 * 60 * 1000),
+          outcome: "RESCHEDULED: shop timezone not synced yet",
+        },
+      });
+      return "rescheduled";
+    }
+    const schedule = scheduleForCountry(callScheduleFromSettings(settings), country.rule);
+    if (!isCallAllowedAt(now, schedule, timezone)) {
+      const nextSlot = nextAllowedSlot(now, schedule, timezone);
+      await db.callJob.updateMany({
+        where: queued,
+        data: {
+          scheduledFor: nextSlot ?? new Date(now.getTime() + 24 * 60 * 60 * 1000),
+          outcome: nextSlot ? "RESCHEDULED: outside call schedule" : "RESCHEDULED: no allowed slot in schedule",
+        },
+      });
+      return "rescheduled";
+    }
+  }
+
+  if (!ctx.providerConfigured) {
+    await db.callJob.updateMany({
+      where: queued,
+      data: { outcome: `Call provider "${provider.name}" is not configured` },
+    });
+    return "skipped";
+  }
+
+  const budget =
+    ctx.budget !== undefined
+      ? ctx.budget
+      : hasBudgetCaps(budgetCapsFromSettings(settings))
+      ? await loadBudgetState(job.shop, settings, now)
+      : null;
+  const block = budget ? budgetBlock(budget) : null;
+  if (block) {
+    await db.callJob.updateMany({
+      where: queued,
+      data: { status: "THROTTLED", scheduledFor: block.until, outcome: safeStr(`THROTTLED: ${block.reason}`) },
+    });
+    return "throttled";
+  }
+
+  // Lines are full: stay QUEUED (same place in line) for the next run.
+  const line = ctx.line !== undefined ? ctx.line : await provider.callerLine(job.shop);
+  const live = ctx.live ?? newLiveCallCounts();
+  const busy = await concurrencyBlock(live, { shop: job.shop, limits: concurrencyLimits(settings, line), line });
+  if (busy) {
+    await db.callJob.updateMany({ where: queued, data: { outcome: safeStr(`WAITING: ${busy}`) } });
+    return "deferred";
+  }
+
+  // Lock exactly once and increment attempts exactly once here.
+  const locked = await db.callJob.updateMany({
+    where: queued,
+    data: {
+      status: "CALLING",
+      attempts: { increment: 1 },
+      provider: provider.name,
+      outcome: null,
+      dialedAt: now,
+      callerNumber: line?.id ?? null,
+    },
+  });
+  if (locked.count === 0) return "skipped";
+  if (budget) budget.usage.callsToday += 1;
+  countStartedCall(live, job.shop, line);
+  await recordTouchpoint({
+    shop: job.shop,
+    checkoutId: job.checkoutId,
+    channel: "call",
+    kind: "call_attempt",
+    refId: job.id,
+    occurredAt: now,
+    detail: line?.id ? `From ${line.id}` : null,
+  });
+
+  try {
+    const res = await startCallForJob({ shop: job.shop, callJobId: job.id });
+
+    // Stays CALLING until the provider webhook (or the reaper) ends the call. startCallForJob has
+    // stored the provider and call id whatever the status; only the outcome waits on CALLING.
+    await db.callJob.updateMany({
+      where: { id: job.id, status: "CALLING" },
+      data: { outcome: `${res.provider.toUpperCase()}_CALL_STARTED` },
+    });
+    return "started";
+  } catch (e) {
+    // startCallForJob already marks provider errors FAILED; this covers the early throws
+    // (job/checkout missing) that would otherwise leave the job CALLING.
+    await db.callJob.updateMany({
+      where: { id: job.id, status: "CALLING" },
+      data: { status: "FAILED", outcome: safeStr(`ERROR: ${e instanceof Error ? e.message : String(e)}`) },
+    });
+    return "failed";
+  }
+}
+
+// Due jobs are read a page at a time per shop; a run looks at up to DUE_SCAN_FACTOR x `limit` of them
+// so jobs that end up rescheduled, blocked or suppressed don't use up the slots of the ones behind them.
+const DUE_PAGE_SIZE = 25;
+const DUE_SCAN_FACTOR = 10;
+
+type ShopQueue = {
+  shop: string;
+  settings: Awaited<ReturnType<typeof ensureSettings>>;
+  cap: number; // calls this run may start for the shop
+  started: number;
+  buffer: CallJob[];
+  seen: string[];
+  exhausted: boolean; // no more due jobs to read
+  done: boolean;
+};
+
+const DUE_ORDER = [{ priority: "desc" as const }, { scheduledFor: "asc" as const }, { id: "asc" as const }];
+
+async function nextDueJob(q: ShopQueue, due: { status: "QUEUED"; scheduledFor: { lte: Date } }) {
+  if (q.buffer.length === 0 && !q.exhausted) {
+    const page = await db.callJob.findMany({
+      where: { ...due, shop: q.shop, id: { notIn: q.seen } },
+      orderBy: DUE_ORDER,
+      take: DUE_PAGE_SIZE,
+    });
+    q.buffer.push(...page);
+    q.exhausted = page.length < DUE_PAGE_SIZE;
+  }
+  const job = q.buffer.shift() ?? null;
+  if (job) q.seen.push(job.id);
+  return job;
+}
+
+/**
+ * Dials due QUEUED jobs: highest priority first within a shop (then oldest scheduledFor), one job per shop in turn
+ * (shops with the oldest due job first). A shop keeps pulling due jobs until it has started its concurrent-call
+ * limit, its lines are full, it hits a budget cap, or it runs out of due jobs.
+ */
+export async function runDueCallJobs(params: { shop?: string | null; limit: number; now?: Date }) {
+  const now = params.now ?? new Date();
+  const provider = getCallProvider();
+
+  await releaseThrottledJobs({ shop: params.shop, now });
+
+  // DO NOT use grace window. It causes “early” calls and can look like spam loops.
+  const due = {
+    ...(params.shop ? { shop: params.shop } : {}),
+    status: "QUEUED" as const,
+    scheduledFor: { lte: now },
+  };
+
+  const shops = await db.callJob.groupBy({
+    by: ["shop"],
+    where: due,
+    _min: { scheduledFor: true },
+    orderBy: { _min: { scheduledFor: "asc" } },
+    take: params.limit,
+  });
+
+  const queues: ShopQueue[] = [];
+  for (const g of shops) {
+    const settings = await ensureSettings(g.shop);
+    queues.push({
+      shop: g.shop,
+      settings,
+      cap: Math.min(params.limit, concurrencyLimits(settings, null).perShop),
+      started: 0,
+      buffer: [],
+      seen: [],
+      exhausted: false,
+      done: false,
+    });
+  }
+
+  const result = {
+    processed: 0,
+    started: 0,
+    failed: 0,
+    rescheduled: 0,
+    suppressed: 0,
+    blocked: 0,
+    throttled: 0,
+    deferred: 0,
+    skipped: 0,
+  };
+
+  const configuredByShop = new Map<string, boolean>();
+  const budgetByShop = new Map<string, BudgetState | null>();
+  const lineByShop = new Map<string, CallerLine | null>();
+  const live = newLiveCallCounts();
+
+  const maxExamined = params.limit * DUE_SCAN_FACTOR;
+  let examined = 0;
+  const full = () => result.processed >= params.limit || examined >= maxExamined;
+
+  while (!full() && queues.some((q) => !q.done)) {
+    for (const q of queues) {
+      if (q.done) continue;
+      if (full()) break;
+
+      const job = await nextDueJob(q, due);
+      if (!job) {
+        q.done = true;
+        continue;
+      }
+      examined += 1;
+
+      if (!lineByShop.has(q.shop)) lineByShop.set(q.shop, await provider.callerLine(q.shop));
+      if (!configuredByShop.has(q.shop)) configuredByShop.set(q.shop, await provider.isConfigured(q.shop));
+      if (!budgetByShop.has(q.shop)) {
+        budgetByShop.set(
+          q.shop,
+          hasBudgetCaps(budgetCapsFromSettings(q.settings)) ? await loadBudgetState(q.shop, q.settings, now) : null
+        );
+      }
+
+      const providerConfigured = Boolean(configuredByShop.get(q.shop));
+      const r = await dialJob(job, {
+        settings: q.settings,
+        provider,
+        providerConfigured,
+        now,
+        budget: budgetByShop.get(q.shop) ?? null,
+        line: lineByShop.get(q.shop) ?? null,
+        live,
+      });
+
+      result[r] += 1;
+      if (r === "started" || r === "failed") result.processed += 1;
+      if (r === "started") q.started += 1;
+
+      // Every later job of the shop would end the same way: capped, lines full, over budget, no provider.
+      if (q.started >= q.cap || r === "deferred" || r === "throttled" || (r === "skipped" && !providerConfigured)) {
+        q.done = true;
+      }
+    }
+  }
+
+  return { provider: provider.name, ...result };
+}
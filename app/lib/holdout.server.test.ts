@@ -0,0 +1,102 @@
+// app/lib/holdout.server.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  checkout: { findMany: vi.fn() },
+  order: { findMany: vi.fn() },
+}));
+vi.mock("../db.server", () => ({ default: db }));
+
+import { clampHoldoutPercent, liftReport, pickGroup } from "./holdout.server";
+
+type Row = { checkoutId: string; experimentGroup: "call" | "control"; status: string };
+
+function group(g: Row["experimentGroup"], total: number, purchased: number): Row[] {
+  return Array.from({ length: total }, (_, i) => ({
+    checkoutId: `${g}-${i}`,
+    experimentGroup: g,
+    status: i < purchased ? "RECOVERED" : "ABANDONED",
+  }));
+}
+
+const range = { from: new Date("2026-03-01T00:00:00Z"), to: new Date("2026-03-31T00:00:00Z") };
+
+beforeEach(() => {
+  db.checkout.findMany.mockReset();
+  db.order.findMany.mockReset().mockResolvedValue([]);
+});
+
+describe("group assignment", () => {
+  it("clamps the holdout to 0..50%", () => {
+    expect(clampHoldoutPercent(-3)).toBe(0);
+    expect(clampHoldoutPercent("12.4")).toBe(12);
+    expect(clampHoldoutPercent(80)).toBe(50);
+    expect(clampHoldoutPercent("abc")).toBe(0);
+  });
+
+  it("is stable per checkout and close to the configured split", () => {
+    expect(pickGroup("shop-a", "c1", 20)).toBe(pickGroup("shop-a", "c1", 20));
+
+    const ids = Array.from({ length: 4000 }, (_, i) => `checkout-${i}`);
+    expect(ids.every((id) => pickGroup("shop-a", id, 0) === "call")).toBe(true);
+
+    const control = ids.filter((id) => pickGroup("shop-a", id, 20) === "control").length;
+    expect(control / ids.length).toBeGreaterThan(0.17);
+    expect(control / ids.length).toBeLessThan(0.23);
+  });
+});
+
+describe("liftReport", () => {
+  it("compares recovery rates with a 95% normal-approximation interval", async () => {
+    db.checkout.findMany.mockResolvedValue([...group("call", 100, 30), ...group("control", 100, 20)]);
+    const r = await liftReport("shop-a", range);
+
+    expect(r.call).toMatchObject({ checkouts: 100, purchased: 30, recoveryRate: 0.3 });
+    expect(r.control).toMatchObject({ checkouts: 100, purchased: 20, recoveryRate: 0.2 });
+
+    // se = sqrt(0.3 * 0.7 / 100 + 0.2 * 0.8 / 100)
+    const se = Math.sqrt(0.0037);
+    expect(r.rateDiff?.estimate).toBeCloseTo(0.1, 10);
+    expect(r.rateDiff?.low).toBeCloseTo(0.1 - 1.96 * se, 10);
+    expect(r.rateDiff?.high).toBeCloseTo(0.1 + 1.96 * se, 10);
+    expect(r.relativeLift).toBeCloseTo(0.5, 10);
+    expect(r.significant).toBe(false);
+  });
+
+  it("is significant once the interval excludes zero", async () => {
+    db.checkout.findMany.mockResolvedValue([...group("call", 1000, 300), ...group("control", 1000, 200)]);
+    const r = await liftReport("shop-a", range);
+
+    expect(r.rateDiff?.low).toBeGreaterThan(0);
+    expect(r.significant).toBe(true);
+  });
+
+  it("counts net revenue per checkout, credited to the matched checkout", async () => {
+    db.checkout.findMany.mockResolvedValue([...group("call", 4, 1), ...group("control", 4, 0)]);
+    db.order.findMany.mockResolvedValue([
+      { checkoutId: "other", matchedCheckoutId: "call-0", total: 150, netTotal: 100 },
+      { checkoutId: "control-3", matchedCheckoutId: null, total: 40, netTotal: null },
+    ]);
+    const r = await liftReport("shop-a", range);
+
+    expect(r.call).toMatchObject({ revenue: 100, revenuePerCheckout: 25 });
+    expect(r.control).toMatchObject({ revenue: 40, revenuePerCheckout: 10 });
+
+    // sample variances: call [100, 0, 0, 0] = 2500, control [0, 0, 0, 40] = 400
+    const se = Math.sqrt(2500 / 4 + 400 / 4);
+    expect(r.revenueDiff?.estimate).toBe(15);
+    expect(r.revenueDiff?.low).toBeCloseTo(15 - 1.96 * se, 10);
+    expect(r.revenueDiff?.high).toBeCloseTo(15 + 1.96 * se, 10);
+  });
+
+  it("has no comparison while a group is empty or the control never purchased", async () => {
+    db.checkout.findMany.mockResolvedValue(group("call", 10, 3));
+    const empty = await liftReport("shop-a", range);
+    expect(empty).toMatchObject({ rateDiff: null, revenueDiff: null, relativeLift: null, significant: false });
+
+    db.checkout.findMany.mockResolvedValue([...group("call", 10, 3), ...group("control", 10, 0)]);
+    const noBaseline = await liftReport("shop-a", range);
+    expect(noBaseline.rateDiff?.estimate).toBeCloseTo(0.3, 10);
+    expect(noBaseline.relativeLift).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+// app/lib/holdout.server.ts
+import { createHash } from "node:crypto";
+import db from "../db.server";
+
+/**
+ * Holdout control group (Settings.holdoutPercent).
+ *
+ * enqueueCallJobs assigns every checkout that would get its first call to "call" or "control" and
+ * never calls the control group. The split is a hash of (shop, checkoutId), so the same checkout
+ * always lands in the same group, and the group is stored on the checkout the first time, so
+ * changing the percentage later doesn't move checkouts that were already assigned.
+ * Nothing is assigned while the holdout is 0.
+ *
+ * The lift report compares the groups intention-to-treat: a "call" checkout counts whether or not
+ * the call was answered, and any purchase counts (RECOVERED or CONVERTED) in both groups.
+ */
+
+export type ExperimentGroup = "call" | "control";
+
+export type GroupStats = {
+  checkouts: number;
+  purchased: number;
+  recoveryRate: number;
+  revenue: number; // net order revenue
+  revenuePerCheckout: number;
+};
+
+export type Interval = { estimate: number; low: number; high: number };
+
+export type LiftReport = {
+  from: string;
+  to: string;
+  call: GroupStats;
+  control: GroupStats;
+  // call minus control, 95% normal-approximation intervals
+  rateDiff: Interval | null;
+  relativeLift: number | null; // rateDiff / control rate
+  revenueDiff: Interval | null;
+  significant: boolean; // rate interval excludes 0
+};
+
+const Z95 = 1.96;
+
+export function clampHoldoutPercent(v: unknown) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.min(Math.max(Math.round(n), 0), 50) : 0;
+}
+
+/** Deterministic bucket 0..9999 for a checkout. */
+export function holdoutBucket(shop: string, checkoutId: string) {
+  const h = createHash("sha256").update(`${shop}:${checkoutId}`).digest();
+  return h.readUInt32BE(0) % 10000;
+}
+
+export function pickGroup(shop: string, checkoutId: string, holdoutPercent: number): ExperimentGroup {
+  return holdoutBucket(shop, checkoutId) < clampHoldoutPercent(holdoutPercent) * 100 ? "control" : "call";
+}
+
+/** Stores new assignments (only on checkouts not assigned yet). */
+export async function saveAssignments(shop: string, groups: Map<string, ExperimentGroup>, now = new Date()) {
+  const byGroup: Record<ExperimentGroup, string[]> = { call: [], control: [] };
+  for (const [checkoutId, g] of groups) byGroup[g].push(checkoutId);
+
+  for (const g of ["call", "control"] as const) {
+    if (!byGroup[g].length) continue;
+    await db.checkout.updateMany({
+      where: { shop, checkoutId: { in: byGroup[g] }, experimentGroup: null },
+      data: { experimentGroup: g, experimentAssignedAt: now },
+    });
+  }
+}
+
+function groupStats(rows: Array<{ purchased: boolean; revenue: number }>): GroupStats & { revenueVar: number } {
+  const n = rows.length;
+  const purchased = rows.filter((r) => r.purchased).length;
+  const revenue = rows.reduce((s, r) => s + r.revenue, 0);
+  const mean = n ? revenue / n : 0;
+  const revenueVar = n > 1 ? rows.reduce((s, r) => s + (r.revenue - mean) ** 2, 0) / (n - 1) : 0;
+
+  return {
+    checkouts: n,
+    purchased,
+    recoveryRate: n ? purchased / n : 0,
+    revenue: Math.round(revenue * 100) / 100,
+    revenuePerCheckout: Math.round(mean * 100) / 100,
+    revenueVar,
+  };
+}
+
+function interval(estimate: number, se: number): Interval {
+  return { estimate, low: estimate - Z95 * se, high: estimate + Z95 * se };
+}
+
+export async function liftReport(shop: string, params: { from: Date; to: Date }): Promise<LiftReport> {
+  const checkouts = await db.checkout.findMany({
+    where: { shop, experimentGroup: { in: ["call", "control"] }, experimentAssignedAt: { gte: params.from, lte: params.to } },
+    select: { checkoutId: true, experimentGroup: true, status: true },
+  });
+
+  const ids = checkouts.map((c) => c.checkoutId);
+  const orders = ids.length
+    ? await db.order.findMany({
+        where: { shop, OR: [{ matchedCheckoutId: { in: ids } }, { checkoutId: { in: ids } }] },
+        select: { checkoutId: true, matchedCheckoutId: true, total: true, netTotal: true },
+      })
+    : [];
+
+  const revenueByCheckout = new Map<string, number>();
+  for (const o of orders) {
+    const key = o.matchedCheckoutId ?? o.checkoutId;
+    if (!key) continue;
+    revenueByCheckout.set(key, (revenueByCheckout.get(key) ?? 0) + Number(o.netTotal ?? o.total ?? 0));
+  }
+
+  const rowsFor = (g: ExperimentGroup) =>
+    checkouts
+      .filter((c) => c.experimentGroup === g)
+      .map((c) => ({
+        purchased: c.status === "RECOVERED" || c.status === "CONVERTED",
+        revenue: revenueByCheckout.get(c.checkoutId) ?? 0,
+      }));
+
+  const { revenueVar: callVar, ...call } = groupStats(rowsFor("call"));
+  const { revenueVar: controlVar, ...control } = groupStats(rowsFor("control"));
+
+  const comparable = call.checkouts > 0 && control.checkouts > 0;
+  const p1 = call.recoveryRate;
+  const p0 = control.recoveryRate;
+  const rateDiff = comparable
+    ? interval(p1 - p0, Math.sqrt((p1 * (1 - p1)) / call.checkouts + (p0 * (1 - p0)) / control.checkouts))
+    : null;
+  const revenueDiff = comparable
+    ? interval(
+        call.revenuePerCheckout - control.revenuePerCheckout,
+        Math.sqrt(callVar / call.checkouts + controlVar / control.checkouts)
+      )
+    : null;
+
+  return {
+    from: params.from.toISOString(),
+    to: params.to.toISOString(),
+    call,
+    control,
+    rateDiff,
+    relativeLift: rateDiff && p0 > 0 ? rateDiff.estimate / p0 : null,
+    revenueDiff,
+    significant: Boolean(rateDiff && (rateDiff.low > 0 || rateDiff.high < 0)),
+  };
+}
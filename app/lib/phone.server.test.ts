@@ -0,0 +1,91 @@
+// app/lib/phone.server.test.ts
+import { describe, expect, it } from "vitest";
+import { normalizePhone, phoneFields } from "./phone.server";
+
+describe("normalizePhone", () => {
+  it("drops the trunk 0 of national numbers", () => {
+    expect(normalizePhone("07911 123456", "GB")).toMatchObject({
+      e164: "+447911123456",
+      status: "valid",
+      country: "GB",
+      lineType: "mobile",
+    });
+    expect(normalizePhone("0151 2345 6789", "DE").e164).toBe("+4915123456789");
+  });
+
+  it("drops a bracketed trunk 0 in international notation", () => {
+    expect(normalizePhone("+44 (0)7911 123456", null).e164).toBe("+447911123456");
+    expect(normalizePhone("0044 (0) 7911 123456", "US").e164).toBe("+447911123456");
+  });
+
+  it("keeps the leading 0 where it is part of the number", () => {
+    expect(normalizePhone("06 1234 5678", "IT")).toMatchObject({ e164: "+390612345678", country: "IT", lineType: "landline" });
+  });
+
+  it("accepts a country code typed without the +", () => {
+    expect(normalizePhone("447911123456", "GB").e164).toBe("+447911123456");
+    expect(normalizePhone("1 (415) 555-2671", "US").e164).toBe("+14155552671");
+  });
+
+  it("splits off extensions", () => {
+    for (const raw of ["+1 415 555 2671 ext. 12", "+1 415 555 2671 x12", "+1 415 555 2671 #12", "+14155552671;ext=12"]) {
+      expect(normalizePhone(raw, null)).toMatchObject({ e164: "+14155552671", extension: "12", status: "valid" });
+    }
+    expect(normalizePhone("(415) 555-2671 extension 7", "US")).toMatchObject({ e164: "+14155552671", extension: "7" });
+  });
+
+  describe("NANP", () => {
+    it("reads national numbers and the 011 international prefix", () => {
+      expect(normalizePhone("(415) 555-2671", "US")).toMatchObject({ e164: "+14155552671", country: "US", lineType: "unknown" });
+      expect(normalizePhone("011 44 7911 123456", "US").e164).toBe("+447911123456");
+    });
+
+    it("resolves NANP countries with their own area codes", () => {
+      expect(normalizePhone("+1 876 555 0123", null)).toMatchObject({ e164: "+18765550123", country: "JM", status: "valid" });
+    });
+
+    it("rejects area codes and exchanges starting with 0 or 1", () => {
+      expect(normalizePhone("+1 415 155 2671", null)).toMatchObject({
+        status: "invalid",
+        reason: "Not a valid North American number",
+      });
+    });
+
+    it("flags toll-free and rejects premium-rate numbers", () => {
+      expect(normalizePhone("+1 800 555 0100", null)).toMatchObject({ status: "valid", lineType: "toll_free" });
+      expect(normalizePhone("+1 900 555 0100", null)).toMatchObject({ status: "invalid", reason: "Premium-rate number" });
+    });
+  });
+
+  describe("+7", () => {
+    it("tells Kazakhstan from Russia by the digits after the country code", () => {
+      expect(normalizePhone("+7 701 123 4567", null)).toMatchObject({ e164: "+77011234567", country: "KZ" });
+      expect(normalizePhone("+7 612 345 6789", null).country).toBe("KZ");
+      expect(normalizePhone("+7 912 345 6789", null)).toMatchObject({ e164: "+79123456789", country: "RU" });
+    });
+
+    it("applies the shipping country's code to national numbers", () => {
+      expect(normalizePhone("912 345 6789", "RU")).toMatchObject({ e164: "+79123456789", country: "RU" });
+      expect(normalizePhone("701 123 4567", "KZ")).toMatchObject({ e164: "+77011234567", country: "KZ" });
+    });
+  });
+
+  it("explains why a number is unusable", () => {
+    expect(normalizePhone("", "US")).toMatchObject({ status: "missing", e164: null, reason: null });
+    expect(normalizePhone("call me", "US")).toMatchObject({ status: "invalid", reason: "Contains letters" });
+    expect(normalizePhone("7911 123456", null).reason).toBe("No country code and no shipping country");
+    expect(normalizePhone("+44 12", null).reason).toBe("Wrong length (4 digits incl. country code)");
+    expect(normalizePhone("+44 7911 12345678", null).reason).toBe("Wrong length for GB (12 digits)");
+  });
+});
+
+describe("phoneFields", () => {
+  it("maps the result onto the checkout columns", () => {
+    expect(phoneFields("07911 123456", "GB")).toEqual({
+      phoneE164: "+447911123456",
+      phoneStatus: "valid",
+      phoneLineType: "mobile",
+      phoneError: null,
+    });
+  });
+});
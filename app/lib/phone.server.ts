@@ -0,0 +1,177 @@
+// app/lib/phone.server.ts
+import { countryFromPhone, dialCodeForCountry } from "./timezone.server";
+
+/**
+ * Offline E.164 normalization for checkout phones (no libphonenumber, so the rules are
+ * deliberately coarse): strip formatting and extensions, apply the shipping country as the
+ * default region for national numbers, drop the trunk "0", check the length for the country,
+ * and guess the line type from well-known prefixes.
+ */
+
+export type PhoneStatus = "valid" | "invalid" | "missing";
+export type PhoneLineType = "mobile" | "landline" | "toll_free" | "premium" | "unknown";
+
+export type NormalizedPhone = {
+  e164: string | null;
+  status: PhoneStatus;
+  lineType: PhoneLineType | null;
+  country: string | null;
+  extension: string | null;
+  reason: string | null; // why it's invalid
+};
+
+// National significant number lengths [min, max]; other countries use the E.164 bounds.
+const NSN_LENGTHS: Record<string, [number, number]> = {
+  US: [10, 10],
+  GB: [9, 10],
+  DE: [6, 13],
+  FR: [9, 9],
+  ES: [9, 9],
+  IT: [6, 11],
+  NL: [9, 9],
+  BE: [8, 9],
+  AT: [4, 13],
+  CH: [9, 9],
+  SE: [7, 10],
+  NO: [8, 8],
+  DK: [8, 8],
+  PT: [9, 9],
+  IE: [7, 9],
+  PL: [9, 9],
+  GR: [10, 10],
+  AU: [9, 9],
+  NZ: [8, 10],
+  IN: [10, 10],
+  BR: [10, 11],
+  MX: [10, 10],
+  JP: [9, 10],
+  ZA: [9, 9],
+};
+
+// Countries whose national numbers keep the leading 0 after the country code.
+const KEEPS_TRUNK_ZERO = new Set(["IT", "SM", "VA"]);
+
+// [prefix of the national number, line type]; first match wins, so longer prefixes go first.
+const LINE_TYPE_PREFIXES: Record<string, Array<[string, PhoneLineType]>> = {
+  US: [
+    ["800", "toll_free"], ["833", "toll_free"], ["844", "toll_free"], ["855", "toll_free"],
+    ["866", "toll_free"], ["877", "toll_free"], ["888", "toll_free"], ["900", "premium"],
+  ],
+  GB: [
+    ["70", "unknown"], ["76", "unknown"], ["7", "mobile"], ["80", "toll_free"], ["9", "premium"],
+    ["1", "landline"], ["2", "landline"],
+  ],
+  DE: [["15", "mobile"], ["16", "mobile"], ["17", "mobile"], ["800", "toll_free"], ["900", "premium"]],
+  FR: [
+    ["6", "mobile"], ["7", "mobile"], ["80", "toll_free"], ["89", "premium"],
+    ["1", "landline"], ["2", "landline"], ["3", "landline"], ["4", "landline"], ["5", "landline"],
+  ],
+  ES: [["6", "mobile"], ["7", "mobile"], ["900", "toll_free"], ["80", "premium"], ["9", "landline"], ["8", "landline"]],
+  IT: [["3", "mobile"], ["800", "toll_free"], ["803", "toll_free"], ["89", "premium"], ["0", "landline"]],
+  NL: [["6", "mobile"], ["800", "toll_free"], ["90", "premium"]],
+  BE: [["4", "mobile"], ["800", "toll_free"], ["90", "premium"]],
+  IE: [["8", "mobile"], ["1800", "toll_free"], ["15", "premium"]],
+  AU: [["4", "mobile"], ["1800", "toll_free"], ["190", "premium"], ["2", "landline"], ["3", "landline"], ["7", "landline"], ["8", "landline"]],
+  NZ: [["2", "mobile"], ["800", "toll_free"], ["900", "premium"]],
+  IN: [["6", "mobile"], ["7", "mobile"], ["8", "mobile"], ["9", "mobile"]],
+};
+
+// Countries with a landline default when no prefix above matched (numbering plans are regular enough).
+const LANDLINE_BY_DEFAULT = new Set(["DE", "NL", "BE", "IE", "NZ"]);
+
+function invalid(reason: string, extra?: Partial<NormalizedPhone>): NormalizedPhone {
+  return { e164: null, status: "invalid", lineType: null, country: null, extension: null, reason, ...extra };
+}
+
+function lineTypeFor(country: string, nsn: string): PhoneLineType {
+  const rules = LINE_TYPE_PREFIXES[country];
+  if (!rules) return "unknown";
+  for (const [prefix, type] of rules) {
+    if (nsn.startsWith(prefix)) return type;
+  }
+  return LANDLINE_BY_DEFAULT.has(country) ? "landline" : "unknown";
+}
+
+/**
+ * @param raw phone as entered at checkout
+ * @param defaultCountry ISO country used when the number has no international prefix (shipping country)
+ */
+export function normalizePhone(raw: string | null | undefined, defaultCountry?: string | null): NormalizedPhone {
+  let s = String(raw ?? "").trim();
+  if (!s) return { e164: null, status: "missing", lineType: null, country: null, extension: null, reason: null };
+
+  // "555 0100 ext. 12", "x12", "#12", ";ext=12"
+  let extension: string | null = null;
+  const ext = s.match(/\s*(?:;?ext\.?=?|extension|x|#)\s*(\d{1,6})\s*$/i);
+  if (ext && ext.index != null && ext.index > 0) {
+    extension = ext[1];
+    s = s.slice(0, ext.index).trim();
+  }
+
+  if (/[a-z]/i.test(s)) return invalid("Contains letters", { extension });
+
+  const region = String(defaultCountry ?? "").trim().toUpperCase() || null;
+  const regionDial = dialCodeForCountry(region);
+  let digits = s.replace(/\D/g, "");
+
+  let international: string | null = null;
+  if (s.startsWith("+")) international = digits;
+  else if (digits.startsWith("00")) international = digits.slice(2);
+  else if (regionDial === "1" && digits.startsWith("011")) international = digits.slice(3);
+
+  if (international == null) {
+    if (!region || !regionDial) return invalid("No country code and no shipping country", { extension });
+
+    // Country code typed without the "+" (e.g. "447911123456" for GB, "15550102000" for US).
+    const nsnMax = NSN_LENGTHS[region]?.[1] ?? (regionDial === "1" ? 10 : 12);
+    if (digits.startsWith(regionDial) && digits.length - regionDial.length <= nsnMax && digits.length > nsnMax) {
+      international = digits;
+    } else {
+      if (!KEEPS_TRUNK_ZERO.has(region) && regionDial !== "1") digits = digits.replace(/^0+/, "");
+      international = `${regionDial}${digits}`;
+    }
+  }
+
+  if (international.length < 8 || international.length > 15) {
+    return invalid(`Wrong length (${international.length} digits incl. country code)`, { extension });
+  }
+
+  const country = countryFromPhone(`+${international}`);
+  if (!country) return invalid("Unknown country code", { extension });
+
+  const dial = dialCodeForCountry(country) ?? "";
+  let nsn = international.slice(dial.length);
+
+  // "+44 (0)7911 123456": the trunk 0 in brackets is common in international notation.
+  if (nsn.startsWith("0") && !KEEPS_TRUNK_ZERO.has(country)) nsn = nsn.replace(/^0+/, "");
+
+  const lengths = NSN_LENGTHS[dial === "1" ? "US" : country];
+  if (lengths && (nsn.length < lengths[0] || nsn.length > lengths[1])) {
+    return invalid(`Wrong length for ${country} (${nsn.length} digits)`, { country, extension });
+  }
+
+  // NANP: area code and exchange never start with 0 or 1.
+  if (dial === "1" && (/^[01]/.test(nsn) || /^[01]/.test(nsn.slice(3)))) {
+    return invalid("Not a valid North American number", { country, extension });
+  }
+
+  // NANP shares one plan; toll-free/premium codes are the same across it.
+  const lineType = lineTypeFor(dial === "1" ? "US" : country, nsn);
+  const e164 = `+${dial}${nsn}`;
+
+  // Never worth dialing: the call costs the shop and it isn't the customer's own line.
+  if (lineType === "premium") return invalid("Premium-rate number", { country, extension, lineType });
+
+  return { e164, status: "valid", lineType, country, extension, reason: null };
+}
+
+/** Checkout columns for a raw phone + shipping/billing country. */
+export function phoneFields(raw: string | null | undefined, defaultCountry?: string | null) {
+  const n = normalizePhone(raw, defaultCountry);
+  return {
+    phoneE164: n.e164,
+    phoneStatus: n.status,
+    phoneLineType: n.lineType,
+    phoneError: n.reason,
+  };
+}
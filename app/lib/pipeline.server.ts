@@ -0,0 +1,169 @@
+// app/lib/pipeline.server.ts
+import db from "../db.server";
+import { reconcileStuckCalls } from "./callReaper.server";
+import { acquirePipelineLease, currentPipelineLease, releasePipelineLease, renewPipelineLease } from "./pipelineLease.server";
+import { failStaleBackgroundTasks, queueBackgroundTask, runBackgroundTask } from "./backgroundTasks.server";
+
+/**
+ * Cron pipeline: reap stuck calls -> per-shop background sync (checkouts + enqueue) -> kick the dialer.
+ *
+ * Only one run may enqueue at a time (pipelineLease.server); the lease is renewed after every
+ * shop. A shop's "Sync now" task takes the same lease, so it either runs before/after cron or is
+ * left QUEUED and picked up here.
+ *
+ * Each cron execution is recorded as a PipelineRun, including the ones skipped because the lease
+ * was held, so gaps in the history mean the scheduler stopped firing.
+ */
+
+function safeStr(v: unknown, max = 2000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+function errorText(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+async function kickDialer(): Promise<{ status: number | null; body: unknown }> {
+  const appUrl = String(process.env.APP_URL || "").replace(/\/$/, "");
+  if (!appUrl) return { status: null, body: { error: "Missing APP_URL env" } };
+
+  const res = await fetch(`${appUrl}/api/run-calls`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-run-calls-secret": process.env.RUN_CALLS_SECRET || "",
+    },
+    body: JSON.stringify({}),
+  });
+
+  const text = await res.text().catch(() => "");
+  let body: unknown;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = { raw: text };
+  }
+  return { status: res.status, body };
+}
+
+export type ShopRunResult = { shop: string; synced: number; marked: number; enqueued: number; error?: string };
+
+export async function runPipeline(params: { trigger: "cron" | "manual" }) {
+  const startedAt = new Date();
+
+  // A shop's "Sync now" only holds the lease for that shop, so wait a little before giving up.
+  const holder = await acquirePipelineLease({ label: params.trigger, waitMs: 10 * 1000 });
+  if (!holder) {
+    const lease = await currentPipelineLease();
+    const run = await db.pipelineRun.create({
+      data: {
+        trigger: params.trigger,
+        status: "SKIPPED",
+        error: lease ? safeStr(`Lease held by ${lease.holder} until ${lease.expiresAt.toISOString()}`) : "Lease held",
+        startedAt,
+        finishedAt: new Date(),
+        durationMs: Date.now() - startedAt.getTime(),
+      },
+    });
+    return { ok: false as const, skipped: true, runId: run.id, error: run.error };
+  }
+
+  const run = await db.pipelineRun.create({ data: { trigger: params.trigger, holder, startedAt } });
+
+  const shopResults: ShopRunResult[] = [];
+  let reconciled: Awaited<ReturnType<typeof reconcileStuckCalls>> | { error: string } | null = null;
+  let dialer: Awaited<ReturnType<typeof kickDialer>> | null = null;
+  let queuedDueBefore = 0;
+  let queuedDueAfter = 0;
+  let fatal: string | null = null;
+
+  try {
+    // Finalize calls whose end-of-call webhook never came first, so their checkouts can be enqueued again.
+    try {
+      reconciled = await reconcileStuckCalls();
+    } catch (e) {
+      reconciled = { error: errorText(e) };
+    }
+
+    await failStaleBackgroundTasks();
+
+    queuedDueBefore = await db.callJob.count({ where: { status: "QUEUED", scheduledFor: { lte: new Date() } } });
+
+    const shops = (await db.settings.findMany({ select: { shop: true } })).map((x) => x.shop);
+
+    for (const shop of shops) {
+      try {
+        // Reuses a pending "Sync now" task for the shop if there is one.
+        const queued = await queueBackgroundTask({ shop, kind: "sync_checkouts", trigger: "cron" });
+        // The task renews the lease after every page and before enqueueing, so a slow shop can't outlive it.
+        const task = await runBackgroundTask(queued.id, { leaseHolder: holder });
+        if (!task) throw new Error("Sync task already running");
+        if (task.status === "FAILED") throw new Error(task.error ?? "Sync task failed");
+
+        const r = task.resultJson ? JSON.parse(task.resultJson) : {};
+        shopResults.push({
+          shop,
+          synced: Number(r.synced ?? 0),
+          marked: Number(r.marked ?? 0),
+          enqueued: Number(r.enqueued ?? 0),
+        });
+      } catch (e) {
+        shopResults.push({ shop, synced: 0, marked: 0, enqueued: 0, error: safeStr(errorText(e), 500) });
+      }
+
+      if (!(await renewPipelineLease(holder))) {
+        throw new Error("Lease lost (expired while running); stopping before the next shop");
+      }
+    }
+
+    queuedDueAfter = await db.callJob.count({ where: { status: "QUEUED", scheduledFor: { lte: new Date() } } });
+
+    try {
+      dialer = await kickDialer();
+    } catch (e) {
+      dialer = { status: null, body: { error: errorText(e) } };
+    }
+  } catch (e) {
+    fatal = safeStr(errorText(e));
+  } finally {
+    await releasePipelineLease(holder).catch(() => {});
+  }
+
+  const shopErrors = shopResults.filter((r) => r.error).length;
+  const finishedAt = new Date();
+  const totals = {
+    shops: shopResults.length,
+    markedTotal: shopResults.reduce((sum, r) => sum + r.marked, 0),
+    enqueuedTotal: shopResults.reduce((sum, r) => sum + r.enqueued, 0),
+  };
+
+  await db.pipelineRun.update({
+    where: { id: run.id },
+    data: {
+      status: fatal ? "FAILED" : shopErrors ? "PARTIAL" : "SUCCEEDED",
+      ...totals,
+      shopErrors,
+      shopResultsJson: JSON.stringify(shopResults),
+      reconciledJson: reconciled ? JSON.stringify(reconciled) : null,
+      dialerJson: dialer ? safeStr(JSON.stringify(dialer), 4000) : null,
+      error: fatal,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+    },
+  });
+
+  return {
+    ok: !fatal,
+    skipped: false,
+    runId: run.id,
+    ...totals,
+    shopErrors,
+    reconciled,
+    queuedDueBefore,
+    queuedDueAfter,
+    runCallsStatus: dialer?.status ?? null,
+    runCallsBody: dialer?.body ?? null,
+    error: fatal,
+  };
+}
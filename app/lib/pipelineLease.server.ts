@@ -0,0 +1,88 @@
+// app/lib/pipelineLease.server.ts
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import { Prisma } from "@prisma/client";
+import db from "../db.server";
+
+/**
+ * Single-row DB lease so only one pipeline run (cron, or a shop's background sync) enqueues at a
+ * time. Taken by inserting the row or by stealing it once expired, renewed while working,
+ * released at the end.
+ */
+
+const LEASE_NAME = "pipeline";
+
+function envSeconds(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function leaseTtlMs() {
+  return envSeconds("PIPELINE_LEASE_SECONDS", 300) * 1000;
+}
+
+function newHolder(label: string) {
+  return `${label}:${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+}
+
+async function tryAcquire(holder: string, ttlMs: number) {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlMs);
+
+  try {
+    await db.pipelineLease.create({ data: { name: LEASE_NAME, holder, acquiredAt: now, expiresAt } });
+    return true;
+  } catch (e) {
+    if (!(e instanceof Prisma.PrismaClientKnownRequestError) || e.code !== "P2002") throw e;
+  }
+
+  // Row exists: take it over only if the previous holder let it expire (crashed / timed out).
+  const stolen = await db.pipelineLease.updateMany({
+    where: { name: LEASE_NAME, expiresAt: { lt: now } },
+    data: { holder, acquiredAt: now, expiresAt },
+  });
+  return stolen.count === 1;
+}
+
+/** Returns the holder id, or null if another run holds the lease after waiting up to `waitMs`. */
+export async function acquirePipelineLease(params: { label: string; ttlMs?: number; waitMs?: number }) {
+  const holder = newHolder(params.label);
+  const ttlMs = params.ttlMs ?? leaseTtlMs();
+  const deadline = Date.now() + Math.max(0, params.waitMs ?? 0);
+
+  for (;;) {
+    if (await tryAcquire(holder, ttlMs)) return holder;
+    if (Date.now() >= deadline) return null;
+    await new Promise((r) => setTimeout(r, 500));
+  }
+}
+
+/** Extends the lease; false means it expired and someone else took it over. */
+export async function renewPipelineLease(holder: string, ttlMs = leaseTtlMs()) {
+  const renewed = await db.pipelineLease.updateMany({
+    where: { name: LEASE_NAME, holder },
+    data: { expiresAt: new Date(Date.now() + ttlMs) },
+  });
+  return renewed.count === 1;
+}
+
+export async function releasePipelineLease(holder: string) {
+  await db.pipelineLease.deleteMany({ where: { name: LEASE_NAME, holder } });
+}
+
+export async function withPipelineLease<T>(
+  params: { label: string; ttlMs?: number; waitMs?: number },
+  fn: (holder: string) => Promise<T>
+): Promise<{ ran: true; value: T } | { ran: false }> {
+  const holder = await acquirePipelineLease(params);
+  if (!holder) return { ran: false };
+  try {
+    return { ran: true, value: await fn(holder) };
+  } finally {
+    await releasePipelineLease(holder).catch(() => {});
+  }
+}
+
+export async function currentPipelineLease() {
+  return db.pipelineLease.findUnique({ where: { name: LEASE_NAME } });
+}
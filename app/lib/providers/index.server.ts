@@ -0,0 +1,20 @@
+// app/lib/providers/index.server.ts
+import type { CallProvider } from "./types";
+import { vapiProvider } from "./vapi.server";
+import { mockProvider } from "./mock.server";
+
+export type { CallProvider } from "./types";
+
+const PROVIDERS: Record<string, CallProvider> = {
+  vapi: vapiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Active provider: CALL_PROVIDER env ("vapi" | "mock"), default "vapi".
+ * Pass a name to resolve the provider a job was started with (CallJob.provider).
+ */
+export function getCallProvider(name?: string | null): CallProvider {
+  const key = String(name ?? process.env.CALL_PROVIDER ?? "vapi").trim().toLowerCase();
+  return PROVIDERS[key] ?? vapiProvider;
+}
@@ -0,0 +1,227 @@
+// app/lib/providers/mock.server.ts
+import { randomUUID } from "node:crypto";
+import type { ActionFunctionArgs } from "react-router";
+import { parseVapiWebhook } from "./vapi.server";
+import type {
+  CallerLine,
+  CallMetadata,
+  CallProvider,
+  ProviderCallState,
+  ProviderCallStatus,
+  StartCallInput,
+  StartCallResult,
+} from "./types";
+
+/**
+ * Local telephony: no network. Each started call plays a short script on timers and
+ * posts Vapi-shaped messages (status-update / transcript / end-of-call-report) straight
+ * into the webhooks.vapi action, so the whole job pipeline runs as it would in production.
+ *
+ * Scenario comes from MOCK_CALL_SCENARIO, or the last digit of the phone number:
+ *   0-4 interested, 5 not_interested, 6 opt_out, 7 voicemail, 8 no_answer, 9 busy
+ * MOCK_CALL_STEP_MS sets the pace (default 1500ms between events).
+ */
+
+type Scenario = "interested" | "not_interested" | "opt_out" | "voicemail" | "no_answer" | "busy";
+
+type MockCall = {
+  id: string;
+  metadata: CallMetadata;
+  phone: string;
+  state: ProviderCallState;
+  endedReason: string | null;
+  timers: ReturnType<typeof setTimeout>[];
+};
+
+const SCENARIOS: Scenario[] = ["interested", "not_interested", "opt_out", "voicemail", "no_answer", "busy"];
+
+// Header the mock attaches to its in-process webhook requests; regenerated per process.
+export const MOCK_WEBHOOK_HEADER = "x-mock-call-token";
+const MOCK_WEBHOOK_TOKEN = randomUUID();
+
+const calls = new Map<string, MockCall>();
+
+export function isMockWebhookRequest(request: Request) {
+  return request.headers.get(MOCK_WEBHOOK_HEADER) === MOCK_WEBHOOK_TOKEN;
+}
+
+function pickScenario(phone: string): Scenario {
+  const forced = String(process.env.MOCK_CALL_SCENARIO ?? "").trim().toLowerCase() as Scenario;
+  if (SCENARIOS.includes(forced)) return forced;
+
+  const last = Number(String(phone).replace(/\D/g, "").slice(-1));
+  if (!Number.isFinite(last) || last <= 4) return "interested";
+  if (last === 5) return "not_interested";
+  if (last === 6) return "opt_out";
+  if (last === 7) return "voicemail";
+  if (last === 8) return "no_answer";
+  return "busy";
+}
+
+function stepMs() {
+  const n = Number(process.env.MOCK_CALL_STEP_MS ?? 1500);
+  return Number.isFinite(n) && n >= 0 ? n : 1500;
+}
+
+function scriptFor(scenario: Scenario, name: string | null) {
+  const who = name || "there";
+  if (scenario === "interested") {
+    return {
+      endedReason: "customer-ended-call",
+      transcript: [
+        `AI: Hi ${who}, this is the store calling about the items you left in your cart. Is now a good time?`,
+        "User: Oh yes, I got distracted. I was not sure about the shipping cost.",
+        "AI: Shipping is calculated at checkout, and I can send you a link to finish your order right now.",
+        "User: Great, please send it over. I'll complete it today.",
+        "AI: Done. Thanks so much, have a great day!",
+      ].join("\n"),
+    };
+  }
+  if (scenario === "not_interested") {
+    return {
+      endedReason: "customer-ended-call",
+      transcript: [
+        `AI: Hi ${who}, this is the store calling about your checkout. Is now a good time?`,
+        "User: I already bought it somewhere else, I'm not interested.",
+        "AI: Understood, thanks for letting me know. Have a good day.",
+      ].join("\n"),
+    };
+  }
+  if (scenario === "opt_out") {
+    return {
+      endedReason: "customer-ended-call",
+      transcript: [
+        `AI: Hi ${who}, this is the store calling about your checkout.`,
+        "User: Please stop calling me and remove my number.",
+        "AI: Of course, I'm sorry for the trouble. Goodbye.",
+      ].join("\n"),
+    };
+  }
+  if (scenario === "voicemail") {
+    return {
+      endedReason: "voicemail",
+      transcript: `AI: Hi ${who}, this is the store. You left a few items in your cart, give us a call back anytime.`,
+    };
+  }
+  if (scenario === "no_answer") return { endedReason: "customer-did-not-answer", transcript: "" };
+  return { endedReason: "customer-busy", transcript: "" };
+}
+
+function vapiMessage(call: MockCall, message: Record<string, unknown>) {
+  return {
+    message: {
+      ...message,
+      timestamp: Date.now(),
+      call: { id: call.id, metadata: call.metadata, customer: { number: call.phone } },
+    },
+  };
+}
+
+async function deliver(payload: unknown) {
+  // Lazy import: the route module imports this provider for request verification.
+  const { action } = await import("../../routes/webhooks.vapi");
+  const request = new Request("http://localhost/webhooks/vapi", {
+    method: "POST",
+    headers: { "content-type": "application/json", [MOCK_WEBHOOK_HEADER]: MOCK_WEBHOOK_TOKEN },
+    body: JSON.stringify(payload),
+  });
+
+  try {
+    await action({ request, params: {}, context: {} } as ActionFunctionArgs);
+  } catch (e) {
+    console.error("[mock-call] webhook delivery failed", e instanceof Error ? e.message : String(e));
+  }
+}
+
+function schedule(call: MockCall, atStep: number, fn: () => Promise<void> | void) {
+  const t = setTimeout(() => {
+    Promise.resolve(fn()).catch(() => {});
+  }, atStep * stepMs());
+  call.timers.push(t);
+}
+
+function setState(call: MockCall, state: ProviderCallState) {
+  call.state = state;
+  return deliver(vapiMessage(call, { type: "status-update", status: state }));
+}
+
+function end(call: MockCall, endedReason: string, transcript: string) {
+  call.state = "ended";
+  call.endedReason = endedReason;
+  return deliver(
+    vapiMessage(call, {
+      type: "end-of-call-report",
+      endedReason,
+      artifact: { transcript, recording: null },
+    })
+  ).finally(() => calls.delete(call.id));
+}
+
+export const mockProvider: CallProvider = {
+  name: "mock",
+
+  async isConfigured() {
+    return true;
+  },
+
+  // One simulated line for every shop, so the platform-wide limit applies.
+  async callerLine(): Promise<CallerLine | null> {
+    return { id: "mock", shared: true };
+  },
+
+  async startCall(input: StartCallInput): Promise<StartCallResult> {
+    const call: MockCall = {
+      id: `mock_${randomUUID()}`,
+      metadata: input.metadata,
+      phone: input.phone,
+      state: "queued",
+      endedReason: null,
+      timers: [],
+    };
+    calls.set(call.id, call);
+
+    const scenario = pickScenario(input.phone);
+    const script = scriptFor(scenario, input.customerName);
+    const answered = scenario !== "no_answer" && scenario !== "busy";
+
+    schedule(call, 1, () => setState(call, "ringing"));
+
+    if (answered) {
+      schedule(call, 2, () => setState(call, "in-progress"));
+      schedule(call, 4, () =>
+        deliver(
+          vapiMessage(call, {
+            type: 'transcript[transcriptType="final"]',
+            transcriptType: "final",
+            role: "user",
+            transcript: script.transcript,
+          })
+        )
+      );
+      schedule(call, 5, () => setState(call, "ended"));
+      schedule(call, 6, () => end(call, script.endedReason, script.transcript));
+    } else {
+      schedule(call, 3, () => setState(call, "ended"));
+      schedule(call, 4, () => end(call, script.endedReason, ""));
+    }
+
+    return { providerCallId: call.id, raw: { id: call.id, scenario } };
+  },
+
+  async cancelCall(_shop: string, providerCallId: string) {
+    const call = calls.get(providerCallId);
+    if (!call) return;
+    for (const t of call.timers) clearTimeout(t);
+    call.timers = [];
+    await end(call, "manually-canceled", "");
+  },
+
+  async fetchCallStatus(_shop: string, providerCallId: string): Promise<ProviderCallStatus> {
+    const call = calls.get(providerCallId);
+    // Finished calls are dropped from memory (and everything is lost on restart).
+    if (!call) return { state: "not_found", endedReason: null, raw: null };
+    return { state: call.state, endedReason: call.endedReason, raw: { id: call.id } };
+  },
+
+  parseWebhook: parseVapiWebhook,
+};
@@ -0,0 +1,77 @@
+// app/lib/providers/types.ts
+
+export type CallMetadata = {
+  shop: string;
+  callJobId: string;
+  checkoutId: string;
+};
+
+export type StartCallInput = {
+  phone: string;
+  customerName: string | null;
+  systemPrompt: string;
+  firstMessage: string;
+  metadata: CallMetadata;
+};
+
+export type StartCallResult = {
+  providerCallId: string | null;
+  raw?: unknown;
+};
+
+// "not_found": the provider has no record of the call id
+export type ProviderCallState = "queued" | "ringing" | "in-progress" | "ended" | "not_found" | "unknown";
+
+export type ProviderCallStatus = {
+  state: ProviderCallState;
+  endedReason: string | null;
+  // Artifacts, when the provider has them (used when the end-of-call webhook never arrived)
+  transcript?: string | null;
+  recordingUrl?: string | null;
+  durationSeconds?: number | null;
+  costUsd?: number | null;
+  raw?: unknown;
+};
+
+/**
+ * Outbound number a shop's calls go out on. `shared`: the platform default number,
+ * used by every shop without its own (its concurrency limit is platform-wide).
+ */
+export type CallerLine = {
+  id: string;
+  shared: boolean;
+};
+
+/**
+ * Provider-neutral view of one webhook message. `type` mirrors the three messages
+ * the job pipeline cares about; anything else comes through as "other".
+ */
+export type ProviderWebhookEvent = {
+  type: "status-update" | "transcript" | "end-of-call-report" | "other";
+  messageType: string;
+  metadata: CallMetadata | null;
+  providerCallId: string | null;
+  status: string | null;
+  transcript: string | null;
+  transcriptFinal: boolean;
+  endedReason: string | null;
+  recordingUrl: string | null;
+  // end-of-call-report usage (budget caps)
+  durationSeconds: number | null;
+  costUsd: number | null;
+  raw: unknown;
+};
+
+/**
+ * Credentials are resolved per shop inside each provider, hence the `shop` arguments.
+ */
+export interface CallProvider {
+  /** Stored on CallJob.provider */
+  name: string;
+  isConfigured(shop: string): Promise<boolean>;
+  callerLine(shop: string): Promise<CallerLine | null>;
+  startCall(input: StartCallInput): Promise<StartCallResult>;
+  cancelCall(shop: string, providerCallId: string): Promise<void>;
+  fetchCallStatus(shop: string, providerCallId: string): Promise<ProviderCallStatus>;
+  parseWebhook(payload: unknown): ProviderWebhookEvent | null;
+}
@@ -0,0 +1,355 @@
+// app/lib/providers/vapi.server.ts
+import db from "../../db.server";
+import { decryptSecret } from "../secrets.server";
+import type {
+  CallerLine,
+  CallProvider,
+  ProviderCallState,
+  ProviderCallStatus,
+  ProviderWebhookEvent,
+  StartCallInput,
+  StartCallResult,
+} from "./types";
+
+const VAPI_API = "https://api.vapi.ai";
+
+export type VapiCredentials = {
+  apiKey: string | null;
+  assistantId: string | null;
+  phoneNumberId: string | null;
+  // Where each value came from: the shop's own settings or the platform env default.
+  source: {
+    apiKey: "shop" | "platform" | null;
+    assistantId: "shop" | "platform" | null;
+    phoneNumberId: "shop" | "platform" | null;
+  };
+};
+
+function envOrNull(name: string) {
+  return process.env[name]?.trim() || null;
+}
+
+function pick(shopValue: string | null | undefined, envName: string) {
+  const own = String(shopValue ?? "").trim();
+  if (own) return { value: own, source: "shop" as const };
+  const env = envOrNull(envName);
+  return env ? { value: env, source: "platform" as const } : { value: null, source: null };
+}
+
+/**
+ * Shop settings first; VAPI_* env vars are only the platform default.
+ * The API key and ids resolve independently, so a shop can bring its own number on our account.
+ */
+export async function resolveVapiCredentials(shop: string): Promise<VapiCredentials> {
+  const settings = await db.settings.findUnique({
+    where: { shop },
+    select: { vapiApiKeyEnc: true, vapiAssistantId: true, vapiPhoneNumberId: true },
+  });
+
+  const apiKey = pick(decryptSecret(settings?.vapiApiKeyEnc), "VAPI_API_KEY");
+  const assistantId = pick(settings?.vapiAssistantId, "VAPI_ASSISTANT_ID");
+  const phoneNumberId = pick(settings?.vapiPhoneNumberId, "VAPI_PHONE_NUMBER_ID");
+
+  return {
+    apiKey: apiKey.value,
+    assistantId: assistantId.value,
+    phoneNumberId: phoneNumberId.value,
+    source: { apiKey: apiKey.source, assistantId: assistantId.source, phoneNumberId: phoneNumberId.source },
+  };
+}
+
+async function requireCredentials(shop: string) {
+  const creds = await resolveVapiCredentials(shop);
+  if (!creds.apiKey) throw new Error("Missing Vapi API key (shop settings or VAPI_API_KEY)");
+  return { ...creds, apiKey: creds.apiKey };
+}
+
+function requireServerUrl() {
+  const v = envOrNull("VAPI_SERVER_URL");
+  if (!v) throw new Error("Missing env: VAPI_SERVER_URL");
+  return v.replace(/\/$/, "");
+}
+
+function safeStr(v: unknown, max = 4000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+async function vapiFetch(apiKey: string, path: string, init: RequestInit = {}) {
+  const res = await fetch(`${VAPI_API}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      Accept: "application/json",
+      ...(init.headers ?? {}),
+    },
+  });
+  const json = await res.json().catch(() => null);
+  return { ok: res.ok, status: res.status, json };
+}
+
+function mapVapiStatus(status: string): ProviderCallState {
+  const s = status.toLowerCase();
+  if (s === "queued" || s === "scheduled") return "queued";
+  if (s === "ringing") return "ringing";
+  if (s === "in-progress" || s === "forwarding") return "in-progress";
+  if (s === "ended") return "ended";
+  return "unknown";
+}
+
+type VapiMetadata = { shop?: unknown; callJobId?: unknown; checkoutId?: unknown } | null;
+
+type VapiCall = {
+  id?: unknown;
+  metadata?: VapiMetadata;
+  cost?: unknown;
+  durationSeconds?: unknown;
+  durationMs?: unknown;
+  startedAt?: unknown;
+  endedAt?: unknown;
+} | null;
+
+type VapiMessage = {
+  type?: unknown;
+  messageType?: unknown;
+  event?: unknown;
+  call?: VapiCall;
+  metadata?: VapiMetadata;
+  status?: unknown;
+  transcript?: unknown;
+  transcriptType?: unknown;
+  endedReason?: unknown;
+  recordingUrl?: unknown;
+  cost?: unknown;
+  durationSeconds?: unknown;
+  durationMs?: unknown;
+  startedAt?: unknown;
+  endedAt?: unknown;
+  artifact?: {
+    transcript?: unknown;
+    recording?: { url?: unknown; downloadUrl?: unknown; recordingUrl?: unknown } | null;
+  } | null;
+};
+
+/**
+ * Vapi webhook shape: { message: { type, call, status?, transcript?, endedReason?, artifact? } }.
+ * Also used by the mock provider, which emits the same shape.
+ */
+function numberOrNull(v: unknown) {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() ? Number(v) : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+/** Call length from whatever the payload carries: durationSeconds, durationMs, or startedAt/endedAt. */
+function durationFrom(o: VapiCall | VapiMessage | undefined): number | null {
+  const secs = numberOrNull(o?.durationSeconds);
+  if (secs != null) return Math.round(secs);
+  const ms = numberOrNull(o?.durationMs);
+  if (ms != null) return Math.round(ms / 1000);
+  const started = o?.startedAt ? new Date(String(o.startedAt)).getTime() : NaN;
+  const ended = o?.endedAt ? new Date(String(o.endedAt)).getTime() : NaN;
+  return Number.isFinite(started) && Number.isFinite(ended) && ended >= started ? Math.round((ended - started) / 1000) : null;
+}
+
+export function parseVapiWebhook(payload: unknown): ProviderWebhookEvent | null {
+  if (!payload || typeof payload !== "object") return null;
+
+  // Vapi docs show { message: { type, ... } }, but keep compatibility with flatter payloads
+  const p = payload as VapiMessage & { message?: VapiMessage | null; assistant?: { metadata?: VapiMetadata } | null };
+  const msg: VapiMessage = p.message ?? p;
+  const messageType = String(msg?.type ?? msg?.messageType ?? msg?.event ?? "");
+  const call = msg?.call ?? p.call ?? null;
+
+  const md = call?.metadata ?? msg?.metadata ?? p.metadata ?? p.assistant?.metadata ?? null;
+  const shop = String(md?.shop ?? "").trim();
+  const callJobId = String(md?.callJobId ?? "").trim();
+  const checkoutId = String(md?.checkoutId ?? "").trim();
+
+  const artifact = msg?.artifact ?? {};
+  const type: ProviderWebhookEvent["type"] =
+    messageType === "status-update"
+      ? "status-update"
+      : messageType.startsWith("transcript")
+        ? "transcript"
+        : messageType === "end-of-call-report"
+          ? "end-of-call-report"
+          : "other";
+
+  const transcriptType = String(msg?.transcriptType ?? "");
+  const recordingUrl =
+    artifact?.recording?.url ??
+    artifact?.recording?.downloadUrl ??
+    artifact?.recording?.recordingUrl ??
+    msg?.recordingUrl ??
+    null;
+
+  return {
+    type,
+    messageType,
+    metadata: shop && callJobId ? { shop, callJobId, checkoutId } : null,
+    providerCallId: call?.id ? String(call.id) : null,
+    status: msg?.status != null ? String(msg.status).toLowerCase() : null,
+    transcript:
+      type === "end-of-call-report"
+        ? safeStr(artifact?.transcript ?? msg?.transcript ?? "", 20000) || null
+        : safeStr(msg?.transcript ?? "", 20000) || null,
+    transcriptFinal: transcriptType === "final" || messageType.includes('transcriptType="final"'),
+    endedReason: msg?.endedReason ? safeStr(msg.endedReason, 200) : null,
+    recordingUrl: recordingUrl ? safeStr(recordingUrl, 2000) : null,
+    durationSeconds: type === "end-of-call-report" ? durationFrom(msg) ?? durationFrom(call) : null,
+    costUsd: type === "end-of-call-report" ? numberOrNull(msg?.cost) ?? numberOrNull(call?.cost) : null,
+    raw: payload,
+  };
+}
+
+/**
+ * Settings "Test connection": checks the key against the assistant and phone number it will dial with.
+ */
+export async function testVapiConnection(shop: string) {
+  const creds = await resolveVapiCredentials(shop);
+  const checks: Array<{ label: string; ok: boolean; detail: string }> = [];
+
+  if (!creds.apiKey) {
+    return { ok: false, checks: [{ label: "API key", ok: false, detail: "Not set (shop or platform)" }] };
+  }
+
+  const assistant = creds.assistantId
+    ? await vapiFetch(creds.apiKey, `/assistant/${encodeURIComponent(creds.assistantId)}`).catch(() => null)
+    : null;
+  checks.push({
+    label: "Assistant",
+    ok: Boolean(assistant?.ok),
+    detail: !creds.assistantId
+      ? "Not set"
+      : assistant?.ok
+        ? String(assistant.json?.name ?? creds.assistantId)
+        : assistant?.status === 401
+          ? "API key rejected"
+          : `Not found (${assistant?.status ?? "network error"})`,
+  });
+
+  const phone = creds.phoneNumberId
+    ? await vapiFetch(creds.apiKey, `/phone-number/${encodeURIComponent(creds.phoneNumberId)}`).catch(() => null)
+    : null;
+  checks.push({
+    label: "Phone number",
+    ok: Boolean(phone?.ok),
+    detail: !creds.phoneNumberId
+      ? "Not set"
+      : phone?.ok
+        ? String(phone.json?.number ?? phone.json?.name ?? creds.phoneNumberId)
+        : phone?.status === 401
+          ? "API key rejected"
+          : `Not found (${phone?.status ?? "network error"})`,
+  });
+
+  checks.push({
+    label: "Webhook URL",
+    ok: Boolean(envOrNull("VAPI_SERVER_URL")),
+    detail: envOrNull("VAPI_SERVER_URL") ? "Platform VAPI_SERVER_URL" : "VAPI_SERVER_URL missing on server",
+  });
+
+  return { ok: checks.every((c) => c.ok), checks };
+}
+
+export const vapiProvider: CallProvider = {
+  name: "vapi",
+
+  async isConfigured(shop: string) {
+    const creds = await resolveVapiCredentials(shop);
+    return (
+      Boolean(creds.apiKey) &&
+      Boolean(creds.assistantId) &&
+      Boolean(creds.phoneNumberId) &&
+      Boolean(envOrNull("VAPI_SERVER_URL"))
+    );
+  },
+
+  async callerLine(shop: string): Promise<CallerLine | null> {
+    const creds = await resolveVapiCredentials(shop);
+    if (!creds.phoneNumberId) return null;
+    return { id: creds.phoneNumberId, shared: creds.source.phoneNumberId === "platform" };
+  },
+
+  async startCall(input: StartCallInput): Promise<StartCallResult> {
+    const creds = await requireCredentials(input.metadata.shop);
+    if (!creds.assistantId) throw new Error("Missing Vapi assistant id (shop settings or VAPI_ASSISTANT_ID)");
+    if (!creds.phoneNumberId) throw new Error("Missing Vapi phone number id (shop settings or VAPI_PHONE_NUMBER_ID)");
+    const webhookUrl = requireServerUrl();
+
+    const res = await vapiFetch(creds.apiKey, "/call/phone", {
+      method: "POST",
+      body: JSON.stringify({
+        phoneNumberId: creds.phoneNumberId,
+        assistantId: creds.assistantId,
+
+        customer: {
+          number: input.phone,
+          name: input.customerName ?? undefined,
+        },
+
+        assistant: {
+          model: {
+            provider: "openai",
+            model: "gpt-4o-mini",
+            messages: [
+              { role: "system", content: input.systemPrompt },
+              { role: "user", content: input.firstMessage },
+            ],
+          },
+
+          // ✅ Supabase Edge Function webhook
+          serverUrl: webhookUrl,
+          serverMessages: ["status-update", "end-of-call-report", 'transcript[transcriptType="final"]'],
+
+          metadata: input.metadata,
+        },
+
+        metadata: input.metadata,
+      }),
+    });
+
+    if (!res.ok) throw new Error(`Vapi create call failed: ${JSON.stringify(res.json)}`);
+
+    const providerCallId = String(res.json?.id ?? res.json?.call?.id ?? "");
+    return { providerCallId: providerCallId || null, raw: res.json };
+  },
+
+  async cancelCall(shop: string, providerCallId: string) {
+    const creds = await requireCredentials(shop);
+    // Live calls are ended through the call's control URL; nothing to do once it's gone.
+    const res = await vapiFetch(creds.apiKey, `/call/${encodeURIComponent(providerCallId)}`);
+    const controlUrl = res.json?.monitor?.controlUrl;
+    if (!res.ok || !controlUrl) return;
+
+    await fetch(String(controlUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ type: "end-call" }),
+    });
+  },
+
+  async fetchCallStatus(shop: string, providerCallId: string): Promise<ProviderCallStatus> {
+    const creds = await requireCredentials(shop);
+    const res = await vapiFetch(creds.apiKey, `/call/${encodeURIComponent(providerCallId)}`);
+    if (res.status === 404) return { state: "not_found", endedReason: null, raw: res.json };
+    if (!res.ok) throw new Error(`Vapi fetch call failed (${res.status}): ${JSON.stringify(res.json)}`);
+
+    const artifact = res.json?.artifact ?? {};
+    const transcript = artifact?.transcript ?? res.json?.transcript ?? null;
+    const recordingUrl = artifact?.recording?.url ?? artifact?.recordingUrl ?? res.json?.recordingUrl ?? null;
+
+    return {
+      state: mapVapiStatus(String(res.json?.status ?? "")),
+      endedReason: res.json?.endedReason ? String(res.json.endedReason) : null,
+      transcript: transcript ? safeStr(transcript, 20000) : null,
+      recordingUrl: recordingUrl ? safeStr(recordingUrl, 2000) : null,
+      durationSeconds: durationFrom(res.json),
+      costUsd: numberOrNull(res.json?.cost),
+      raw: res.json,
+    };
+  },
+
+  parseWebhook: parseVapiWebhook,
+};
@@ -0,0 +1,152 @@
+// app/lib/recoveryLinks.server.ts
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import db from "../db.server";
+import { recordTouchpoint } from "./touchpoints.server";
+
+/**
+ * Tracked recovery links: <app url>/r/<code>.<sig>, one per call job, redirecting to the Shopify
+ * abandoned checkout URL with UTM parameters. The signature (HMAC of the code) means links can't be
+ * guessed or enumerated; the code is the lookup key.
+ *
+ * Every click is logged (LinkClick) against the link's checkout and call job, and counts as a
+ * "link" touchpoint for attribution. Link-preview fetchers (messaging apps, crawlers) are redirected
+ * but not logged. Expired links still redirect; they just stop counting.
+ *
+ * Signing key: RECOVERY_LINK_SECRET, falling back to SHOPIFY_API_SECRET.
+ */
+
+const CODE_BYTES = 6; // 8 base64url chars
+const SIG_CHARS = 10;
+const LINK_TTL_DAYS = 30;
+
+const PREVIEW_AGENTS = /bot|crawler|spider|preview|facebookexternalhit|slackbot|whatsapp|telegrambot|discordbot|skypeuripreview/i;
+
+function signingKey() {
+  const key = String(process.env.RECOVERY_LINK_SECRET ?? process.env.SHOPIFY_API_SECRET ?? "").trim();
+  if (!key) throw new Error("Missing env: RECOVERY_LINK_SECRET (or SHOPIFY_API_SECRET)");
+  return key;
+}
+
+function sign(code: string) {
+  return createHmac("sha256", signingKey()).update(code).digest("base64url").slice(0, SIG_CHARS);
+}
+
+function appUrl() {
+  const url = String(process.env.SHOPIFY_APP_URL ?? "").trim().replace(/\/+$/, "");
+  if (!url) throw new Error("Missing env: SHOPIFY_APP_URL");
+  return url;
+}
+
+export function recoveryLinkUrl(code: string) {
+  return `${appUrl()}/r/${code}.${sign(code)}`;
+}
+
+/** Shopify's abandoned checkout URL from the stored payload (webhook or GraphQL sync). */
+export function abandonedCheckoutUrl(raw: string | null | undefined): string | null {
+  try {
+    const c = raw ? JSON.parse(raw) : null;
+    const url = String(c?.abandoned_checkout_url ?? c?.abandonedCheckoutUrl ?? "").trim();
+    return /^https?:\/\//i.test(url) ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+export function withUtm(url: string, callJobId: string | null) {
+  const u = new URL(url);
+  u.searchParams.set("utm_source", "call_recovery");
+  u.searchParams.set("utm_medium", "voice");
+  u.searchParams.set("utm_campaign", "abandoned_checkout");
+  if (callJobId) u.searchParams.set("utm_content", callJobId);
+  return u.toString();
+}
+
+/**
+ * The call job's recovery link (created on first use). Returns null when the checkout has no
+ * abandoned checkout URL to send people to.
+ */
+export async function ensureRecoveryLink(params: { shop: string; checkoutId: string; callJobId: string; now?: Date }) {
+  const { shop, checkoutId, callJobId } = params;
+  const now = params.now ?? new Date();
+
+  const existing = await db.recoveryLink.findUnique({ where: { shop_callJobId: { shop, callJobId } } });
+  if (existing) return { ...existing, url: recoveryLinkUrl(existing.code) };
+
+  const checkout = await db.checkout.findFirst({ where: { shop, checkoutId }, select: { raw: true } });
+  const target = abandonedCheckoutUrl(checkout?.raw);
+  if (!target) return null;
+
+  await db.recoveryLink.createMany({
+    data: [
+      {
+        shop,
+        checkoutId,
+        callJobId,
+        code: randomBytes(CODE_BYTES).toString("base64url"),
+        targetUrl: withUtm(target, callJobId),
+        expiresAt: new Date(now.getTime() + LINK_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+    ],
+    skipDuplicates: true, // a concurrent caller created it first
+  });
+
+  const link = await db.recoveryLink.findUnique({ where: { shop_callJobId: { shop, callJobId } } });
+  return link ? { ...link, url: recoveryLinkUrl(link.code) } : null;
+}
+
+/** `<code>.<sig>` -> link, or null when malformed, badly signed or unknown. */
+export async function resolveRecoveryLink(token: string) {
+  const [code, sig] = String(token ?? "").split(".");
+  if (!code || !sig) return null;
+
+  let expected: string;
+  try {
+    expected = sign(code);
+  } catch {
+    return null;
+  }
+  const a = Buffer.from(sig);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) return null;
+
+  return db.recoveryLink.findUnique({ where: { code } });
+}
+
+/** Logs a click (and its touchpoint) unless it's a link preview or the link expired. */
+export async function recordLinkClick(
+  link: { id: string; shop: string; checkoutId: string; callJobId: string | null; expiresAt: Date | null },
+  meta: { userAgent: string | null; referer: string | null; now?: Date }
+) {
+  const now = meta.now ?? new Date();
+  if (meta.userAgent && PREVIEW_AGENTS.test(meta.userAgent)) return null;
+  if (link.expiresAt && link.expiresAt < now) return null;
+
+  const click = await db.linkClick.create({
+    data: {
+      shop: link.shop,
+      linkId: link.id,
+      checkoutId: link.checkoutId,
+      callJobId: link.callJobId,
+      clickedAt: now,
+      userAgent: meta.userAgent ? meta.userAgent.slice(0, 500) : null,
+      referer: meta.referer ? meta.referer.slice(0, 500) : null,
+    },
+  });
+
+  await db.recoveryLink.update({
+    where: { id: link.id },
+    data: { clicks: { increment: 1 }, lastClickedAt: now },
+  });
+
+  await recordTouchpoint({
+    shop: link.shop,
+    checkoutId: link.checkoutId,
+    channel: "link",
+    kind: "link_click",
+    refId: click.id,
+    occurredAt: now,
+    detail: link.callJobId ? `From call ${link.callJobId}` : null,
+  });
+
+  return click;
+}
@@ -0,0 +1,114 @@
+// app/lib/retryPolicy.server.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  backoffMinutes,
+  jitterRange,
+  parseRetryPolicy,
+  planNextAttempt,
+  serializeRetryPolicy,
+  type RetryHistoryJob,
+} from "./retryPolicy.server";
+
+const t0 = new Date("2026-03-02T10:00:00Z");
+
+function ended(status: string, minutesAfterT0 = 0, analysisJson: string | null = null): RetryHistoryJob {
+  return { status, attempts: 1, updatedAt: new Date(t0.getTime() + minutesAfterT0 * 60 * 1000), analysisJson };
+}
+
+describe("parseRetryPolicy", () => {
+  it("derives the policy from the legacy columns when no JSON is stored", () => {
+    const p = parseRetryPolicy(null, { retryMinutes: 90, retryNoAnswerMinutes: 45, retryBusyMinutes: 0, maxAttempts: 4 });
+    expect(p.rules.no_answer).toEqual({ retry: true, baseMinutes: 45, maxRetries: 2 });
+    expect(p.rules.busy).toEqual({ retry: false, baseMinutes: 20, maxRetries: 2 });
+    expect(p.rules.provider_error.baseMinutes).toBe(30);
+    expect(p.rules.answered.baseMinutes).toBe(90);
+    expect(p).toMatchObject({ backoffFactor: 2, jitterPercent: 15, maxDelayMinutes: 1440, maxCallsPerCheckout: 4 });
+  });
+
+  it("clamps stored values and falls back on bad JSON", () => {
+    const p = parseRetryPolicy(
+      JSON.stringify({ rules: { busy: { retry: true, baseMinutes: 0, maxRetries: 99 } }, backoffFactor: 9, jitterPercent: -5 }),
+      null
+    );
+    expect(p.rules.busy).toEqual({ retry: true, baseMinutes: 1, maxRetries: 10 });
+    expect(p.backoffFactor).toBe(5);
+    expect(p.jitterPercent).toBe(0);
+
+    expect(parseRetryPolicy("{not json", null)).toEqual(parseRetryPolicy(null, null));
+  });
+
+  it("round-trips through serializeRetryPolicy", () => {
+    const p = parseRetryPolicy(null, { maxAttempts: 3 });
+    expect(parseRetryPolicy(serializeRetryPolicy(p), { maxAttempts: 3 })).toEqual(p);
+  });
+});
+
+describe("backoff and jitter", () => {
+  const policy = parseRetryPolicy(null, { maxAttempts: 5 });
+
+  it("multiplies the base delay by the backoff factor per retry", () => {
+    expect(backoffMinutes(policy, "no_answer", 1)).toBe(60);
+    expect(backoffMinutes(policy, "no_answer", 2)).toBe(120);
+    expect(backoffMinutes(policy, "no_answer", 3)).toBe(240);
+  });
+
+  it("caps the delay at maxDelayMinutes", () => {
+    const p = { ...policy, maxDelayMinutes: 300 };
+    expect(backoffMinutes(p, "voicemail", 1)).toBe(240);
+    expect(backoffMinutes(p, "voicemail", 2)).toBe(300);
+  });
+
+  it("spreads by ±jitterPercent, never below one minute", () => {
+    expect(jitterRange(policy, 60)).toEqual({ min: 51, max: 69 });
+    expect(jitterRange({ ...policy, jitterPercent: 50 }, 1)).toEqual({ min: 1, max: 2 });
+    expect(jitterRange({ ...policy, jitterPercent: 0 }, 60)).toEqual({ min: 60, max: 60 });
+  });
+});
+
+describe("planNextAttempt", () => {
+  const policy = parseRetryPolicy(null, { maxAttempts: 5 });
+
+  it("plans the first call for a checkout without history", () => {
+    expect(planNextAttempt(policy, [])).toEqual({ kind: "first" });
+  });
+
+  it("applies the jitter drawn from `random` around the nominal delay", () => {
+    const history = [ended("NO_ANSWER")];
+
+    const mid = planNextAttempt(policy, history, () => 0.5);
+    expect(mid).toMatchObject({ kind: "retry", outcome: "no_answer", retryNumber: 1, delayMinutes: 60 });
+    expect(mid.kind === "retry" && mid.at.toISOString()).toBe("2026-03-02T11:00:00.000Z");
+
+    expect(planNextAttempt(policy, history, () => 0)).toMatchObject({ delayMinutes: 51 });
+    expect(planNextAttempt(policy, history, () => 0.999999)).toMatchObject({ delayMinutes: 69 });
+  });
+
+  it("backs off on repeated outcomes and stops once the outcome's retries are used", () => {
+    const second = planNextAttempt(policy, [ended("NO_ANSWER", 60), ended("NO_ANSWER")], () => 0.5);
+    expect(second).toMatchObject({ kind: "retry", retryNumber: 2, delayMinutes: 120 });
+
+    const third = planNextAttempt(policy, [ended("NO_ANSWER", 180), ended("NO_ANSWER", 60), ended("NO_ANSWER")]);
+    expect(third).toEqual({ kind: "stop", reason: "no_answer retries used (2)" });
+  });
+
+  it("counts retries per outcome", () => {
+    const plan = planNextAttempt(policy, [ended("BUSY", 60), ended("NO_ANSWER")], () => 0.5);
+    expect(plan).toMatchObject({ kind: "retry", outcome: "busy", retryNumber: 1, delayMinutes: 20 });
+  });
+
+  it("stops at the lifetime cap, on cancel and on final dispositions", () => {
+    const capped = parseRetryPolicy(null, { maxAttempts: 2 });
+    expect(planNextAttempt(capped, [ended("NO_ANSWER", 60), ended("NO_ANSWER")])).toEqual({
+      kind: "stop",
+      reason: "lifetime cap (2 calls)",
+    });
+
+    expect(planNextAttempt(policy, [{ ...ended("CANCELED"), attempts: 0 }, ended("NO_ANSWER")])).toEqual({
+      kind: "stop",
+      reason: "canceled",
+    });
+
+    const analysis = JSON.stringify({ disposition: "wrong_number" });
+    expect(planNextAttempt(policy, [ended("COMPLETED", 0, analysis)])).toEqual({ kind: "stop", reason: "wrong_number" });
+  });
+});
@@ -0,0 +1,263 @@
+// app/lib/retryPolicy.server.ts
+import type { CallJobStatus } from "@prisma/client";
+import { ENDED_CALL_STATUSES } from "./callOutcome.server";
+
+/**
+ * Retry policy: when (and whether) a checkout gets another call after the last one ended.
+ *
+ * - One rule per outcome: retry on/off, base delay, max retries for that outcome.
+ * - Delay for the n-th retry of an outcome = base * backoffFactor^(n-1), capped at maxDelayMinutes,
+ *   then spread by ±jitterPercent so a batch of failures doesn't come back in one burst.
+ * - Lifetime cap: Settings.maxAttempts = total dials per checkout, across all of its jobs.
+ *
+ * Every dial is its own CallJob; the next attempt is created by enqueueCallJobs from this plan,
+ * dialers never re-queue a job themselves.
+ *
+ * Stored as Settings.retryPolicyJson; shops that never saved one get a policy derived from the
+ * older flat columns (retryMinutes + the per-outcome retry*Minutes).
+ */
+
+export const RETRY_OUTCOMES = ["provider_error", "no_answer", "busy", "voicemail", "answered"] as const;
+export type RetryOutcome = (typeof RETRY_OUTCOMES)[number];
+
+export type RetryRule = {
+  retry: boolean;
+  baseMinutes: number;
+  maxRetries: number;
+};
+
+export type RetryPolicy = {
+  rules: Record<RetryOutcome, RetryRule>;
+  backoffFactor: number;
+  jitterPercent: number;
+  maxDelayMinutes: number;
+  maxCallsPerCheckout: number;
+};
+
+// Settings columns the policy is read from (the JSON, its legacy flat columns and the lifetime cap).
+type RetrySettings = {
+  retryPolicyJson?: string | null;
+  maxAttempts?: number | null;
+  retryMinutes?: number | null;
+  retryNoAnswerMinutes?: number | null;
+  retryBusyMinutes?: number | null;
+  retryVoicemailMinutes?: number | null;
+} | null;
+
+// Stored JSON as parsed, before validation.
+type RawRetryPolicy = {
+  rules?: Partial<Record<RetryOutcome, { retry?: unknown; baseMinutes?: unknown; maxRetries?: unknown } | null>>;
+  backoffFactor?: unknown;
+  jitterPercent?: unknown;
+  maxDelayMinutes?: unknown;
+} | null;
+
+// Analysis dispositions that end the sequence regardless of rules.
+const NEVER_RETRY_DISPOSITIONS = new Set(["wrong_number", "not_interested"]);
+
+function int(v: unknown, fallback: number, min: number, max: number) {
+  const n = Math.floor(Number(v));
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+function num(v: unknown, fallback: number, min: number, max: number) {
+  const n = Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+function legacyRules(s: RetrySettings): Record<RetryOutcome, RetryRule> {
+  const flat = int(s?.retryMinutes, 180, 0, 10080);
+  const perOutcome = (v: unknown, d: number, maxRetries: number): RetryRule => {
+    const m = int(v, d, 0, 10080);
+    return { retry: m > 0, baseMinutes: m > 0 ? m : d, maxRetries };
+  };
+  return {
+    provider_error: { retry: true, baseMinutes: Math.min(flat || 30, 30), maxRetries: 2 },
+    no_answer: perOutcome(s?.retryNoAnswerMinutes, 60, 2),
+    busy: perOutcome(s?.retryBusyMinutes, 20, 2),
+    voicemail: perOutcome(s?.retryVoicemailMinutes, 240, 1),
+    answered: { retry: true, baseMinutes: flat || 180, maxRetries: 1 },
+  };
+}
+
+export function parseRetryPolicy(json: string | null | undefined, settings: RetrySettings): RetryPolicy {
+  let raw: RawRetryPolicy = null;
+  if (json) {
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      raw = null;
+    }
+  }
+
+  const fallback = legacyRules(settings);
+  const rules = {} as Record<RetryOutcome, RetryRule>;
+  for (const o of RETRY_OUTCOMES) {
+    const r = raw?.rules?.[o];
+    rules[o] = r
+      ? {
+          retry: Boolean(r.retry),
+          baseMinutes: int(r.baseMinutes, fallback[o].baseMinutes, 1, 10080),
+          maxRetries: int(r.maxRetries, fallback[o].maxRetries, 0, 10),
+        }
+      : fallback[o];
+  }
+
+  return {
+    rules,
+    backoffFactor: num(raw?.backoffFactor, 2, 1, 5),
+    jitterPercent: int(raw?.jitterPercent, 15, 0, 50),
+    maxDelayMinutes: int(raw?.maxDelayMinutes, 1440, 5, 10080),
+    maxCallsPerCheckout: int(settings?.maxAttempts, 2, 1, 20),
+  };
+}
+
+export function retryPolicyFromSettings(s: RetrySettings): RetryPolicy {
+  return parseRetryPolicy(s?.retryPolicyJson ?? null, s);
+}
+
+/** maxCallsPerCheckout lives in Settings.maxAttempts, so it isn't part of the JSON. */
+export function serializeRetryPolicy(p: Omit<RetryPolicy, "maxCallsPerCheckout">) {
+  return JSON.stringify({
+    rules: p.rules,
+    backoffFactor: p.backoffFactor,
+    jitterPercent: p.jitterPercent,
+    maxDelayMinutes: p.maxDelayMinutes,
+  });
+}
+
+export function outcomeForStatus(status: CallJobStatus | string): RetryOutcome | null {
+  const s = String(status);
+  if (s === "FAILED") return "provider_error";
+  if (s === "NO_ANSWER") return "no_answer";
+  if (s === "BUSY") return "busy";
+  if (s === "VOICEMAIL") return "voicemail";
+  if (s === "COMPLETED") return "answered";
+  return null;
+}
+
+/** Nominal delay (no jitter) before the n-th retry (1-based) of an outcome. */
+export function backoffMinutes(policy: RetryPolicy, outcome: RetryOutcome, n: number) {
+  const rule = policy.rules[outcome];
+  const raw = rule.baseMinutes * Math.pow(policy.backoffFactor, Math.max(0, n - 1));
+  return Math.min(policy.maxDelayMinutes, Math.round(raw));
+}
+
+export function jitterRange(policy: RetryPolicy, minutes: number) {
+  const spread = (minutes * policy.jitterPercent) / 100;
+  return { min: Math.max(1, Math.round(minutes - spread)), max: Math.round(minutes + spread) };
+}
+
+function dispositionOf(analysisJson: string | null | undefined) {
+  if (!analysisJson) return null;
+  try {
+    return String(JSON.parse(analysisJson)?.disposition ?? "") || null;
+  } catch {
+    return null;
+  }
+}
+
+export type RetryHistoryJob = {
+  status: CallJobStatus | string;
+  attempts: number;
+  updatedAt: Date;
+  analysisJson?: string | null;
+};
+
+export type RetryPlan =
+  | { kind: "first" }
+  | { kind: "retry"; at: Date; outcome: RetryOutcome; retryNumber: number; delayMinutes: number }
+  | { kind: "stop"; reason: string };
+
+/**
+ * Next attempt for a checkout, from its job history (newest first). Every job counts toward
+ * the lifetime cap by how many times it was actually dialed; a canceled latest job ends the
+ * sequence (order placed, suppressed, or canceled by the merchant).
+ */
+export function planNextAttempt(
+  policy: RetryPolicy,
+  history: RetryHistoryJob[],
+  random: () => number = Math.random
+): RetryPlan {
+  const dials = history.reduce((sum, j) => sum + Math.max(0, Number(j.attempts || 0)), 0);
+  if (dials >= policy.maxCallsPerCheckout) return { kind: "stop", reason: `lifetime cap (${policy.maxCallsPerCheckout} calls)` };
+
+  if (history[0] && String(history[0].status) === "CANCELED") return { kind: "stop", reason: "canceled" };
+
+  const ended = history.filter((j) => ENDED_CALL_STATUSES.includes(j.status as CallJobStatus));
+  const last = ended[0];
+  if (!last) return { kind: "first" };
+
+  const disposition = dispositionOf(last.analysisJson);
+  if (disposition && NEVER_RETRY_DISPOSITIONS.has(disposition)) return { kind: "stop", reason: disposition };
+
+  const outcome = outcomeForStatus(last.status);
+  if (!outcome) return { kind: "stop", reason: `unknown status ${last.status}` };
+
+  const rule = policy.rules[outcome];
+  if (!rule.retry) return { kind: "stop", reason: `${outcome} not retried` };
+
+  const retryNumber = ended.filter((j) => outcomeForStatus(j.status) === outcome).length;
+  if (retryNumber > rule.maxRetries) return { kind: "stop", reason: `${outcome} retries used (${rule.maxRetries})` };
+
+  const nominal = backoffMinutes(policy, outcome, retryNumber);
+  const spread = (nominal * policy.jitterPercent) / 100;
+  const delayMinutes = Math.max(1, nominal + (random() * 2 - 1) * spread);
+
+  return {
+    kind: "retry",
+    at: new Date(last.updatedAt.getTime() + delayMinutes * 60 * 1000),
+    outcome,
+    retryNumber,
+    delayMinutes: Math.round(delayMinutes),
+  };
+}
+
+export type TimelineStep = {
+  attempt: number;
+  delayMinutes: number; // nominal wait after the previous call (0 for the first)
+  jitterMinutes: { min: number; max: number } | null;
+  at: Date; // when the call is placed, after moving into the call schedule
+};
+
+/**
+ * Settings preview: the attempts a checkout gets if every call ends with `outcome`.
+ * `placeAt` moves a time into the call schedule (nextAllowedSlot); each retry is counted from
+ * the previous placed call, like enqueueCallJobs does. Call duration and jitter are ignored.
+ */
+export function retryTimeline(
+  policy: RetryPolicy,
+  outcome: RetryOutcome,
+  firstCallAt: Date,
+  placeAt: (d: Date) => Date | null = (d) => d
+) {
+  const first = placeAt(firstCallAt);
+  if (!first) return { steps: [] as TimelineStep[], stopReason: "no allowed slot in the call schedule" };
+
+  const steps: TimelineStep[] = [{ attempt: 1, delayMinutes: 0, jitterMinutes: null, at: first }];
+  const rule = policy.rules[outcome];
+
+  let stopReason = `lifetime cap (${policy.maxCallsPerCheckout} calls)`;
+  for (let n = 1; steps.length < policy.maxCallsPerCheckout; n++) {
+    if (!rule.retry) {
+      stopReason = `${outcome} not retried`;
+      break;
+    }
+    if (n > rule.maxRetries) {
+      stopReason = `${outcome} retries used (${rule.maxRetries})`;
+      break;
+    }
+    const delay = backoffMinutes(policy, outcome, n);
+    const prev = steps[steps.length - 1].at;
+    const at = placeAt(new Date(prev.getTime() + delay * 60 * 1000));
+    if (!at) {
+      stopReason = "no allowed slot in the call schedule";
+      break;
+    }
+    steps.push({ attempt: steps.length + 1, delayMinutes: delay, jitterMinutes: jitterRange(policy, delay), at });
+  }
+
+  return { steps, stopReason };
+}
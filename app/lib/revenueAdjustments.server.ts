@@ -0,0 +1,228 @@
+// app/lib/revenueAdjustments.server.ts
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+
+/**
+ * Net recovered revenue. Order.total is the gross amount at orders/create; refunds and cancellations
+ * (refunds/create, orders/cancelled, orders/updated) bring Order.netTotal down, and the net figure is
+ * copied to Checkout.recoveredAmount / CallJob.attributedAmount for the order they were credited with.
+ * The gross figures stay in recoveredGrossAmount / attributedGrossAmount.
+ *
+ * Every change is logged as a RevenueAdjustment. Refunds are keyed by the Shopify refund id, so the same
+ * refund seen in refunds/create and again in an orders/updated payload is only counted once.
+ *
+ *   net = cancelled ? 0 : max(0, gross - sum(refunds))
+ *
+ * Order edits that change the total aren't tracked; the gross stays what the order was placed for.
+ */
+
+export type AdjustmentKind = "refund" | "cancel";
+
+type RefundTransaction = {
+  kind?: unknown;
+  status?: unknown;
+  amount?: unknown;
+  amount_set?: { shop_money?: { amount?: unknown } | null } | null;
+} | null;
+
+// refunds/create payload, or one entry of an order's `refunds` (REST).
+export type RefundPayload = {
+  id?: unknown;
+  order_id?: unknown;
+  note?: unknown;
+  processed_at?: unknown;
+  created_at?: unknown;
+  transactions?: unknown;
+} | null;
+
+// orders/updated and orders/cancelled payload, as far as adjustments read it.
+export type OrderAdjustmentPayload = {
+  id?: unknown;
+  refunds?: unknown;
+  cancelled_at?: unknown;
+  cancel_reason?: unknown;
+} | null;
+
+function asPayload<T>(payload: unknown) {
+  return payload && typeof payload === "object" ? (payload as T) : null;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function toFloat(v: unknown) {
+  const n = Number.parseFloat(String(v ?? ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Money actually returned by one refund: successful refund transactions (shop currency). */
+export function refundAmount(payload: unknown): number {
+  const refund = asPayload<RefundPayload>(payload);
+  const txs: RefundTransaction[] = Array.isArray(refund?.transactions) ? refund.transactions : [];
+  let sum = 0;
+  for (const t of txs) {
+    const kind = String(t?.kind ?? "").toLowerCase();
+    const status = String(t?.status ?? "success").toLowerCase();
+    if (kind !== "refund" || status !== "success") continue;
+    sum += toFloat(t?.amount ?? t?.amount_set?.shop_money?.amount) ?? 0;
+  }
+  return round2(sum);
+}
+
+function netFor(gross: number, refunded: number, cancelled: boolean) {
+  return cancelled ? 0 : round2(Math.max(0, gross - refunded));
+}
+
+async function refundedSoFar(tx: Prisma.TransactionClient, shop: string, orderId: string) {
+  const agg = await tx.revenueAdjustment.aggregate({
+    where: { shop, orderId, kind: "refund" },
+    _sum: { amount: true },
+  });
+  return round2(Number(agg._sum.amount ?? 0));
+}
+
+/** Copies the order's net to whatever it was credited to (no-op for orders that recovered nothing). */
+export async function propagateOrderNet(shop: string, orderId: string) {
+  const order = await db.order.findUnique({
+    where: { shop_orderId: { shop, orderId } },
+    select: { total: true, netTotal: true },
+  });
+  if (!order) return;
+  const net = order.netTotal ?? order.total;
+  if (net == null) return;
+
+  await Promise.all([
+    db.checkout.updateMany({ where: { shop, recoveredOrderId: orderId }, data: { recoveredAmount: net } }),
+    db.callJob.updateMany({ where: { shop, attributedOrderId: orderId }, data: { attributedAmount: net } }),
+  ]);
+}
+
+/**
+ * Records one adjustment (idempotent on kind + externalId) and moves the order's net.
+ * Returns false when it was already recorded. Throws when the order isn't known yet (a refund
+ * delivered before orders/create), so the inbox keeps the event FAILED and it is retried.
+ */
+async function applyAdjustment(params: {
+  shop: string;
+  orderId: string;
+  kind: AdjustmentKind;
+  externalId: string;
+  amount: number; // refund: money returned; cancel: 0
+  note: string | null;
+  occurredAt: Date;
+}) {
+  const { shop, orderId, kind, externalId } = params;
+
+  const applied = await db.$transaction(async (tx) => {
+    // Row lock: adjustments of one order apply one at a time, each summing the ones committed before it.
+    const locked = await tx.$queryRaw<Array<{ id: string }>>`
+      SELECT "id" FROM "Order" WHERE "shop" = ${shop} AND "orderId" = ${orderId} FOR UPDATE
+    `;
+    if (!locked.length) return null;
+
+    const order = await tx.order.findUniqueOrThrow({
+      where: { shop_orderId: { shop, orderId } },
+      select: { total: true, netTotal: true, cancelledAt: true },
+    });
+    const gross = Number(order.total ?? 0);
+    const netBefore = order.netTotal ?? gross;
+
+    const created = await tx.revenueAdjustment.createMany({
+      data: [
+        {
+          shop,
+          orderId,
+          kind,
+          externalId,
+          amount: params.amount,
+          netBefore,
+          netAfter: netBefore,
+          note: params.note,
+          occurredAt: params.occurredAt,
+        },
+      ],
+      skipDuplicates: true,
+    });
+    if (created.count === 0) return false;
+
+    // Totals come from the adjustment rows (this one included), not from the order's running figures.
+    const refunded = await refundedSoFar(tx, shop, orderId);
+    const cancelledAt = kind === "cancel" ? order.cancelledAt ?? params.occurredAt : order.cancelledAt;
+    const netAfter = netFor(gross, refunded, cancelledAt != null);
+
+    await tx.revenueAdjustment.update({
+      where: { shop_orderId_kind_externalId: { shop, orderId, kind, externalId } },
+      data: { netAfter },
+    });
+    await tx.order.update({
+      where: { shop_orderId: { shop, orderId } },
+      data: { refundedAmount: refunded, netTotal: netAfter, cancelledAt },
+    });
+    return true;
+  });
+
+  if (applied === null) throw new Error(`Order ${orderId} not recorded yet; retry once orders/create has arrived`);
+  if (applied) await propagateOrderNet(shop, orderId);
+  return applied;
+}
+
+function dateOr(v: unknown, fallback: Date) {
+  const d = v ? new Date(String(v)) : null;
+  return d && !Number.isNaN(d.getTime()) ? d : fallback;
+}
+
+export async function recordRefund(shop: string, payload: unknown) {
+  const refund = asPayload<RefundPayload>(payload);
+  const orderId = refund?.order_id != null ? String(refund.order_id) : "";
+  const refundId = refund?.id != null ? String(refund.id) : "";
+  if (!orderId || !refundId) return false;
+
+  return applyAdjustment({
+    shop,
+    orderId,
+    kind: "refund",
+    externalId: refundId,
+    amount: refundAmount(refund),
+    note: refund?.note ? String(refund.note).slice(0, 500) : null,
+    occurredAt: dateOr(refund?.processed_at ?? refund?.created_at, new Date()),
+  });
+}
+
+/**
+ * orders/cancelled and orders/updated: cancellation plus any refunds the payload lists
+ * (Shopify orders can't be un-cancelled). Returns how many adjustments were recorded.
+ */
+export async function syncOrderAdjustments(shop: string, payload: unknown) {
+  const o = asPayload<OrderAdjustmentPayload>(payload);
+  const orderId = o?.id != null ? String(o.id) : "";
+  if (!orderId) return 0;
+
+  let recorded = 0;
+  const refunds: RefundPayload[] = Array.isArray(o?.refunds) ? o.refunds : [];
+  for (const r of refunds) {
+    if (await recordRefund(shop, { ...r, order_id: r?.order_id ?? orderId })) recorded += 1;
+  }
+
+  const order = await db.order.findUnique({
+    where: { shop_orderId: { shop, orderId } },
+    select: { cancelledAt: true },
+  });
+  if (!order) return recorded;
+
+  const cancelledAt = o?.cancelled_at ? dateOr(o.cancelled_at, new Date()) : null;
+  if (cancelledAt && !order.cancelledAt) {
+    const ok = await applyAdjustment({
+      shop,
+      orderId,
+      kind: "cancel",
+      externalId: cancelledAt.toISOString(),
+      amount: 0,
+      note: o?.cancel_reason ? `Cancelled: ${String(o.cancel_reason)}` : "Cancelled",
+      occurredAt: cancelledAt,
+    });
+    if (ok) recorded += 1;
+  }
+
+  return recorded;
+}
@@ -0,0 +1,54 @@
+// app/lib/secrets.server.ts
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+
+/**
+ * AES-256-GCM for per-shop secrets at rest (provider API keys).
+ * Key comes from APP_ENCRYPTION_KEY: 32 bytes as base64/hex, or any passphrase (hashed to 32 bytes).
+ * Stored format: "v1:<iv b64>:<tag b64>:<ciphertext b64>".
+ */
+
+const VERSION = "v1";
+
+function encryptionKey() {
+  const raw = String(process.env.APP_ENCRYPTION_KEY ?? "").trim();
+  if (!raw) throw new Error("Missing env: APP_ENCRYPTION_KEY");
+
+  if (/^[0-9a-f]{64}$/i.test(raw)) return Buffer.from(raw, "hex");
+  const b64 = Buffer.from(raw, "base64");
+  if (b64.length === 32) return b64;
+  return createHash("sha256").update(raw).digest();
+}
+
+export function isEncryptionConfigured() {
+  return Boolean(String(process.env.APP_ENCRYPTION_KEY ?? "").trim());
+}
+
+export function encryptSecret(plain: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const enc = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), enc.toString("base64")].join(":");
+}
+
+export function decryptSecret(stored: string | null | undefined): string | null {
+  if (!stored) return null;
+  const [version, ivB64, tagB64, encB64] = stored.split(":");
+  if (version !== VERSION || !ivB64 || !tagB64 || encB64 == null) return null;
+
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(ivB64, "base64"));
+    decipher.setAuthTag(Buffer.from(tagB64, "base64"));
+    const dec = Buffer.concat([decipher.update(Buffer.from(encB64, "base64")), decipher.final()]);
+    return dec.toString("utf8");
+  } catch {
+    // wrong key / tampered value
+    return null;
+  }
+}
+
+export function maskSecret(plain: string | null | undefined) {
+  const s = String(plain ?? "");
+  if (!s) return null;
+  return s.length <= 4 ? "••••" : `••••${s.slice(-4)}`;
+}
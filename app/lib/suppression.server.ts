@@ -0,0 +1,315 @@
+// app/lib/suppression.server.ts
+import db from "../db.server";
+
+export type SuppressionSource = "manual" | "import" | "call_analysis" | "transcript";
+
+// Customer phrases that mean "stop calling me". Whole phrases only: a bare "don't call" or
+// "unsubscribe" is too easy to hit in passing ("don't call it a deal yet").
+const OPT_OUT_PATTERNS = [
+  /\bstop calling (me|this number)\b/,
+  /\b(don't|dont|do not|never) call (me|this number) (again|anymore|any more)\b/,
+  /\bput (me|my number) on (your|the) do not call list\b/,
+  /\b(remove|take) (me|my number) (from|off) (your|the) (call |calling |contact )?list\b/,
+  /\bunsubscribe me\b/,
+  /\blose my number\b/,
+];
+
+// Transcript lines spoken by the customer (the agent's lines are "AI:" / "Assistant:").
+const CUSTOMER_LINE = /^\s*(user|customer)\s*:\s*/i;
+
+// Analysis dispositions that put the number on the list.
+const SUPPRESS_DISPOSITIONS = new Set(["not_interested", "wrong_number"]);
+
+/**
+ * Comparison key for phones: digits only, so "+1 (555) 010-2000" and "15550102000" match.
+ */
+export function normalizePhoneKey(phone: string | null | undefined) {
+  const digits = String(phone ?? "").replace(/\D/g, "");
+  return digits.length >= 6 ? digits : null;
+}
+
+export function normalizeEmailKey(email: string | null | undefined) {
+  const e = String(email ?? "").trim().toLowerCase();
+  return e.includes("@") ? e : null;
+}
+
+/**
+ * Opt-out said by the customer: only "User:" lines of the transcript are checked, so the agent
+ * reading out its own script can't suppress anyone. Returns the matched words.
+ */
+export function detectOptOutPhrase(transcript: string | null | undefined): string | null {
+  const customer = String(transcript ?? "")
+    .split(/\r?\n/)
+    .filter((l) => CUSTOMER_LINE.test(l))
+    .map((l) => l.replace(CUSTOMER_LINE, "").toLowerCase().replace(/[’`]/g, "'"));
+
+  for (const line of customer) {
+    for (const p of OPT_OUT_PATTERNS) {
+      const m = line.match(p);
+      if (m) return m[0];
+    }
+  }
+  return null;
+}
+
+export function shouldSuppressDisposition(disposition: string | null | undefined) {
+  return SUPPRESS_DISPOSITIONS.has(String(disposition ?? "").trim().toLowerCase());
+}
+
+export async function findSuppression(shop: string, contact: { phone?: string | null; email?: string | null }) {
+  const phone = normalizePhoneKey(contact.phone);
+  const email = normalizeEmailKey(contact.email);
+  if (!phone && !email) return null;
+
+  return db.suppression.findFirst({
+    where: {
+      shop,
+      OR: [...(phone ? [{ phone }] : []), ...(email ? [{ email }] : [])],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Dialer-side check: the job's phone plus the checkout's email.
+ */
+export async function findSuppressionForJob(job: { shop: string; checkoutId: string; phone: string }) {
+  const checkout = await db.checkout.findFirst({
+    where: { shop: job.shop, checkoutId: job.checkoutId },
+    select: { email: true },
+  });
+  return findSuppression(job.shop, { phone: job.phone, email: checkout?.email ?? null });
+}
+
+/**
+ * Whole list as lookup sets (used by enqueue to avoid one query per candidate).
+ */
+export async function loadSuppressionSets(shop: string) {
+  const rows = await db.suppression.findMany({ where: { shop }, select: { phone: true, email: true } });
+  const phones = new Set<string>();
+  const emails = new Set<string>();
+  for (const r of rows) {
+    if (r.phone) phones.add(r.phone);
+    if (r.email) emails.add(r.email);
+  }
+
+  return {
+    phones,
+    emails,
+    has(contact: { phone?: string | null; email?: string | null }) {
+      const phone = normalizePhoneKey(contact.phone);
+      const email = normalizeEmailKey(contact.email);
+      return Boolean((phone && phones.has(phone)) || (email && emails.has(email)));
+    },
+  };
+}
+
+/**
+ * Adds a contact to the registry (no-op if already listed) and cancels any queued jobs for it.
+ */
+export async function addSuppression(params: {
+  shop: string;
+  phone?: string | null;
+  email?: string | null;
+  reason?: string | null;
+  source: SuppressionSource;
+  callJobId?: string | null;
+}) {
+  const phone = normalizePhoneKey(params.phone);
+  const email = normalizeEmailKey(params.email);
+  if (!phone && !email) return { added: false, entry: null };
+
+  const existing = await findSuppression(params.shop, { phone, email });
+  if (existing) {
+    // fill in the missing half (e.g. phone listed manually, email learned from a call)
+    const patch: { phone?: string; email?: string } = {};
+    if (phone && !existing.phone) patch.phone = phone;
+    if (email && !existing.email) patch.email = email;
+    const entry = Object.keys(patch).length
+      ? await db.suppression.update({ where: { id: existing.id }, data: patch })
+      : existing;
+    await cancelQueuedJobsFor(params.shop, [{ phone: entry.phone, email: entry.email }]);
+    return { added: false, entry };
+  }
+
+  const entry = await db.suppression.create({
+    data: {
+      shop: params.shop,
+      phone,
+      email,
+      reason: params.reason ? String(params.reason).slice(0, 500) : null,
+      source: params.source,
+      callJobId: params.callJobId ?? null,
+    },
+  });
+
+  await cancelQueuedJobsFor(params.shop, [{ phone, email }]);
+  return { added: true, entry };
+}
+
+export async function removeSuppression(shop: string, id: string) {
+  const res = await db.suppression.deleteMany({ where: { id, shop } });
+  return res.count > 0;
+}
+
+/** Cancels queued jobs whose phone, or whose checkout's email, is one of the given keys. */
+async function cancelQueuedJobsFor(shop: string, keys: Array<{ phone: string | null; email: string | null }>) {
+  const phones = new Set(keys.map((k) => k.phone).filter((k): k is string => Boolean(k)));
+  const emails = new Set(keys.map((k) => k.email).filter((k): k is string => Boolean(k)));
+  if (!phones.size && !emails.size) return 0;
+
+  const queued = await db.callJob.findMany({
+    where: { shop, status: { in: ["QUEUED", "THROTTLED"] } },
+    select: { id: true, phone: true, checkoutId: true },
+  });
+
+  const emailByCheckout = new Map<string, string | null>();
+  if (emails.size && queued.length) {
+    const checkouts = await db.checkout.findMany({
+      where: { shop, checkoutId: { in: Array.from(new Set(queued.map((j) => j.checkoutId))) } },
+      select: { checkoutId: true, email: true },
+    });
+    for (const c of checkouts) emailByCheckout.set(c.checkoutId, normalizeEmailKey(c.email));
+  }
+
+  const ids = queued
+    .filter((j) => {
+      const phone = normalizePhoneKey(j.phone);
+      const email = emailByCheckout.get(j.checkoutId) ?? null;
+      return Boolean((phone && phones.has(phone)) || (email && emails.has(email)));
+    })
+    .map((j) => j.id);
+  if (!ids.length) return 0;
+
+  const res = await db.callJob.updateMany({
+    where: { id: { in: ids }, shop, status: { in: ["QUEUED", "THROTTLED"] } },
+    data: { status: "CANCELED", outcome: "SUPPRESSED: contact is on the do-not-call list" },
+  });
+  return res.count;
+}
+
+/* ---------------------------
+   CSV import / export
+   --------------------------- */
+
+function parseCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      out.push(cur);
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+  return out.map((v) => v.trim());
+}
+
+const IMPORT_BATCH = 500;
+
+function csvCell(v: string | null | undefined) {
+  const s = String(v ?? "");
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Accepts a header row with any of: phone, email, reason. Without a header, the first
+ * column is treated as phone (or email when it contains "@") and the second as reason.
+ */
+export async function importSuppressionCsv(shop: string, text: string) {
+  const lines = String(text ?? "")
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+  let added = 0;
+  let skipped = 0;
+  if (!lines.length) return { added, skipped };
+
+  const header = parseCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const hasHeader = header.includes("phone") || header.includes("email");
+  const col = (name: string) => header.indexOf(name);
+
+  const listed = await loadSuppressionSets(shop);
+  const seenPhones = new Set<string>();
+  const seenEmails = new Set<string>();
+  const fresh: Array<{ phone: string | null; email: string | null; reason: string }> = [];
+
+  for (const line of hasHeader ? lines.slice(1) : lines) {
+    const cells = parseCsvLine(line);
+
+    let rawPhone: string | null = null;
+    let rawEmail: string | null = null;
+    let reason: string | null = null;
+
+    if (hasHeader) {
+      rawPhone = col("phone") >= 0 ? cells[col("phone")] || null : null;
+      rawEmail = col("email") >= 0 ? cells[col("email")] || null : null;
+      reason = col("reason") >= 0 ? cells[col("reason")] || null : null;
+    } else {
+      const first = cells[0] ?? "";
+      if (first.includes("@")) rawEmail = first;
+      else rawPhone = first;
+      reason = cells[1] || null;
+    }
+
+    const phone = normalizePhoneKey(rawPhone);
+    const email = normalizeEmailKey(rawEmail);
+    if (!phone && !email) {
+      skipped += 1;
+      continue;
+    }
+
+    // Already listed: rare, so the single-row path fills in a missing phone/email half.
+    if (listed.has({ phone, email })) {
+      await addSuppression({ shop, phone, email, reason: reason ?? "Imported", source: "import" });
+      skipped += 1;
+      continue;
+    }
+    if ((phone && seenPhones.has(phone)) || (email && seenEmails.has(email))) {
+      skipped += 1;
+      continue;
+    }
+    if (phone) seenPhones.add(phone);
+    if (email) seenEmails.add(email);
+    fresh.push({ phone, email, reason: (reason ?? "Imported").slice(0, 500) });
+  }
+
+  for (let i = 0; i < fresh.length; i += IMPORT_BATCH) {
+    const res = await db.suppression.createMany({
+      data: fresh.slice(i, i + IMPORT_BATCH).map((r) => ({ shop, ...r, source: "import" })),
+      skipDuplicates: true,
+    });
+    added += res.count;
+  }
+  await cancelQueuedJobsFor(shop, fresh);
+
+  return { added, skipped };
+}
+
+export async function exportSuppressionCsv(shop: string) {
+  const rows = await db.suppression.findMany({ where: { shop }, orderBy: { createdAt: "asc" } });
+  const lines = ["phone,email,reason,source,createdAt"];
+  for (const r of rows) {
+    lines.push(
+      [r.phone, r.email, r.reason, r.source, r.createdAt.toISOString()].map(csvCell).join(",")
+    );
+  }
+  return lines.join("\n") + "\n";
+}
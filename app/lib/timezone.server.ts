@@ -0,0 +1,419 @@
+// app/lib/timezone.server.ts
+
+// ISO country -> [international dialing code, primary IANA timezone].
+// NANP islands carry their full "1xxx" prefix so phone lookups can tell them apart from US/CA.
+const COUNTRIES: Record<string, [string, string]> = {
+  AD: ["376", "Europe/Andorra"],
+  AE: ["971", "Asia/Dubai"],
+  AF: ["93", "Asia/Kabul"],
+  AG: ["1268", "America/Antigua"],
+  AL: ["355", "Europe/Tirane"],
+  AM: ["374", "Asia/Yerevan"],
+  AO: ["244", "Africa/Luanda"],
+  AR: ["54", "America/Argentina/Buenos_Aires"],
+  AT: ["43", "Europe/Vienna"],
+  AU: ["61", "Australia/Sydney"],
+  AW: ["297", "America/Aruba"],
+  AZ: ["994", "Asia/Baku"],
+  BA: ["387", "Europe/Sarajevo"],
+  BB: ["1246", "America/Barbados"],
+  BD: ["880", "Asia/Dhaka"],
+  BE: ["32", "Europe/Brussels"],
+  BF: ["226", "Africa/Ouagadougou"],
+  BG: ["359", "Europe/Sofia"],
+  BH: ["973", "Asia/Bahrain"],
+  BI: ["257", "Africa/Bujumbura"],
+  BJ: ["229", "Africa/Porto-Novo"],
+  BM: ["1441", "Atlantic/Bermuda"],
+  BN: ["673", "Asia/Brunei"],
+  BO: ["591", "America/La_Paz"],
+  BR: ["55", "America/Sao_Paulo"],
+  BS: ["1242", "America/Nassau"],
+  BT: ["975", "Asia/Thimphu"],
+  BW: ["267", "Africa/Gaborone"],
+  BY: ["375", "Europe/Minsk"],
+  BZ: ["501", "America/Belize"],
+  CA: ["1", "America/Toronto"],
+  CD: ["243", "Africa/Kinshasa"],
+  CF: ["236", "Africa/Bangui"],
+  CG: ["242", "Africa/Brazzaville"],
+  CH: ["41", "Europe/Zurich"],
+  CI: ["225", "Africa/Abidjan"],
+  CL: ["56", "America/Santiago"],
+  CM: ["237", "Africa/Douala"],
+  CN: ["86", "Asia/Shanghai"],
+  CO: ["57", "America/Bogota"],
+  CR: ["506", "America/Costa_Rica"],
+  CU: ["53", "America/Havana"],
+  CV: ["238", "Atlantic/Cape_Verde"],
+  CY: ["357", "Asia/Nicosia"],
+  CZ: ["420", "Europe/Prague"],
+  DE: ["49", "Europe/Berlin"],
+  DJ: ["253", "Africa/Djibouti"],
+  DK: ["45", "Europe/Copenhagen"],
+  DM: ["1767", "America/Dominica"],
+  DO: ["1809", "America/Santo_Domingo"],
+  DZ: ["213", "Africa/Algiers"],
+  EC: ["593", "America/Guayaquil"],
+  EE: ["372", "Europe/Tallinn"],
+  EG: ["20", "Africa/Cairo"],
+  ER: ["291", "Africa/Asmara"],
+  ES: ["34", "Europe/Madrid"],
+  ET: ["251", "Africa/Addis_Ababa"],
+  FI: ["358", "Europe/Helsinki"],
+  FJ: ["679", "Pacific/Fiji"],
+  FO: ["298", "Atlantic/Faroe"],
+  FR: ["33", "Europe/Paris"],
+  GA: ["241", "Africa/Libreville"],
+  GB: ["44", "Europe/London"],
+  GD: ["1473", "America/Grenada"],
+  GE: ["995", "Asia/Tbilisi"],
+  GG: ["44", "Europe/Guernsey"],
+  GH: ["233", "Africa/Accra"],
+  GI: ["350", "Europe/Gibraltar"],
+  GL: ["299", "America/Nuuk"],
+  GM: ["220", "Africa/Banjul"],
+  GN: ["224", "Africa/Conakry"],
+  GP: ["590", "America/Guadeloupe"],
+  GQ: ["240", "Africa/Malabo"],
+  GR: ["30", "Europe/Athens"],
+  GT: ["502", "America/Guatemala"],
+  GU: ["1671", "Pacific/Guam"],
+  GW: ["245", "Africa/Bissau"],
+  GY: ["592", "America/Guyana"],
+  HK: ["852", "Asia/Hong_Kong"],
+  HN: ["504", "America/Tegucigalpa"],
+  HR: ["385", "Europe/Zagreb"],
+  HT: ["509", "America/Port-au-Prince"],
+  HU: ["36", "Europe/Budapest"],
+  ID: ["62", "Asia/Jakarta"],
+  IE: ["353", "Europe/Dublin"],
+  IL: ["972", "Asia/Jerusalem"],
+  IM: ["44", "Europe/Isle_of_Man"],
+  IN: ["91", "Asia/Kolkata"],
+  IQ: ["964", "Asia/Baghdad"],
+  IR: ["98", "Asia/Tehran"],
+  IS: ["354", "Atlantic/Reykjavik"],
+  IT: ["39", "Europe/Rome"],
+  JE: ["44", "Europe/Jersey"],
+  JM: ["1876", "America/Jamaica"],
+  JO: ["962", "Asia/Amman"],
+  JP: ["81", "Asia/Tokyo"],
+  KE: ["254", "Africa/Nairobi"],
+  KG: ["996", "Asia/Bishkek"],
+  KH: ["855", "Asia/Phnom_Penh"],
+  KN: ["1869", "America/St_Kitts"],
+  KR: ["82", "Asia/Seoul"],
+  KW: ["965", "Asia/Kuwait"],
+  KY: ["1345", "America/Cayman"],
+  KZ: ["7", "Asia/Almaty"],
+  LA: ["856", "Asia/Vientiane"],
+  LB: ["961", "Asia/Beirut"],
+  LC: ["1758", "America/St_Lucia"],
+  LI: ["423", "Europe/Vaduz"],
+  LK: ["94", "Asia/Colombo"],
+  LR: ["231", "Africa/Monrovia"],
+  LS: ["266", "Africa/Maseru"],
+  LT: ["370", "Europe/Vilnius"],
+  LU: ["352", "Europe/Luxembourg"],
+  LV: ["371", "Europe/Riga"],
+  LY: ["218", "Africa/Tripoli"],
+  MA: ["212", "Africa/Casablanca"],
+  MC: ["377", "Europe/Monaco"],
+  MD: ["373", "Europe/Chisinau"],
+  ME: ["382", "Europe/Podgorica"],
+  MG: ["261", "Indian/Antananarivo"],
+  MK: ["389", "Europe/Skopje"],
+  ML: ["223", "Africa/Bamako"],
+  MM: ["95", "Asia/Yangon"],
+  MN: ["976", "Asia/Ulaanbaatar"],
+  MO: ["853", "Asia/Macau"],
+  MQ: ["596", "America/Martinique"],
+  MR: ["222", "Africa/Nouakchott"],
+  MT: ["356", "Europe/Malta"],
+  MU: ["230", "Indian/Mauritius"],
+  MV: ["960", "Indian/Maldives"],
+  MW: ["265", "Africa/Blantyre"],
+  MX: ["52", "America/Mexico_City"],
+  MY: ["60", "Asia/Kuala_Lumpur"],
+  MZ: ["258", "Africa/Maputo"],
+  NA: ["264", "Africa/Windhoek"],
+  NC: ["687", "Pacific/Noumea"],
+  NE: ["227", "Africa/Niamey"],
+  NG: ["234", "Africa/Lagos"],
+  NI: ["505", "America/Managua"],
+  NL: ["31", "Europe/Amsterdam"],
+  NO: ["47", "Europe/Oslo"],
+  NP: ["977", "Asia/Kathmandu"],
+  NZ: ["64", "Pacific/Auckland"],
+  OM: ["968", "Asia/Muscat"],
+  PA: ["507", "America/Panama"],
+  PE: ["51", "America/Lima"],
+  PF: ["689", "Pacific/Tahiti"],
+  PG: ["675", "Pacific/Port_Moresby"],
+  PH: ["63", "Asia/Manila"],
+  PK: ["92", "Asia/Karachi"],
+  PL: ["48", "Europe/Warsaw"],
+  PR: ["1787", "America/Puerto_Rico"],
+  PS: ["970", "Asia/Hebron"],
+  PT: ["351", "Europe/Lisbon"],
+  PY: ["595", "America/Asuncion"],
+  QA: ["974", "Asia/Qatar"],
+  RE: ["262", "Indian/Reunion"],
+  RO: ["40", "Europe/Bucharest"],
+  RS: ["381", "Europe/Belgrade"],
+  RU: ["7", "Europe/Moscow"],
+  RW: ["250", "Africa/Kigali"],
+  SA: ["966", "Asia/Riyadh"],
+  SC: ["248", "Indian/Mahe"],
+  SD: ["249", "Africa/Khartoum"],
+  SE: ["46", "Europe/Stockholm"],
+  SG: ["65", "Asia/Singapore"],
+  SI: ["386", "Europe/Ljubljana"],
+  SK: ["421", "Europe/Bratislava"],
+  SL: ["232", "Africa/Freetown"],
+  SM: ["378", "Europe/San_Marino"],
+  SN: ["221", "Africa/Dakar"],
+  SO: ["252", "Africa/Mogadishu"],
+  SR: ["597", "America/Paramaribo"],
+  SV: ["503", "America/El_Salvador"],
+  SY: ["963", "Asia/Damascus"],
+  SZ: ["268", "Africa/Mbabane"],
+  TC: ["1649", "America/Grand_Turk"],
+  TD: ["235", "Africa/Ndjamena"],
+  TG: ["228", "Africa/Lome"],
+  TH: ["66", "Asia/Bangkok"],
+  TJ: ["992", "Asia/Dushanbe"],
+  TM: ["993", "Asia/Ashgabat"],
+  TN: ["216", "Africa/Tunis"],
+  TR: ["90", "Europe/Istanbul"],
+  TT: ["1868", "America/Port_of_Spain"],
+  TW: ["886", "Asia/Taipei"],
+  TZ: ["255", "Africa/Dar_es_Salaam"],
+  UA: ["380", "Europe/Kyiv"],
+  UG: ["256", "Africa/Kampala"],
+  US: ["1", "America/New_York"],
+  UY: ["598", "America/Montevideo"],
+  UZ: ["998", "Asia/Tashkent"],
+  VA: ["39", "Europe/Vatican"],
+  VC: ["1784", "America/St_Vincent"],
+  VE: ["58", "America/Caracas"],
+  VG: ["1284", "America/Tortola"],
+  VI: ["1340", "America/St_Thomas"],
+  VN: ["84", "Asia/Ho_Chi_Minh"],
+  YE: ["967", "Asia/Aden"],
+  ZA: ["27", "Africa/Johannesburg"],
+  ZM: ["260", "Africa/Lusaka"],
+  ZW: ["263", "Africa/Harare"],
+};
+
+// Shared dialing codes resolve to the main country.
+const PRIMARY_FOR_DIAL: Record<string, string> = { "1": "US", "7": "RU", "39": "IT", "44": "GB" };
+
+// ...unless the next digits tell them apart: +7 6xx / +7 7xx numbers are Kazakhstan, not Russia.
+const SPLIT_DIAL: Record<string, string> = { "76": "KZ", "77": "KZ" };
+
+// Countries spanning several zones: only trust the primary zone when a province tells us where.
+const PROVINCE_TIMEZONES: Record<string, Record<string, string>> = {
+  US: {
+    AL: "America/Chicago", AK: "America/Anchorage", AZ: "America/Phoenix", AR: "America/Chicago",
+    CA: "America/Los_Angeles", CO: "America/Denver", CT: "America/New_York", DC: "America/New_York",
+    DE: "America/New_York", FL: "America/New_York", GA: "America/New_York", HI: "Pacific/Honolulu",
+    ID: "America/Boise", IL: "America/Chicago", IN: "America/Indiana/Indianapolis", IA: "America/Chicago",
+    KS: "America/Chicago", KY: "America/New_York", LA: "America/Chicago", ME: "America/New_York",
+    MD: "America/New_York", MA: "America/New_York", MI: "America/Detroit", MN: "America/Chicago",
+    MS: "America/Chicago", MO: "America/Chicago", MT: "America/Denver", NE: "America/Chicago",
+    NV: "America/Los_Angeles", NH: "America/New_York", NJ: "America/New_York", NM: "America/Denver",
+    NY: "America/New_York", NC: "America/New_York", ND: "America/Chicago", OH: "America/New_York",
+    OK: "America/Chicago", OR: "America/Los_Angeles", PA: "America/New_York", RI: "America/New_York",
+    SC: "America/New_York", SD: "America/Chicago", TN: "America/Chicago", TX: "America/Chicago",
+    UT: "America/Denver", VT: "America/New_York", VA: "America/New_York", WA: "America/Los_Angeles",
+    WV: "America/New_York", WI: "America/Chicago", WY: "America/Denver", PR: "America/Puerto_Rico",
+  },
+  CA: {
+    AB: "America/Edmonton", BC: "America/Vancouver", MB: "America/Winnipeg", NB: "America/Moncton",
+    NL: "America/St_Johns", NS: "America/Halifax", NT: "America/Yellowknife", NU: "America/Iqaluit",
+    ON: "America/Toronto", PE: "America/Halifax", QC: "America/Toronto", SK: "America/Regina",
+    YT: "America/Whitehorse",
+  },
+  AU: {
+    ACT: "Australia/Sydney", NSW: "Australia/Sydney", NT: "Australia/Darwin", QLD: "Australia/Brisbane",
+    SA: "Australia/Adelaide", TAS: "Australia/Hobart", VIC: "Australia/Melbourne", WA: "Australia/Perth",
+  },
+  BR: {
+    AC: "America/Rio_Branco", AM: "America/Manaus", MS: "America/Campo_Grande", MT: "America/Cuiaba",
+    RO: "America/Porto_Velho", RR: "America/Boa_Vista",
+  },
+  MX: {
+    BC: "America/Tijuana", BCS: "America/Mazatlan", CHIH: "America/Chihuahua", NAY: "America/Mazatlan",
+    ROO: "America/Cancun", SIN: "America/Mazatlan", SON: "America/Hermosillo",
+  },
+};
+
+// Provinces not listed above fall back to the country's primary zone for these.
+const PRIMARY_ZONE_IS_DEFAULT = new Set(["BR", "MX"]);
+const MULTI_ZONE = new Set(["US", "CA", "AU", "BR", "MX", "RU", "ID", "KZ", "CD"]);
+
+const DIAL_TO_COUNTRY: Record<string, string> = (() => {
+  const out: Record<string, string> = {};
+  for (const [cc, [dial]] of Object.entries(COUNTRIES)) {
+    if (!out[dial]) out[dial] = cc;
+  }
+  return { ...out, ...PRIMARY_FOR_DIAL, ...SPLIT_DIAL };
+})();
+
+export function isValidTimeZone(tz: string | null | undefined): tz is string {
+  const s = String(tz ?? "").trim();
+  if (!s) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: s });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function countryFromPhone(phone: string | null | undefined): string | null {
+  const raw = String(phone ?? "").trim();
+  let digits: string;
+  if (raw.startsWith("+")) digits = raw.slice(1).replace(/\D/g, "");
+  else if (raw.startsWith("00")) digits = raw.slice(2).replace(/\D/g, "");
+  else return null;
+
+  for (let len = 4; len >= 1; len -= 1) {
+    const cc = DIAL_TO_COUNTRY[digits.slice(0, len)];
+    if (cc) return cc;
+  }
+  return null;
+}
+
+/** International dialing code for an ISO country ("1" for every NANP country). */
+export function dialCodeForCountry(countryCode: string | null | undefined): string | null {
+  const dial = COUNTRIES[String(countryCode ?? "").trim().toUpperCase()]?.[0];
+  if (!dial) return null;
+  return dial.startsWith("1") ? "1" : dial;
+}
+
+export function timezoneForCountry(countryCode: string | null | undefined, provinceCode?: string | null) {
+  const cc = String(countryCode ?? "").trim().toUpperCase();
+  const info = COUNTRIES[cc];
+  if (!info) return null;
+
+  const prov = String(provinceCode ?? "").trim().toUpperCase();
+  const byProvince = PROVINCE_TIMEZONES[cc]?.[prov];
+  if (byProvince) return byProvince;
+
+  if (MULTI_ZONE.has(cc) && !PRIMARY_ZONE_IS_DEFAULT.has(cc)) return null;
+  return info[1];
+}
+
+/**
+ * Best guess of the customer's IANA timezone:
+ * shipping address -> billing address -> phone country code.
+ * Returns null when we can't tell (e.g. US number with no state), so callers fall back to shop time.
+ */
+export function resolveCustomerTimezone(args: {
+  countryCode?: string | null;
+  provinceCode?: string | null;
+  phone?: string | null;
+}) {
+  const fromAddress = timezoneForCountry(args.countryCode, args.provinceCode);
+  if (fromAddress) return fromAddress;
+  if (args.countryCode) return null;
+  return timezoneForCountry(countryFromPhone(args.phone));
+}
+
+type PayloadObject = Record<string, unknown>;
+
+function asObject(v: unknown): PayloadObject | null {
+  return v && typeof v === "object" ? (v as PayloadObject) : null;
+}
+
+/**
+ * Pulls country/province out of a checkout payload (REST webhook or GraphQL node)
+ * and resolves the customer timezone from it.
+ */
+export function locationFromCheckout(payload: unknown, phone?: string | null) {
+  const c = asObject(payload);
+  const ship = asObject(c?.shipping_address ?? c?.shippingAddress);
+  const bill = asObject(c?.billing_address ?? c?.billingAddress);
+
+  const pick = (a: PayloadObject | null, ...keys: string[]) => {
+    for (const k of keys) {
+      const v = String(a?.[k] ?? "").trim();
+      if (v) return v.toUpperCase();
+    }
+    return null;
+  };
+
+  const shipCountry = pick(ship, "country_code", "countryCodeV2", "countryCode");
+  const countryCode = shipCountry ?? pick(bill, "country_code", "countryCodeV2", "countryCode");
+  const provinceCode = shipCountry
+    ? pick(ship, "province_code", "provinceCode")
+    : pick(bill, "province_code", "provinceCode");
+
+  const payloadPhone = [c?.phone, ship?.phone, bill?.phone].find((v) => v != null);
+  const customerTimezone = resolveCustomerTimezone({
+    countryCode,
+    provinceCode,
+    phone: phone ?? (payloadPhone != null ? String(payloadPhone) : null),
+  });
+
+  return { countryCode, provinceCode, customerTimezone };
+}
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const fmt = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    weekday: "short",
+  });
+  const parts: Record<string, string> = {};
+  for (const p of fmt.formatToParts(date)) parts[p.type] = p.value;
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS[parts.weekday] ?? 0,
+  };
+}
+
+function offsetMs(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const floored = Math.floor(date.getTime() / 60000) * 60000;
+  return asUtc - floored;
+}
+
+/**
+ * Wall-clock time in `timeZone` -> UTC Date. Day overflow is fine (day = 32 rolls into next month).
+ * Times skipped by a DST jump resolve to the instant just after the gap.
+ */
+export function zonedTimeToUtc(
+  local: { year: number; month: number; day: number; hour: number; minute: number },
+  timeZone: string
+) {
+  const guess = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const first = guess - offsetMs(new Date(guess), timeZone);
+  const second = guess - offsetMs(new Date(first), timeZone);
+  return new Date(first === second ? first : Math.max(first, second));
+}
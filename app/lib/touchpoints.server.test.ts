@@ -0,0 +1,105 @@
+// app/lib/touchpoints.server.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  checkout: { findMany: vi.fn() },
+  touchpoint: { findMany: vi.fn() },
+  callJob: { findMany: vi.fn() },
+}));
+vi.mock("../db.server", () => ({ default: db }));
+
+import type { AttributionConfig } from "./attribution.server";
+import { creditWeights, pickAttributionModel, revenueByChannel } from "./touchpoints.server";
+
+const HOUR = 60 * 60 * 1000;
+const at = new Date("2026-03-10T12:00:00Z");
+const hoursBefore = (h: number) => new Date(at.getTime() - h * HOUR);
+
+const config: AttributionConfig = { windowDays: 7, rules: ["checkout_id"], outcomes: ["COMPLETED"] };
+
+describe("pickAttributionModel", () => {
+  it("falls back to last touch", () => {
+    expect(pickAttributionModel("linear")).toBe("linear");
+    expect(pickAttributionModel("u_shaped")).toBe("last_touch");
+    expect(pickAttributionModel(null)).toBe("last_touch");
+  });
+});
+
+describe("creditWeights", () => {
+  const touches = [{ occurredAt: hoursBefore(48) }, { occurredAt: hoursBefore(24) }, { occurredAt: at }];
+
+  it("gives everything to one touch for last and first touch", () => {
+    expect(creditWeights(touches, at, "last_touch")).toEqual([0, 0, 1]);
+    expect(creditWeights(touches, at, "first_touch")).toEqual([1, 0, 0]);
+  });
+
+  it("splits equally for linear", () => {
+    expect(creditWeights(touches, at, "linear")).toEqual([1 / 3, 1 / 3, 1 / 3]);
+  });
+
+  it("halves the weight every 24 hours before the purchase for time decay", () => {
+    const w = creditWeights(touches, at, "time_decay");
+    expect(w[0]).toBeCloseTo(1 / 7, 10);
+    expect(w[1]).toBeCloseTo(2 / 7, 10);
+    expect(w[2]).toBeCloseTo(4 / 7, 10);
+  });
+
+  it("returns shares that sum to 1, and none without touches", () => {
+    for (const model of ["last_touch", "first_touch", "linear", "time_decay"] as const) {
+      expect(creditWeights(touches, at, model).reduce((s, x) => s + x, 0)).toBeCloseTo(1, 10);
+      expect(creditWeights([], at, model)).toEqual([]);
+    }
+    expect(creditWeights([{ occurredAt: hoursBefore(500) }], at, "time_decay")).toEqual([1]);
+  });
+});
+
+describe("revenueByChannel", () => {
+  const touch = (id: string, channel: string, kind: string, refId: string, occurredAt: Date, checkoutId = "c1") => ({
+    id,
+    checkoutId,
+    channel,
+    kind,
+    refId,
+    occurredAt,
+  });
+
+  beforeEach(() => {
+    db.checkout.findMany.mockResolvedValue([
+      { checkoutId: "c1", recoveredAt: at, recoveredAmount: 70 },
+      { checkoutId: "c2", recoveredAt: at, recoveredAmount: 30 },
+    ]);
+    db.touchpoint.findMany.mockResolvedValue([
+      touch("t0", "email", "message_sent", "m0", hoursBefore(24 * 8)), // outside the 7-day window
+      touch("t1", "call", "call_attempt", "job-answered", hoursBefore(48)),
+      touch("t2", "sms", "message_sent", "m1", hoursBefore(24)),
+      touch("t3", "call", "call_attempt", "job-no-answer", hoursBefore(1)), // outcome doesn't credit
+      touch("t4", "link", "link_click", "l1", at),
+      touch("t5", "sms", "message_sent", "m2", new Date(at.getTime() + HOUR)), // after the purchase
+    ]);
+    db.callJob.findMany.mockResolvedValue([{ id: "job-answered" }]);
+  });
+
+  const range = { from: hoursBefore(24 * 30), to: at, config };
+
+  it("splits each recovery across its eligible touches", async () => {
+    expect(await revenueByChannel("shop-a", { ...range, model: "time_decay" })).toEqual({
+      call: 10,
+      sms: 20,
+      email: 0,
+      link: 40,
+      untracked: 30,
+    });
+    expect(await revenueByChannel("shop-a", { ...range, model: "linear" })).toEqual({
+      call: 23.33,
+      sms: 23.33,
+      email: 0,
+      link: 23.33,
+      untracked: 30,
+    });
+  });
+
+  it("credits a single channel under first and last touch", async () => {
+    expect(await revenueByChannel("shop-a", { ...range, model: "first_touch" })).toMatchObject({ call: 70, link: 0 });
+    expect(await revenueByChannel("shop-a", { ...range, model: "last_touch" })).toMatchObject({ call: 0, link: 70 });
+  });
+});
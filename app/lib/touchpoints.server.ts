@@ -0,0 +1,179 @@
+// app/lib/touchpoints.server.ts
+import db from "../db.server";
+import type { AttributionConfig } from "./attribution.server";
+
+/**
+ * Touchpoint log per checkout: every contact we made (call attempts, follow-up messages sent)
+ * and every response we saw (recovery link clicks). One row per (kind, refId).
+ *
+ * Attribution models split a recovered checkout's net revenue across the touches that fall in the
+ * attribution window before the purchase:
+ *   last_touch   100% to the latest touch
+ *   first_touch  100% to the earliest touch
+ *   linear       equal shares
+ *   time_decay   weight halves every TIME_DECAY_HALF_LIFE_HOURS before the purchase
+ * Call touches only count when the call ended with a crediting outcome (Settings.attributionOutcomes).
+ */
+
+export type TouchChannel = "call" | "sms" | "email" | "link";
+export type TouchKind = "call_attempt" | "message_sent" | "link_click";
+export type AttributionModel = "last_touch" | "first_touch" | "linear" | "time_decay";
+
+export const TOUCH_CHANNELS: TouchChannel[] = ["call", "sms", "email", "link"];
+export const ATTRIBUTION_MODELS: AttributionModel[] = ["last_touch", "first_touch", "linear", "time_decay"];
+
+const TIME_DECAY_HALF_LIFE_HOURS = 24;
+
+export function pickAttributionModel(v: unknown): AttributionModel {
+  return ATTRIBUTION_MODELS.find((m) => m === v) ?? "last_touch";
+}
+
+/**
+ * Logs a touch. Keyed on (kind, refId): a call job that is dialed again moves its touch to the
+ * latest attempt (the job's status is the outcome of that attempt); anything else recorded twice
+ * stays as it was first seen.
+ */
+export async function recordTouchpoint(t: {
+  shop: string;
+  checkoutId: string;
+  channel: TouchChannel;
+  kind: TouchKind;
+  refId: string; // CallJob id, message id, link click id
+  occurredAt?: Date;
+  detail?: string | null;
+}) {
+  const occurredAt = t.occurredAt ?? new Date();
+  const detail = t.detail ? t.detail.slice(0, 500) : null;
+
+  await db.touchpoint.upsert({
+    where: { shop_kind_refId: { shop: t.shop, kind: t.kind, refId: t.refId } },
+    create: { shop: t.shop, checkoutId: t.checkoutId, channel: t.channel, kind: t.kind, refId: t.refId, occurredAt, detail },
+    update: t.kind === "call_attempt" ? { occurredAt, detail } : {},
+  });
+}
+
+/**
+ * A follow-up message went out (SMS or email). Senders pass their own message id; the calls page
+ * records the follow-up written after a call, marked sent by the merchant, as followup:<callJobId>:<channel>.
+ */
+export async function recordMessageSent(m: {
+  shop: string;
+  checkoutId: string;
+  channel: "sms" | "email";
+  messageId: string;
+  sentAt?: Date;
+  detail?: string | null;
+}) {
+  await recordTouchpoint({
+    shop: m.shop,
+    checkoutId: m.checkoutId,
+    channel: m.channel,
+    kind: "message_sent",
+    refId: m.messageId,
+    occurredAt: m.sentAt,
+    detail: m.detail,
+  });
+}
+
+export function followUpMessageId(callJobId: string, channel: "sms" | "email") {
+  return `followup:${callJobId}:${channel}`;
+}
+
+type Touch = { id: string; checkoutId: string; channel: string; kind: string; refId: string; occurredAt: Date };
+
+/**
+ * Touches that can earn credit for a purchase at `at`: inside the window, and for calls only
+ * those whose job ended with a crediting outcome. Oldest first.
+ */
+export async function eligibleTouches(
+  shop: string,
+  purchases: Array<{ checkoutId: string; at: Date }>,
+  config: AttributionConfig
+): Promise<Map<string, Touch[]>> {
+  const out = new Map<string, Touch[]>();
+  if (!purchases.length) return out;
+
+  const windowMs = config.windowDays * 24 * 60 * 60 * 1000;
+  const earliest = new Date(Math.min(...purchases.map((p) => p.at.getTime())) - windowMs);
+
+  const touches = await db.touchpoint.findMany({
+    where: { shop, checkoutId: { in: purchases.map((p) => p.checkoutId) }, occurredAt: { gte: earliest } },
+    orderBy: { occurredAt: "asc" },
+    select: { id: true, checkoutId: true, channel: true, kind: true, refId: true, occurredAt: true },
+  });
+
+  const callJobIds = touches.filter((t) => t.kind === "call_attempt").map((t) => t.refId);
+  const crediting = new Set(
+    callJobIds.length
+      ? (
+          await db.callJob.findMany({
+            where: { shop, id: { in: callJobIds }, status: { in: config.outcomes } },
+            select: { id: true },
+          })
+        ).map((j) => j.id)
+      : []
+  );
+
+  for (const p of purchases) {
+    const from = p.at.getTime() - windowMs;
+    out.set(
+      p.checkoutId,
+      touches.filter(
+        (t) =>
+          t.checkoutId === p.checkoutId &&
+          t.occurredAt.getTime() >= from &&
+          t.occurredAt.getTime() <= p.at.getTime() &&
+          (t.kind !== "call_attempt" || crediting.has(t.refId))
+      )
+    );
+  }
+  return out;
+}
+
+/** Share of the credit per touch (touches oldest first); shares sum to 1. */
+export function creditWeights(touches: Array<{ occurredAt: Date }>, at: Date, model: AttributionModel): number[] {
+  const n = touches.length;
+  if (n === 0) return [];
+  if (model === "last_touch") return touches.map((_, i) => (i === n - 1 ? 1 : 0));
+  if (model === "first_touch") return touches.map((_, i) => (i === 0 ? 1 : 0));
+  if (model === "linear") return touches.map(() => 1 / n);
+
+  const raw = touches.map((t) => Math.pow(0.5, Math.max(0, at.getTime() - t.occurredAt.getTime()) / 3600000 / TIME_DECAY_HALF_LIFE_HOURS));
+  const sum = raw.reduce((s, w) => s + w, 0);
+  return raw.map((w) => w / sum);
+}
+
+/**
+ * Net recovered revenue of checkouts recovered in [from, to], split by channel under `model`.
+ * Recoveries with no logged touch (before the log existed) are reported as "untracked".
+ */
+export async function revenueByChannel(
+  shop: string,
+  params: { from: Date; to: Date; model: AttributionModel; config: AttributionConfig }
+) {
+  const recovered = await db.checkout.findMany({
+    where: { shop, status: "RECOVERED", recoveredAt: { gte: params.from, lte: params.to } },
+    select: { checkoutId: true, recoveredAt: true, recoveredAmount: true },
+  });
+
+  const purchases = recovered.map((c) => ({ checkoutId: c.checkoutId, at: c.recoveredAt ?? params.to }));
+  const touches = await eligibleTouches(shop, purchases, params.config);
+
+  const split: Record<TouchChannel | "untracked", number> = { call: 0, sms: 0, email: 0, link: 0, untracked: 0 };
+  for (const c of recovered) {
+    const amount = Number(c.recoveredAmount ?? 0);
+    const list = touches.get(c.checkoutId) ?? [];
+    if (!list.length) {
+      split.untracked += amount;
+      continue;
+    }
+    const weights = creditWeights(list, c.recoveredAt ?? params.to, params.model);
+    list.forEach((t, i) => {
+      const ch = (TOUCH_CHANNELS as string[]).includes(t.channel) ? (t.channel as TouchChannel) : "untracked";
+      split[ch] += amount * weights[i];
+    });
+  }
+
+  for (const k of Object.keys(split) as Array<keyof typeof split>) split[k] = Math.round(split[k] * 100) / 100;
+  return split;
+}
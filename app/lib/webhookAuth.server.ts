@@ -0,0 +1,196 @@
+// app/lib/webhookAuth.server.ts
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import db from "../db.server";
+import { decryptSecret } from "./secrets.server";
+
+/**
+ * Provider webhook authentication.
+ *
+ * Signed mode: HMAC-SHA256 of the raw request body with the shop's signing secret, sent in a
+ * configurable header (hex or base64, optional "sha256=" prefix). When the timestamp header is
+ * present the signed string is `${timestamp}.${body}`, otherwise the body alone; either way the
+ * timestamp (header, or message.timestamp in the body) must be within the tolerance window.
+ *
+ * Legacy mode: `?secret=` matching VAPI_WEBHOOK_SECRET. Kept for existing assistants,
+ * per-shop switch `webhookLegacySecretEnabled` (default on).
+ */
+
+export const DEFAULT_SIGNATURE_HEADER = "x-vapi-signature";
+export const DEFAULT_TIMESTAMP_HEADER = "x-vapi-timestamp";
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export type WebhookAuthResult =
+  | { ok: true; mode: "signature" | "legacy_secret" }
+  | { ok: false; reason: string };
+
+type WebhookAuthConfig = {
+  secret: string | null;
+  signatureHeader: string;
+  timestampHeader: string;
+  toleranceSeconds: number;
+  legacyEnabled: boolean;
+};
+
+function envOrNull(name: string) {
+  return process.env[name]?.trim() || null;
+}
+
+export function generateSigningSecret() {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+export function normalizeHeaderName(v: unknown, fallback: string) {
+  const s = String(v ?? "").trim().toLowerCase();
+  return /^[a-z0-9-]{1,64}$/.test(s) ? s : fallback;
+}
+
+export function clampTolerance(v: unknown) {
+  const n = Math.floor(Number(v));
+  if (!Number.isFinite(n)) return DEFAULT_TOLERANCE_SECONDS;
+  return Math.max(30, Math.min(3600, n));
+}
+
+/**
+ * Shop settings first; VAPI_WEBHOOK_SIGNING_SECRET is the platform default (also used when the
+ * payload carries no shop, so we can't tell whose secret applies).
+ */
+async function loadConfig(shop: string | null): Promise<WebhookAuthConfig> {
+  const settings = shop
+    ? await db.settings.findUnique({
+        where: { shop },
+        select: {
+          webhookSigningSecretEnc: true,
+          webhookSignatureHeader: true,
+          webhookTimestampHeader: true,
+          webhookToleranceSeconds: true,
+          webhookLegacySecretEnabled: true,
+        },
+      })
+    : null;
+
+  return {
+    secret: decryptSecret(settings?.webhookSigningSecretEnc) ?? envOrNull("VAPI_WEBHOOK_SIGNING_SECRET"),
+    signatureHeader: normalizeHeaderName(settings?.webhookSignatureHeader, DEFAULT_SIGNATURE_HEADER),
+    timestampHeader: normalizeHeaderName(settings?.webhookTimestampHeader, DEFAULT_TIMESTAMP_HEADER),
+    toleranceSeconds: clampTolerance(settings?.webhookToleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS),
+    legacyEnabled: settings?.webhookLegacySecretEnabled ?? true,
+  };
+}
+
+/** Parsed webhook body; only the timestamp fields are read here. */
+export type SignedWebhookPayload = { timestamp?: unknown; message?: { timestamp?: unknown } | null } | null;
+
+// Seconds or milliseconds since epoch, or an ISO date.
+function parseTimestampMs(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  if (Number.isFinite(n) && n > 0) return n < 1e12 ? n * 1000 : n;
+  const d = new Date(String(v));
+  return Number.isNaN(d.getTime()) ? null : d.getTime();
+}
+
+function signatureMatches(secret: string, signed: string, provided: string) {
+  const mac = createHmac("sha256", secret).update(signed, "utf8").digest();
+  // Header may carry several comma/space separated values (e.g. during secret rotation)
+  const candidates = provided
+    .split(/[,\s]+/)
+    .map((x) => x.trim().replace(/^(sha256|v1)=/i, ""))
+    .filter(Boolean);
+
+  for (const c of candidates) {
+    const asHex = /^[0-9a-f]+$/i.test(c) ? Buffer.from(c, "hex") : null;
+    const asB64 = Buffer.from(c, "base64");
+    for (const buf of [asHex, asB64]) {
+      if (buf && buf.length === mac.length && timingSafeEqual(buf, mac)) return true;
+    }
+  }
+  return false;
+}
+
+function legacySecretMatches(request: Request) {
+  const expected = envOrNull("VAPI_WEBHOOK_SECRET");
+  if (!expected) return false;
+  const got = new URL(request.url).searchParams.get("secret") ?? "";
+  const a = Buffer.from(got);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export async function verifyProviderWebhook(args: {
+  request: Request;
+  rawBody: string;
+  payload: SignedWebhookPayload;
+  shop: string | null;
+}): Promise<WebhookAuthResult> {
+  const config = await loadConfig(args.shop);
+  const signature = args.request.headers.get(config.signatureHeader);
+
+  if (signature) {
+    if (!config.secret) return { ok: false, reason: "Signature sent but no signing secret configured" };
+
+    const tsHeader = args.request.headers.get(config.timestampHeader);
+    const bodyTs = args.payload?.message?.timestamp ?? args.payload?.timestamp;
+    const tsMs = parseTimestampMs(tsHeader ?? bodyTs);
+    if (tsMs == null) return { ok: false, reason: "Missing timestamp" };
+    if (Math.abs(Date.now() - tsMs) > config.toleranceSeconds * 1000) {
+      return { ok: false, reason: `Timestamp outside tolerance (${config.toleranceSeconds}s)` };
+    }
+
+    const signed = tsHeader ? `${tsHeader}.${args.rawBody}` : args.rawBody;
+    if (!signatureMatches(config.secret, signed, signature)) return { ok: false, reason: "Invalid signature" };
+    return { ok: true, mode: "signature" };
+  }
+
+  if (new URL(args.request.url).searchParams.has("secret")) {
+    if (!config.legacyEnabled) return { ok: false, reason: "Legacy ?secret= disabled for this shop" };
+    if (!legacySecretMatches(args.request)) return { ok: false, reason: "Invalid legacy secret" };
+    return { ok: true, mode: "legacy_secret" };
+  }
+
+  return { ok: false, reason: `Missing ${config.signatureHeader} header` };
+}
+
+const LOGGED_HEADERS = ["user-agent", "content-type", "x-forwarded-for", "x-real-ip"];
+
+function clientIp(request: Request) {
+  const fwd = request.headers.get("x-forwarded-for");
+  if (fwd) return fwd.split(",")[0].trim().slice(0, 100);
+  return request.headers.get("x-real-ip")?.slice(0, 100) ?? null;
+}
+
+/**
+ * Keeps enough to debug a misconfigured provider; signature values are masked, body truncated.
+ */
+export async function logRejectedWebhook(args: {
+  request: Request;
+  source: string;
+  shop: string | null;
+  reason: string;
+  rawBody: string;
+}) {
+  const headers: Record<string, string> = {};
+  for (const name of LOGGED_HEADERS) {
+    const v = args.request.headers.get(name);
+    if (v) headers[name] = v.slice(0, 300);
+  }
+  for (const [name, v] of args.request.headers.entries()) {
+    if (name.includes("signature") || name.includes("timestamp")) {
+      headers[name] = name.includes("signature") ? `${v.slice(0, 6)}…(${v.length})` : v.slice(0, 100);
+    }
+  }
+
+  try {
+    await db.rejectedWebhook.create({
+      data: {
+        shop: args.shop,
+        source: args.source,
+        reason: args.reason.slice(0, 500),
+        ip: clientIp(args.request),
+        headersJson: JSON.stringify(headers),
+        bodyExcerpt: args.rawBody.slice(0, 2000) || null,
+      },
+    });
+  } catch (e) {
+    console.error("[webhook] failed to log rejection", e instanceof Error ? e.message : String(e));
+  }
+}
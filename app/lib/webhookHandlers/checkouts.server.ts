@@ -0,0 +1,165 @@
+// app/lib/webhookHandlers/checkouts.server.ts
+import db from "../../db.server";
+import { locationFromCheckout } from "../timezone.server";
+import { recordCheckoutConsent } from "../consent.server";
+import { phoneFields } from "../phone.server";
+import type { WebhookHandlerResult } from "./types";
+
+type CheckoutAddress = { first_name?: unknown; firstName?: unknown; last_name?: unknown; lastName?: unknown } | null;
+
+type CheckoutLineItem = {
+  title?: unknown;
+  name?: unknown;
+  quantity?: unknown;
+  sku?: unknown;
+  variant_title?: unknown;
+  variantTitle?: unknown;
+  variant_id?: unknown;
+  variantId?: unknown;
+  price?: unknown;
+  price_set?: { shop_money?: { amount?: unknown; currency_code?: unknown; currencyCode?: unknown } | null } | null;
+} | null;
+
+// checkouts/create and checkouts/update payload (REST), as far as it's read here.
+type CheckoutPayload = {
+  id?: unknown;
+  token?: unknown;
+  email?: unknown;
+  phone?: unknown;
+  total_price?: unknown;
+  totalPrice?: unknown;
+  total_price_set?: { shop_money?: { amount?: unknown } | null } | null;
+  currency?: unknown;
+  currency_code?: unknown;
+  completed_at?: unknown;
+  completedAt?: unknown;
+  shipping_address?: CheckoutAddress;
+  shippingAddress?: CheckoutAddress;
+  billing_address?: CheckoutAddress;
+  billingAddress?: CheckoutAddress;
+  customer?: CheckoutAddress;
+  line_items?: unknown;
+  lineItems?: unknown;
+  items?: unknown;
+} | null;
+
+function toFloat(v: unknown) {
+  const n = Number.parseFloat(String(v ?? ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+function buildCustomerName(c: CheckoutPayload): string | null {
+  const ship = c?.shipping_address ?? c?.shippingAddress ?? null;
+  const bill = c?.billing_address ?? c?.billingAddress ?? null;
+  const cust = c?.customer ?? null;
+
+  const first =
+    ship?.first_name ??
+    ship?.firstName ??
+    bill?.first_name ??
+    bill?.firstName ??
+    cust?.first_name ??
+    cust?.firstName ??
+    null;
+
+  const last =
+    ship?.last_name ??
+    ship?.lastName ??
+    bill?.last_name ??
+    bill?.lastName ??
+    cust?.last_name ??
+    cust?.lastName ??
+    null;
+
+  const full = `${String(first ?? "").trim()} ${String(last ?? "").trim()}`.trim();
+  return full ? full : null;
+}
+
+function buildItemsJson(c: CheckoutPayload): string | null {
+  const arr =
+    c?.line_items ??
+    c?.lineItems ??
+    c?.items ??
+    [];
+
+  if (!Array.isArray(arr) || arr.length === 0) return null;
+
+  const items = (arr as CheckoutLineItem[])
+    .map((it) => ({
+      title: it?.title ?? it?.name ?? null,
+      quantity: Number(it?.quantity ?? 1),
+      sku: it?.sku ?? null,
+      variantTitle: it?.variant_title ?? it?.variantTitle ?? null,
+      variantId: it?.variant_id ?? it?.variantId ?? null,
+      price: it?.price ?? it?.price_set?.shop_money?.amount ?? null,
+      currency:
+        it?.price_set?.shop_money?.currency_code ??
+        it?.price_set?.shop_money?.currencyCode ??
+        null,
+    }))
+    .filter((x) => x.title);
+
+  return items.length ? JSON.stringify(items) : null;
+}
+
+function checkoutFields(c: CheckoutPayload) {
+  const phone = c?.phone ? String(c.phone) : null;
+  const location = locationFromCheckout(c, phone);
+  return {
+    token: c?.token ? String(c.token) : null,
+    email: c?.email ? String(c.email) : null,
+    phone,
+    ...phoneFields(phone, location.countryCode),
+    customerName: buildCustomerName(c),
+    itemsJson: buildItemsJson(c),
+    ...location,
+    raw: JSON.stringify(c),
+  };
+}
+
+/**
+ * checkouts/create and checkouts/update. Both upsert the checkout's details; an existing row's
+ * status only moves forward (OPEN/ABANDONED -> CONVERTED once completed), so a late or replayed
+ * create can't reopen a converted or recovered checkout.
+ */
+export async function handleCheckoutWebhook(
+  shop: string,
+  topic: "CHECKOUTS_CREATE" | "CHECKOUTS_UPDATE",
+  payload: unknown
+): Promise<WebhookHandlerResult> {
+  const c = payload && typeof payload === "object" ? (payload as CheckoutPayload) : null;
+
+  const checkoutId = c?.id != null ? String(c.id) : "";
+  const value = toFloat(c?.total_price ?? c?.totalPrice ?? c?.total_price_set?.shop_money?.amount);
+  const currency = String((c?.currency || c?.currency_code || "USD")).toUpperCase();
+
+  if (!checkoutId || value == null) return { status: "ignored", note: "Invalid payload" };
+
+  const fields = checkoutFields(c);
+  const completedAt = topic === "CHECKOUTS_UPDATE" ? c?.completed_at ?? c?.completedAt ?? null : null;
+
+  await db.checkout.upsert({
+    where: { shop_checkoutId: { shop, checkoutId } },
+    create: {
+      shop,
+      checkoutId,
+      value,
+      currency,
+      status: completedAt ? "CONVERTED" : "OPEN",
+      abandonedAt: null,
+      ...fields,
+    },
+    update: { value, currency, ...fields },
+  });
+
+  if (completedAt) {
+    await db.checkout.updateMany({
+      where: { shop, checkoutId, status: { in: ["OPEN", "ABANDONED"] } },
+      data: { status: "CONVERTED", abandonedAt: null },
+    });
+  }
+
+  await recordCheckoutConsent(shop, checkoutId, c);
+
+  return { status: "processed" };
+}
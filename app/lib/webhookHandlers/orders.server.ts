@@ -0,0 +1,132 @@
+// app/lib/webhookHandlers/orders.server.ts
+import db from "../../db.server";
+import { ACTIVE_CALL_STATUSES } from "../callOutcome.server";
+import { attributeOrder, attributionConfigFromSettings } from "../attribution.server";
+import {
+  propagateOrderNet,
+  recordRefund,
+  syncOrderAdjustments,
+  type OrderAdjustmentPayload,
+  type RefundPayload,
+} from "../revenueAdjustments.server";
+import type { WebhookHandlerResult } from "./types";
+
+// orders/create payload (REST), as far as it's read here; attribution reads its own identifiers.
+type OrderPayload = {
+  id?: unknown;
+  checkout_id?: unknown;
+  checkout_token?: unknown;
+  total_price?: unknown;
+  totalPrice?: unknown;
+  current_total_price?: unknown;
+  total_price_set?: { shop_money?: { amount?: unknown } | null } | null;
+  currency?: unknown;
+  currency_code?: unknown;
+  financial_status?: unknown;
+} | null;
+
+function toFloat(v: unknown) {
+  const n = Number.parseFloat(String(v ?? ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+export async function handleOrderCreate(shop: string, payload: unknown): Promise<WebhookHandlerResult> {
+  const o = payload && typeof payload === "object" ? (payload as OrderPayload) : null;
+
+  const orderId = o?.id != null ? String(o.id) : "";
+  if (!orderId) return { status: "ignored", note: "Invalid payload" };
+
+  const checkoutId = o?.checkout_id != null ? String(o.checkout_id) : null;
+  const checkoutToken = o?.checkout_token != null ? String(o.checkout_token) : null;
+
+  const total =
+    toFloat(
+      o?.total_price ??
+        o?.totalPrice ??
+        o?.current_total_price ??
+        o?.total_price_set?.shop_money?.amount
+    ) ?? null;
+
+  const currency = String((o?.currency || o?.currency_code || "USD")).toUpperCase();
+  const financial = o?.financial_status ? String(o.financial_status) : null;
+
+  await db.order.upsert({
+    where: { shop_orderId: { shop, orderId } },
+    create: {
+      shop,
+      orderId,
+      checkoutId,
+      checkoutToken,
+      total,
+      currency,
+      financial,
+      raw: JSON.stringify(o),
+    },
+    update: {
+      checkoutId,
+      checkoutToken,
+      total,
+      currency,
+      financial,
+      raw: JSON.stringify(o),
+    },
+  });
+
+  // Attribution: find the checkout (checkout_id, token, email, phone) and credit a call within the window.
+  const settings = await db.settings.findUnique({
+    where: { shop },
+    select: { attributionWindowDays: true, attributionRules: true, attributionOutcomes: true },
+  });
+  const attribution = await attributeOrder({
+    shop,
+    orderId,
+    total,
+    payload: o,
+    config: attributionConfigFromSettings(settings ?? {}),
+  });
+
+  await db.order.update({
+    where: { shop_orderId: { shop, orderId } },
+    data: {
+      matchedCheckoutId: attribution.checkoutId,
+      matchRule: attribution.rule,
+      attributedCallJobId: attribution.callJobId,
+    },
+  });
+
+  // Cancel queued/calling jobs for that checkout
+  if (attribution.checkoutId) {
+    await db.callJob.updateMany({
+      where: { shop, checkoutId: attribution.checkoutId, status: { in: ACTIVE_CALL_STATUSES } },
+      data: { status: "CANCELED", outcome: "ORDER_PLACED" },
+    });
+  }
+
+  // Refunds/cancellation already on the order (late or replayed delivery): credit the net amount.
+  await syncOrderAdjustments(shop, o);
+  await propagateOrderNet(shop, orderId);
+
+  return { status: "processed" };
+}
+
+/** orders/updated and orders/cancelled: refunds and cancellation bring the recovered amount to net. */
+export async function handleOrderAdjustments(shop: string, payload: unknown): Promise<WebhookHandlerResult> {
+  const o = payload && typeof payload === "object" ? (payload as OrderAdjustmentPayload) : null;
+  const orderId = o?.id != null ? String(o.id) : "";
+  if (!orderId) return { status: "ignored", note: "Invalid payload" };
+
+  const known = await db.order.findUnique({ where: { shop_orderId: { shop, orderId } }, select: { id: true } });
+  if (!known) return { status: "ignored", note: "Order not recorded" };
+
+  const recorded = await syncOrderAdjustments(shop, o);
+  return recorded ? { status: "processed" } : { status: "ignored", note: "No refund or cancellation changes" };
+}
+
+export async function handleRefundCreate(shop: string, payload: unknown): Promise<WebhookHandlerResult> {
+  const r = payload && typeof payload === "object" ? (payload as RefundPayload) : null;
+  if (r?.id == null || r?.order_id == null) return { status: "ignored", note: "Invalid payload" };
+
+  // Throws (retried) while the order itself hasn't been recorded yet.
+  const recorded = await recordRefund(shop, r);
+  return recorded ? { status: "processed" } : { status: "ignored", note: "Refund already counted" };
+}
@@ -0,0 +1,10 @@
+// app/lib/webhookHandlers/types.ts
+
+/**
+ * "ignored" = well-formed delivery we deliberately did nothing with (wrong topic, unknown job, ...).
+ * Handlers throw on real failures so the inbox marks the event FAILED and keeps it for replay.
+ */
+export type WebhookHandlerResult = {
+  status: "processed" | "ignored";
+  note?: string;
+};
@@ -0,0 +1,346 @@
+// app/lib/webhookHandlers/vapi.server.ts
+import db from "../../db.server";
+import { addSuppression, detectOptOutPhrase, shouldSuppressDisposition } from "../suppression.server";
+import type { ProviderWebhookEvent } from "../providers/types";
+import {
+  LIVE_CALL_STATUSES,
+  classifyEndedReason,
+  statusForLiveUpdate,
+  statusForOutcome,
+} from "../callOutcome.server";
+import type { WebhookHandlerResult } from "./types";
+
+function safeStr(v: unknown, max = 4000) {
+  const s = typeof v === "string" ? v : v == null ? "" : String(v);
+  return s.length > max ? s.slice(0, max) : s;
+}
+
+function csvFromTags(tags: unknown): string | null {
+  if (!Array.isArray(tags)) return null;
+  const clean = tags
+    .map((t) => String(t ?? "").trim())
+    .filter(Boolean)
+    .slice(0, 30);
+  return clean.length ? clean.join(",") : null;
+}
+
+// --- NEW: robust JSON extraction without breaking anything else ---
+function stripCodeFences(s: string) {
+  const t = safeStr(s, 20000).trim();
+  if (!t) return "";
+  if (t.startsWith("```")) {
+    return t.replace(/^```[a-zA-Z]*\n?/, "").replace(/```$/, "").trim();
+  }
+  return t;
+}
+
+function tryParseJsonObject(text: string): Record<string, unknown> | null {
+  const raw = stripCodeFences(text);
+  if (!raw) return null;
+
+  // 1) direct parse
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === "object") return parsed;
+  } catch {
+    // not bare JSON; try the first {...} block below
+  }
+
+  // 2) attempt extract first {...} block
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start >= 0 && end > start) {
+    const chunk = raw.slice(start, end + 1);
+    try {
+      const parsed = JSON.parse(chunk);
+      if (parsed && typeof parsed === "object") return parsed;
+    } catch {
+      // not JSON either
+    }
+  }
+
+  return null;
+}
+
+function clamp01(n: unknown) {
+  const x = typeof n === "number" ? n : Number(n);
+  if (!Number.isFinite(x)) return 0;
+  if (x < 0) return 0;
+  if (x > 1) return 1;
+  return x;
+}
+
+function normalizeDisposition(v: unknown) {
+  const s = String(v ?? "").trim().toLowerCase();
+  if (
+    s === "interested" ||
+    s === "needs_support" ||
+    s === "call_back_later" ||
+    s === "not_interested" ||
+    s === "wrong_number" ||
+    s === "unknown"
+  ) return s;
+  return "unknown";
+}
+
+// What analyzeCallWithOpenAI returns: the cleaned keys, or only `raw` when the reply wasn't JSON.
+type CallAnalysis = {
+  answered?: boolean;
+  sentiment?: string;
+  disposition?: string;
+  tags?: unknown[];
+  shortSummary?: string;
+  reason?: string;
+  nextAction?: string;
+  followUp?: string;
+  buyProbability?: number;
+  churnProbability?: number;
+  confidence?: number;
+  raw?: string;
+};
+
+async function analyzeCallWithOpenAI(args: {
+  transcript: string;
+  endedReason?: string | null;
+  shop: string;
+  checkoutId: string;
+}): Promise<CallAnalysis | null> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) return null;
+
+  // UPGRADE: still JSON, same flow, just richer keys
+  const input = `
+You are analyzing a phone call between a merchant AI agent and a customer who abandoned checkout.
+
+Return STRICT JSON with exactly these keys:
+{
+  "answered": boolean,
+  "sentiment": "positive" | "neutral" | "negative",
+  "disposition": "interested" | "needs_support" | "call_back_later" | "not_interested" | "wrong_number" | "unknown",
+  "tags": string[],
+  "shortSummary": string,
+  "reason": string,
+  "nextAction": string,
+  "followUp": string,
+  "buyProbability": number,
+  "churnProbability": number,
+  "confidence": number
+}
+
+Rules:
+- answered: true only if there is real engagement (not voicemail/no-answer/busy).
+- tags must be short lowercase tokens (e.g. "price", "shipping", "payment", "timing", "trust", "not_interested", "wrong_number", "needs_support", "coupon_request", "call_back_later").
+- shortSummary: one sentence, plain English.
+- reason: 1-2 sentences, factual.
+- nextAction: ONE concrete step the merchant should do next.
+- followUp: text the merchant can send (SMS/email) in a friendly tone.
+- buyProbability, churnProbability, confidence: 0..1.
+
+Context:
+- shop: ${args.shop}
+- checkoutId: ${args.checkoutId}
+- endedReason: ${args.endedReason ?? "-"}
+Transcript:
+${args.transcript}
+`.trim();
+
+  // OpenAI Responses API (unchanged)
+  const r = await fetch("https://api.openai.com/v1/responses", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: "gpt-4o-mini",
+      input,
+      temperature: 0.15,
+      max_output_tokens: 550,
+    }),
+  });
+
+  if (!r.ok) return null;
+
+  const json = await r.json().catch(() => null);
+  if (!json) return null;
+
+  const text =
+    json?.output_text ??
+    json?.output?.[0]?.content?.[0]?.text ??
+    json?.output?.[0]?.content?.[0]?.value ??
+    "";
+
+  const raw = safeStr(text, 8000).trim();
+  if (!raw) return null;
+
+  // Robust parse
+  const parsed = tryParseJsonObject(raw);
+  if (!parsed) return { raw };
+
+  // Normalize + clamp without changing callers
+  const cleaned = {
+    answered: Boolean(parsed.answered),
+    sentiment: String(parsed.sentiment ?? "neutral").toLowerCase(),
+    disposition: normalizeDisposition(parsed.disposition),
+    tags: Array.isArray(parsed.tags) ? parsed.tags : [],
+    shortSummary: safeStr(parsed.shortSummary ?? "", 400),
+    reason: safeStr(parsed.reason ?? "", 2000),
+    nextAction: safeStr(parsed.nextAction ?? "", 500),
+    followUp: safeStr(parsed.followUp ?? "", 1200),
+    buyProbability: clamp01(parsed.buyProbability),
+    churnProbability: clamp01(parsed.churnProbability),
+    confidence: clamp01(parsed.confidence),
+  };
+
+  // fallback sentiment to allowed set
+  if (cleaned.sentiment !== "positive" && cleaned.sentiment !== "neutral" && cleaned.sentiment !== "negative") {
+    cleaned.sentiment = "neutral";
+  }
+
+  return cleaned;
+}
+
+/**
+ * One Vapi server message (also what the mock provider emits). Runs after the inbox has
+ * de-duplicated the delivery, so a resent end-of-call-report doesn't re-run the analysis.
+ */
+export async function handleVapiEvent(event: ProviderWebhookEvent): Promise<WebhookHandlerResult> {
+  if (!event.metadata) return { status: "ignored", note: "No call metadata" };
+
+  const messageType = event.messageType;
+  const { shop, callJobId } = event.metadata;
+  const checkoutIdMeta = event.metadata.checkoutId;
+
+  // status updates (optional)
+  if (event.type === "status-update") {
+    const status = event.status ?? "";
+    // ringing -> CALLING, connected -> IN_PROGRESS; "ended" waits for the end-of-call-report.
+    // Only live jobs move, so a late status-update can't reopen an ended call.
+    await db.callJob.updateMany({
+      where: { id: callJobId, shop, status: { in: LIVE_CALL_STATUSES } },
+      data: {
+        status: statusForLiveUpdate(status) ?? undefined,
+        outcome: safeStr(`VAPI_STATUS: ${status}`, 2000),
+      },
+    });
+
+    return { status: "processed" };
+  }
+
+  // final transcript events
+  if (event.type === "transcript") {
+    const transcript = event.transcript ?? "";
+
+    if (event.transcriptFinal && transcript) {
+      await db.callJob.updateMany({
+        where: { id: callJobId, shop },
+        data: {
+          transcript,
+          outcome: safeStr("VAPI_TRANSCRIPT_FINAL_RECEIVED", 2000),
+        },
+      });
+    }
+
+    return { status: "processed" };
+  }
+
+  // end-of-call-report (main value)
+  if (event.type === "end-of-call-report") {
+    const endedReason = event.endedReason ?? "";
+    const transcript = event.transcript ?? "";
+    const recordingUrl = event.recordingUrl;
+    const callOutcome = classifyEndedReason(endedReason);
+
+    await db.callJob.updateMany({
+      where: { id: callJobId, shop },
+      data: {
+        status: statusForOutcome(callOutcome),
+        endedReason: endedReason || null,
+        transcript: transcript || null,
+        recordingUrl: recordingUrl ? safeStr(recordingUrl, 2000) : null,
+        durationSeconds: event.durationSeconds ?? undefined,
+        costUsd: event.costUsd ?? undefined,
+        outcome: safeStr("VAPI_END_OF_CALL_REPORT", 2000),
+      },
+    });
+
+    // Only real conversations are worth an analysis call (voicemail greetings, rings, errors aren't).
+    const analysis =
+      transcript && callOutcome === "answered"
+        ? await analyzeCallWithOpenAI({
+            transcript,
+            endedReason: endedReason || null,
+            shop,
+            checkoutId: checkoutIdMeta || "",
+          })
+        : null;
+
+    if (analysis) {
+      const sentiment = safeStr(analysis?.sentiment ?? "", 30) || null;
+      const tagsCsv = csvFromTags(analysis?.tags) ?? null;
+
+      // keep your old fields, plus richer JSON inside analysisJson
+      const reason = safeStr(analysis?.reason ?? analysis?.raw ?? "", 2000) || null;
+      const nextAction = safeStr(analysis?.nextAction ?? "", 500) || null;
+      const followUp = safeStr(analysis?.followUp ?? "", 1200) || null;
+
+      const shortSummary = safeStr(analysis?.shortSummary ?? "", 400);
+      const answered = analysis?.answered;
+      const disposition = safeStr(analysis?.disposition ?? "unknown", 30);
+      const buyProbability = analysis?.buyProbability;
+
+      await db.callJob.updateMany({
+        where: { id: callJobId, shop },
+        data: {
+          sentiment,
+          tagsCsv,
+          reason,
+          nextAction,
+          followUp,
+          analysisJson: safeStr(JSON.stringify(analysis), 8000),
+          outcome: safeStr(
+            `${sentiment ?? "unknown"} | ${tagsCsv ?? "-"} | ${shortSummary || reason || "no-reason"} | ${answered === true ? "answered" : answered === false ? "no_answer" : "unknown"} | ${disposition} | buy=${Math.round(clamp01(buyProbability) * 100)}%`,
+            2000
+          ),
+        },
+      });
+    }
+
+    // Do-Not-Call: the customer opted out on an answered call, or analysis says not interested / wrong number.
+    // Voicemail and no-answer transcripts are only the agent (and a greeting), so they never count.
+    const optOutPhrase = callOutcome === "answered" ? detectOptOutPhrase(transcript) : null;
+    const disposition = String(analysis?.disposition ?? "");
+    if (optOutPhrase || shouldSuppressDisposition(disposition)) {
+      const job = await db.callJob.findFirst({
+        where: { id: callJobId, shop },
+        select: { phone: true, checkoutId: true },
+      });
+      const checkout = job
+        ? await db.checkout.findFirst({ where: { shop, checkoutId: job.checkoutId }, select: { email: true } })
+        : null;
+
+      if (job) {
+        await addSuppression({
+          shop,
+          phone: job.phone,
+          email: checkout?.email ?? null,
+          reason: optOutPhrase ? `Customer said "${optOutPhrase}"` : `Call analysis: ${disposition}`,
+          source: optOutPhrase ? "transcript" : "call_analysis",
+          callJobId,
+        });
+      }
+    }
+
+    return { status: "processed" };
+  }
+
+  // default: store event type for debugging
+  await db.callJob.updateMany({
+    where: { id: callJobId, shop },
+    data: {
+      outcome: safeStr(`VAPI_EVENT: ${messageType || "unknown"}`, 2000),
+    },
+  });
+
+  return { status: "processed" };
+}
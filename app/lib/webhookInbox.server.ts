@@ -0,0 +1,172 @@
+// app/lib/webhookInbox.server.ts
+import { createHash } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { parseVapiWebhook } from "./providers/vapi.server";
+import type { ProviderWebhookEvent } from "./providers/types";
+import { handleCheckoutWebhook } from "./webhookHandlers/checkouts.server";
+import { handleOrderAdjustments, handleOrderCreate, handleRefundCreate } from "./webhookHandlers/orders.server";
+import { handleVapiEvent } from "./webhookHandlers/vapi.server";
+import type { WebhookHandlerResult } from "./webhookHandlers/types";
+
+/**
+ * Webhook inbox. Every delivery is stored under (source, externalId) before it is handled:
+ * - Shopify: X-Shopify-Webhook-Id (same id on every retry of one event)
+ * - Vapi: derived from call id + message type (see vapiMessageId)
+ * A delivery whose event is already PROCESSED/IGNORED (or being processed) is acknowledged
+ * without running the handler again. FAILED events are retried by the sender's next delivery
+ * or replayed from the admin (app.webhook-events).
+ */
+
+export type WebhookSource = "shopify" | "vapi";
+
+// A PROCESSING row older than this is assumed to belong to a crashed request.
+const STALE_PROCESSING_MS = 2 * 60 * 1000;
+
+function errorMessage(e: unknown) {
+  return String(e instanceof Error ? e.message : e ?? "Unknown error").slice(0, 2000);
+}
+
+function sha256(s: string) {
+  return createHash("sha256").update(s, "utf8").digest("hex");
+}
+
+/**
+ * Vapi has no delivery id. One end-of-call-report / status per call is the natural key;
+ * transcripts use the message timestamp, anything else the body hash.
+ */
+export function vapiMessageId(event: ProviderWebhookEvent | null, rawBody: string) {
+  const callId = event?.providerCallId;
+  if (!callId || !event) return `body:${sha256(rawBody)}`;
+  if (event.type === "end-of-call-report") return `${callId}:end-of-call-report`;
+  if (event.type === "status-update") return `${callId}:status:${event.status ?? "unknown"}`;
+
+  const ts = (event.raw as { message?: { timestamp?: unknown } | null } | null)?.message?.timestamp;
+  return ts != null ? `${callId}:${event.messageType}:${ts}` : `${callId}:${sha256(rawBody)}`;
+}
+
+export async function receiveWebhookEvent(args: {
+  source: WebhookSource;
+  externalId: string;
+  topic: string;
+  shop: string | null;
+  payload: string;
+}) {
+  try {
+    const event = await db.webhookEvent.create({
+      data: {
+        source: args.source,
+        externalId: args.externalId.slice(0, 300),
+        topic: args.topic,
+        shop: args.shop,
+        payload: args.payload,
+      },
+    });
+    return { event, duplicate: false };
+  } catch (e) {
+    if (!(e instanceof Prisma.PrismaClientKnownRequestError) || e.code !== "P2002") throw e;
+  }
+
+  const existing = await db.webhookEvent.update({
+    where: { source_externalId: { source: args.source, externalId: args.externalId.slice(0, 300) } },
+    data: { duplicates: { increment: 1 } },
+  });
+
+  const stale = Date.now() - existing.updatedAt.getTime() > STALE_PROCESSING_MS;
+  const done =
+    existing.status === "PROCESSED" || existing.status === "IGNORED" || (existing.status === "PROCESSING" && !stale);
+
+  return { event: existing, duplicate: done };
+}
+
+async function dispatch(event: { source: string; topic: string; shop: string | null; payload: string }) {
+  const payload = JSON.parse(event.payload);
+
+  if (event.source === "shopify") {
+    if (!event.shop) return { status: "ignored", note: "No shop" } satisfies WebhookHandlerResult;
+    if (event.topic === "CHECKOUTS_CREATE" || event.topic === "CHECKOUTS_UPDATE") {
+      return handleCheckoutWebhook(event.shop, event.topic, payload);
+    }
+    if (event.topic === "ORDERS_CREATE") return handleOrderCreate(event.shop, payload);
+    if (event.topic === "ORDERS_UPDATED" || event.topic === "ORDERS_CANCELLED") {
+      return handleOrderAdjustments(event.shop, payload);
+    }
+    if (event.topic === "REFUNDS_CREATE") return handleRefundCreate(event.shop, payload);
+  }
+
+  if (event.source === "vapi") {
+    const parsed = parseVapiWebhook(payload);
+    if (parsed) return handleVapiEvent(parsed);
+  }
+
+  return { status: "ignored", note: `No handler for ${event.source}/${event.topic}` } satisfies WebhookHandlerResult;
+}
+
+/**
+ * Claims the event (RECEIVED/FAILED, or a stale PROCESSING) and runs its handler.
+ * Returns "skipped" when someone else holds the claim.
+ */
+export async function processWebhookEvent(eventId: string) {
+  const claimed = await db.webhookEvent.updateMany({
+    where: {
+      id: eventId,
+      OR: [
+        { status: { in: ["RECEIVED", "FAILED"] } },
+        { status: "PROCESSING", updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+      ],
+    },
+    data: { status: "PROCESSING", attempts: { increment: 1 } },
+  });
+  if (claimed.count === 0) return { status: "skipped" as const };
+
+  const event = await db.webhookEvent.findUniqueOrThrow({ where: { id: eventId } });
+
+  try {
+    const result = await dispatch(event);
+    await db.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: result.status === "ignored" ? "IGNORED" : "PROCESSED",
+        error: result.note ?? null,
+        processedAt: new Date(),
+      },
+    });
+    return { status: result.status };
+  } catch (e) {
+    const error = errorMessage(e);
+    console.error(`[webhook-inbox] ${event.source}/${event.topic} ${event.externalId} failed`, error);
+    await db.webhookEvent.update({ where: { id: eventId }, data: { status: "FAILED", error } });
+    return { status: "failed" as const, error };
+  }
+}
+
+/**
+ * Route helper: store, skip duplicates, process. 500 on failure so the sender retries
+ * (the retry finds the FAILED row and processes it again).
+ */
+export async function ingestWebhook(args: {
+  source: WebhookSource;
+  externalId: string;
+  topic: string;
+  shop: string | null;
+  payload: string;
+}) {
+  const { event, duplicate } = await receiveWebhookEvent(args);
+  if (duplicate) return new Response("Duplicate", { status: 200 });
+
+  const result = await processWebhookEvent(event.id);
+  if (result.status === "failed") return new Response("Processing failed", { status: 500 });
+  return new Response("OK", { status: 200 });
+}
+
+/**
+ * Admin replay: re-runs the stored payload through the current handlers, whatever the last status was.
+ */
+export async function replayWebhookEvent(shop: string, eventId: string) {
+  const reset = await db.webhookEvent.updateMany({
+    where: { id: eventId, shop, status: { not: "PROCESSING" } },
+    data: { status: "RECEIVED", error: null },
+  });
+  if (reset.count === 0) return { status: "skipped" as const };
+  return processWebhookEvent(eventId);
+}
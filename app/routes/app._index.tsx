@@ -1,21 +1,32 @@
 // app/routes/app._index.tsx
 import * as React from "react";
-import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
-import { Link, useLoaderData, useRouteError } from "react-router";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, Link, useLoaderData, useRevalidator, useRouteError, useSearchParams } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { ensureSettings } from "../callRecovery.server";
+import { LIVE_CALL_STATUSES } from "../lib/callOutcome.server";
+import { hasBudgetCaps, loadBudgetState, type BudgetState } from "../lib/budget.server";
+import { attributionConfigFromSettings } from "../lib/attribution.server";
 import {
-  ensureSettings,
-  markAbandonedByDelay,
-  syncAbandonedCheckoutsFromShopify,
-  enqueueCallJobs,
-} from "../callRecovery.server";
+  pickAttributionModel,
+  revenueByChannel,
+  type AttributionModel,
+  type TouchChannel,
+} from "../lib/touchpoints.server";
+import {
+  latestBackgroundTask,
+  queueBackgroundTask,
+  startBackgroundTask,
+  type BackgroundTaskView,
+} from "../lib/backgroundTasks.server";
 
 type LoaderData = {
   shop: string;
   currency: string;
-  vapiConfigured: boolean;
+  providerName: string;
+  providerConfigured: boolean;
   stats: {
     abandonedCount7d: number;
     convertedCount7d: number;
@@ -24,6 +35,20 @@ type LoaderData = {
     queuedCalls: number;
     callingNow: number;
     completedCalls7d: number;
+    // ended calls in the last 7 days, by outcome
+    outcomes7d: { answered: number; noAnswer: number; voicemail: number; busy: number; failed: number };
+  };
+  syncTask: BackgroundTaskView | null;
+  // Budget caps: usage this day/month vs the caps in Settings, jobs held until the next period
+  budget: BudgetState & { enabled: boolean; throttledJobs: number };
+  // Recovered revenue (last 30 days): as ordered vs after refunds/cancellations, plus recent adjustments
+  revenue: {
+    gross30d: number;
+    net30d: number;
+    adjustments: Array<{ id: string; orderId: string; kind: string; netBefore: number; netAfter: number; note: string | null; occurredAt: string }>;
+    // net recovered revenue split across the touches before each purchase (?model= overrides Settings)
+    model: AttributionModel;
+    byChannel: Record<TouchChannel | "untracked", number>;
   };
 };
 
@@ -79,28 +104,17 @@ function StatCard(props: { label: string; value: any; sub: string; icon?: string
 }
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin, session } = await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
   const shop = session.shop;
 
+  // Read-only: checkout sync + enqueue run as background tasks (cron, or "Sync now").
   const settings = await ensureSettings(shop);
 
-  await syncAbandonedCheckoutsFromShopify({ admin, shop, limit: 50 });
-  await markAbandonedByDelay(shop, settings.delayMinutes);
-
-  await enqueueCallJobs({
-    shop,
-    enabled: Boolean(settings.enabled),
-    minOrderValue: Number(settings.minOrderValue ?? 0),
-    callWindowStart: String(settings.callWindowStart ?? "09:00"),
-    callWindowEnd: String(settings.callWindowEnd ?? "19:00"),
-    delayMinutes: Number(settings.delayMinutes ?? 30),
-    maxAttempts: Number(settings.maxAttempts ?? 2),
-    retryMinutes: Number(settings.retryMinutes ?? 180),
-  });
-
-  const { isVapiConfiguredFromEnv } = await import("../lib/callInsights.server");
+  const { getCallProvider } = await import("../lib/providers/index.server");
+  const provider = getCallProvider();
 
   const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+  const since30d = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
 
   const [
     abandonedCount7d,
@@ -110,20 +124,60 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     queuedCalls,
     callingNow,
     completedCalls7d,
+    outcomeGroups,
+    syncTask,
+    budget,
+    throttledJobs,
+    recoveredAgg,
+    recentAdjustments,
   ] = await Promise.all([
     db.checkout.count({ where: { shop, status: "ABANDONED", abandonedAt: { gte: since } } }),
     db.checkout.count({ where: { shop, status: "CONVERTED", updatedAt: { gte: since } } }),
     db.checkout.count({ where: { shop, status: "OPEN", createdAt: { gte: since } } }),
     db.checkout.aggregate({ where: { shop, status: "ABANDONED", abandonedAt: { gte: since } }, _sum: { value: true } }),
     db.callJob.count({ where: { shop, status: "QUEUED" } }),
-    db.callJob.count({ where: { shop, status: "CALLING" } }),
+    db.callJob.count({ where: { shop, status: { in: LIVE_CALL_STATUSES } } }),
     db.callJob.count({ where: { shop, status: "COMPLETED", createdAt: { gte: since } } }),
+    db.callJob.groupBy({
+      by: ["status"],
+      where: { shop, createdAt: { gte: since }, status: { in: ["COMPLETED", "NO_ANSWER", "VOICEMAIL", "BUSY", "FAILED"] } },
+      _count: { _all: true },
+    }),
+    latestBackgroundTask(shop, "sync_checkouts"),
+    loadBudgetState(shop, settings),
+    db.callJob.count({ where: { shop, status: "THROTTLED" } }),
+    db.checkout.aggregate({
+      where: { shop, status: "RECOVERED", recoveredAt: { gte: since30d } },
+      _sum: { recoveredAmount: true, recoveredGrossAmount: true },
+    }),
+    db.revenueAdjustment.findMany({ where: { shop }, orderBy: { occurredAt: "desc" }, take: 20 }),
   ]);
 
+  // Only adjustments to orders that were credited to a call matter here.
+  const creditedOrders = new Set(
+    (
+      await db.checkout.findMany({
+        where: { shop, recoveredOrderId: { in: recentAdjustments.map((a) => a.orderId) } },
+        select: { recoveredOrderId: true },
+      })
+    ).map((c) => c.recoveredOrderId)
+  );
+
+  const outcomeCount = (status: string) => outcomeGroups.find((g) => g.status === status)?._count._all ?? 0;
+
+  const model = pickAttributionModel(new URL(request.url).searchParams.get("model") ?? settings.attributionModel);
+  const byChannel = await revenueByChannel(shop, {
+    from: since30d,
+    to: new Date(),
+    model,
+    config: attributionConfigFromSettings(settings),
+  });
+
   return {
     shop,
     currency: settings.currency || "USD",
-    vapiConfigured: isVapiConfiguredFromEnv(),
+    providerName: provider.name,
+    providerConfigured: await provider.isConfigured(shop),
     stats: {
       abandonedCount7d,
       convertedCount7d,
@@ -132,12 +186,200 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       queuedCalls,
       callingNow,
       completedCalls7d,
+      outcomes7d: {
+        answered: outcomeCount("COMPLETED"),
+        noAnswer: outcomeCount("NO_ANSWER"),
+        voicemail: outcomeCount("VOICEMAIL"),
+        busy: outcomeCount("BUSY"),
+        failed: outcomeCount("FAILED"),
+      },
+    },
+    syncTask,
+    budget: { ...budget, enabled: hasBudgetCaps(budget.caps), throttledJobs },
+    revenue: {
+      gross30d: Number(recoveredAgg._sum.recoveredGrossAmount ?? recoveredAgg._sum.recoveredAmount ?? 0),
+      net30d: Number(recoveredAgg._sum.recoveredAmount ?? 0),
+      adjustments: recentAdjustments
+        .filter((a) => creditedOrders.has(a.orderId))
+        .slice(0, 5)
+        .map((a) => ({
+          id: a.id,
+          orderId: a.orderId,
+          kind: a.kind,
+          netBefore: a.netBefore,
+          netAfter: a.netAfter,
+          note: a.note,
+          occurredAt: a.occurredAt.toISOString(),
+        })),
+      model,
+      byChannel,
     },
   } satisfies LoaderData;
 };
 
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+
+  if (intent === "sync_now") {
+    const task = await queueBackgroundTask({ shop, kind: "sync_checkouts", trigger: "manual" });
+    if (task.status === "QUEUED") startBackgroundTask(task);
+  }
+
+  return new Response(null, { status: 303, headers: { Location: "/app" } });
+};
+
+function UsageMeter(props: { label: string; used: number; cap: number | null; format: (n: number) => string; resets: string }) {
+  const pct = props.cap ? Math.min(100, Math.round((props.used / props.cap) * 100)) : 0;
+  const color = !props.cap ? "rgba(17,24,39,0.25)" : pct >= 100 ? "#dc2626" : pct >= 80 ? "#d97706" : "#059669";
+
+  return (
+    <div style={{ display: "grid", gap: 6, minWidth: 0 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "baseline" }}>
+        <div style={{ fontWeight: 950, fontSize: 12, color: "rgba(17,24,39,0.62)" }}>{props.label}</div>
+        <div style={{ fontWeight: 1000, fontSize: 13, color: "rgba(17,24,39,0.90)", whiteSpace: "nowrap" }}>
+          {props.format(props.used)}
+          <span style={{ fontWeight: 850, color: "rgba(17,24,39,0.45)" }}>
+            {" "}
+            / {props.cap != null ? props.format(props.cap) : "no cap"}
+          </span>
+        </div>
+      </div>
+      <div style={{ height: 8, borderRadius: 999, background: "rgba(0,0,0,0.06)", overflow: "hidden" }}>
+        <div style={{ width: `${props.cap ? Math.max(pct, 2) : 0}%`, height: "100%", background: color }} />
+      </div>
+      <div style={{ fontWeight: 850, fontSize: 11, color: "rgba(17,24,39,0.45)" }}>Resets {props.resets}</div>
+    </div>
+  );
+}
+
+const CHANNEL_LABELS: Record<TouchChannel | "untracked", { label: string; color: string }> = {
+  call: { label: "Calls", color: "#2563eb" },
+  sms: { label: "SMS", color: "#059669" },
+  email: { label: "Email", color: "#d97706" },
+  link: { label: "Recovery links", color: "#7c3aed" },
+  untracked: { label: "Untracked", color: "rgba(17,24,39,0.25)" },
+};
+
+const MODEL_LABELS: Record<AttributionModel, string> = {
+  last_touch: "Last touch",
+  first_touch: "First touch",
+  linear: "Linear",
+  time_decay: "Time decay",
+};
+
+function ChannelSplit(props: {
+  model: AttributionModel;
+  byChannel: Record<TouchChannel | "untracked", number>;
+  money: (n: number) => string;
+  onModel: (m: AttributionModel) => void;
+}) {
+  const entries = (Object.keys(CHANNEL_LABELS) as Array<TouchChannel | "untracked">)
+    .map((k) => ({ key: k, amount: props.byChannel[k] ?? 0, ...CHANNEL_LABELS[k] }))
+    .filter((e) => e.key !== "untracked" || e.amount > 0);
+  const total = entries.reduce((s, e) => s + e.amount, 0);
+
+  return (
+    <div
+      style={{
+        marginTop: 12,
+        border: "1px solid rgba(0,0,0,0.08)",
+        borderRadius: 16,
+        background: "white",
+        padding: 14,
+        boxShadow: "0 1px 0 rgba(0,0,0,0.03)",
+        display: "grid",
+        gap: 10,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+        <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Recovered revenue by channel (net, 30 days)</div>
+        <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+          {(Object.keys(MODEL_LABELS) as AttributionModel[]).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => props.onModel(m)}
+              style={{
+                padding: "6px 10px",
+                borderRadius: 10,
+                border: "1px solid rgba(0,0,0,0.10)",
+                background: m === props.model ? "rgba(59,130,246,0.08)" : "white",
+                color: m === props.model ? "rgba(30,58,138,0.95)" : "rgba(17,24,39,0.80)",
+                fontWeight: 1000,
+                fontSize: 12,
+                cursor: "pointer",
+              }}
+            >
+              {MODEL_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ display: "flex", height: 10, borderRadius: 999, background: "rgba(0,0,0,0.06)", overflow: "hidden" }}>
+        {total > 0
+          ? entries.map((e) => (
+              <div key={e.key} title={e.label} style={{ width: `${(e.amount / total) * 100}%`, background: e.color }} />
+            ))
+          : null}
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: `repeat(${entries.length}, minmax(0, 1fr))`, gap: 12 }}>
+        {entries.map((e) => (
+          <div key={e.key} style={{ display: "grid", gap: 2, minWidth: 0 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 6, fontWeight: 950, fontSize: 12, color: "rgba(17,24,39,0.62)" }}>
+              <span style={{ width: 8, height: 8, borderRadius: 999, background: e.color }} />
+              {e.label}
+            </div>
+            <div style={{ fontWeight: 1000, fontSize: 16, color: "rgba(17,24,39,0.90)" }}>{props.money(e.amount)}</div>
+            <div style={{ fontWeight: 850, fontSize: 11, color: "rgba(17,24,39,0.45)" }}>
+              {total > 0 ? `${Math.round((e.amount / total) * 100)}%` : "—"}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function syncLabel(t: BackgroundTaskView | null) {
+  if (!t) return { text: "Not synced yet", color: "rgba(17,24,39,0.75)", title: "Checkout sync" };
+  if (t.status === "QUEUED" || t.status === "RUNNING") {
+    return { text: `Syncing ${t.progress}% · ${t.stage ?? "Queued"}`, color: "#1e3a8a", title: t.stage ?? "" };
+  }
+  if (t.status === "FAILED") return { text: "Sync failed", color: "#7f1d1d", title: t.error ?? "" };
+  const r = t.result ?? {};
+  return {
+    text: `Synced ${Number(r.synced ?? 0)} · ${Number(r.enqueued ?? 0)} enqueued`,
+    color: "#065f46",
+    title: `Last sync (${t.trigger}) ${t.finishedAt ? new Date(t.finishedAt).toLocaleString() : ""}`,
+  };
+}
+
 export default function DashboardIndex() {
-  const { shop, stats, currency, vapiConfigured } = useLoaderData<typeof loader>();
+  const { shop, stats, currency, providerName, providerConfigured, syncTask, budget, revenue } = useLoaderData<typeof loader>();
+  const revalidator = useRevalidator();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const syncing = syncTask?.status === "QUEUED" || syncTask?.status === "RUNNING";
+  const sync = syncLabel(syncTask);
+
+  React.useEffect(() => {
+    if (!syncing) return;
+    const id = window.setInterval(() => revalidator.revalidate(), 2000);
+    return () => window.clearInterval(id);
+  }, [syncing, revalidator]);
+
+  const ended =
+    stats.outcomes7d.answered +
+    stats.outcomes7d.noAnswer +
+    stats.outcomes7d.voicemail +
+    stats.outcomes7d.busy +
+    stats.outcomes7d.failed;
+  const answerRate = ended ? `${Math.round((stats.outcomes7d.answered / ended) * 100)}%` : "-";
 
   const money = (n: number) =>
     new Intl.NumberFormat(undefined, { style: "currency", currency, maximumFractionDigits: 2 }).format(n);
@@ -163,9 +405,47 @@ export default function DashboardIndex() {
               whiteSpace: "nowrap",
             }}
           >
-            Provider: {vapiConfigured ? "Vapi ready" : "Sim mode"}
+            Provider:{" "}
+            {providerName === "mock" ? "Mock (local)" : providerConfigured ? "Vapi ready" : "Vapi not configured"}
+          </div>
+
+          <div
+            title={sync.title}
+            style={{
+              padding: "6px 10px",
+              borderRadius: 999,
+              border: "1px solid rgba(0,0,0,0.10)",
+              background: "rgba(0,0,0,0.03)",
+              fontWeight: 950,
+              fontSize: 12,
+              color: sync.color,
+              whiteSpace: "nowrap",
+            }}
+          >
+            {sync.text}
           </div>
 
+          <Form method="post">
+            <input type="hidden" name="intent" value="sync_now" />
+            <button
+              type="submit"
+              disabled={syncing}
+              style={{
+                fontWeight: 1000,
+                fontSize: 13,
+                padding: "10px 12px",
+                borderRadius: 12,
+                border: "1px solid rgba(0,0,0,0.10)",
+                background: "white",
+                color: "rgba(17,24,39,0.90)",
+                cursor: syncing ? "default" : "pointer",
+                opacity: syncing ? 0.6 : 1,
+              }}
+            >
+              Sync now
+            </button>
+          </Form>
+
           <Link
             to={withSearch("/app/checkouts")}
             style={{
@@ -209,6 +489,119 @@ export default function DashboardIndex() {
         <StatCard label="Calling now" value={stats.callingNow} sub="Live calls in progress" icon="•" />
       </div>
 
+      <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "repeat(6, minmax(0, 1fr))", gap: 12 }}>
+        <StatCard label="Answered" value={stats.outcomes7d.answered} sub="Conversations, last 7 days" icon="✓" />
+        <StatCard label="No answer" value={stats.outcomes7d.noAnswer} sub="Rang out, last 7 days" icon="…" />
+        <StatCard label="Voicemail" value={stats.outcomes7d.voicemail} sub="Reached voicemail" icon="✉" />
+        <StatCard label="Busy" value={stats.outcomes7d.busy} sub="Line busy" icon="⏸" />
+        <StatCard label="Failed" value={stats.outcomes7d.failed} sub="Provider / dial errors" icon="!" />
+        <StatCard label="Answer rate" value={answerRate} sub="Answered / ended calls" icon="%" />
+      </div>
+
+      <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "repeat(3, minmax(0, 1fr))", gap: 12 }}>
+        <StatCard label="Recovered (gross)" value={money(revenue.gross30d)} sub="Order totals, last 30 days" icon="€" />
+        <StatCard label="Recovered (net)" value={money(revenue.net30d)} sub="After refunds & cancellations" icon="€" />
+        <StatCard
+          label="Refunded / cancelled"
+          value={money(Math.max(0, revenue.gross30d - revenue.net30d))}
+          sub={revenue.gross30d ? `${Math.round(((revenue.gross30d - revenue.net30d) / revenue.gross30d) * 100)}% of gross` : "Nothing recovered yet"}
+          icon="↩"
+        />
+      </div>
+
+      <ChannelSplit
+        model={revenue.model}
+        byChannel={revenue.byChannel}
+        money={money}
+        onModel={(m) => {
+          // Keeps the embedded-app params (shop, host, ...) in the URL.
+          const next = new URLSearchParams(searchParams);
+          next.set("model", m);
+          setSearchParams(next);
+        }}
+      />
+
+      {revenue.adjustments.length ? (
+        <div
+          style={{
+            marginTop: 12,
+            border: "1px solid rgba(0,0,0,0.08)",
+            borderRadius: 16,
+            background: "white",
+            padding: 14,
+            boxShadow: "0 1px 0 rgba(0,0,0,0.03)",
+          }}
+        >
+          <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Recent revenue adjustments</div>
+          <div style={{ marginTop: 8, display: "grid", gap: 6 }}>
+            {revenue.adjustments.map((a) => (
+              <div
+                key={a.id}
+                style={{ display: "flex", justifyContent: "space-between", gap: 10, fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.70)" }}
+              >
+                <div style={{ minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={a.note ?? ""}>
+                  {a.kind === "cancel" ? "Cancelled" : "Refund"} · order {a.orderId}
+                  {a.note ? ` · ${a.note}` : ""}
+                </div>
+                <div style={{ whiteSpace: "nowrap" }}>
+                  {money(a.netBefore)} → <span style={{ color: "#7f1d1d" }}>{money(a.netAfter)}</span> ·{" "}
+                  {new Date(a.occurredAt).toLocaleDateString()}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      <div
+        style={{
+          marginTop: 12,
+          border: "1px solid rgba(0,0,0,0.08)",
+          borderRadius: 16,
+          background: "white",
+          padding: 14,
+          boxShadow: "0 1px 0 rgba(0,0,0,0.03)",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap", alignItems: "baseline" }}>
+          <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Usage this period</div>
+          <div style={{ fontWeight: 900, fontSize: 12, color: budget.throttledJobs ? "#92400e" : "rgba(17,24,39,0.55)" }}>
+            {!budget.enabled ? (
+              <Link to={withSearch("/app/settings")} style={{ color: "inherit" }}>
+                No budget caps set
+              </Link>
+            ) : budget.throttledJobs ? (
+              `${budget.throttledJobs} call${budget.throttledJobs === 1 ? "" : "s"} held until the next period`
+            ) : (
+              "Within budget"
+            )}
+          </div>
+        </div>
+        <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "repeat(3, minmax(0, 1fr))", gap: 16 }}>
+          <UsageMeter
+            label="Calls today"
+            used={budget.usage.callsToday}
+            cap={budget.caps.callsPerDay}
+            format={(n) => String(n)}
+            resets={new Date(budget.periods.nextDay).toLocaleString()}
+          />
+          <UsageMeter
+            label="Call minutes this month"
+            used={budget.usage.minutesThisMonth}
+            cap={budget.caps.minutesPerMonth}
+            format={(n) => `${n} min`}
+            resets={new Date(budget.periods.nextMonth).toLocaleDateString()}
+          />
+          <UsageMeter
+            label="Spend this month"
+            used={budget.usage.spendThisMonth}
+            cap={budget.caps.spendPerMonth}
+            format={(n) => new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(n)}
+            resets={new Date(budget.periods.nextMonth).toLocaleDateString()}
+          />
+        </div>
+      </div>
+
       <div style={{ marginTop: 14, display: "grid", gap: 10 }}>
         <div
           style={{
@@ -385,7 +385,7 @@ export default function SettingsRoute() {
                   </label>
 
                   <label style={labelStyle}>
-                    <div>Max call attempts</div>
+                    <div>Max calls per checkout</div>
                     <input name="maxAttempts" defaultValue={settings.maxAttempts} style={inputStyle} />
                   </label>
 
@@ -1,17 +1,23 @@
 // app/routes/app.calls.tsx
 import * as React from "react";
 import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
-import { Form, useLoaderData, useRevalidator, useRouteError } from "react-router";
+import { Form, Link, useLoaderData, useRevalidator, useRouteError, useSearchParams } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { ensureSettings } from "../callRecovery.server";
+import { getCallProvider } from "../lib/providers/index.server";
+import { dialJob, runDueCallJobs } from "../lib/dialer.server";
+import { LIVE_CALL_STATUSES } from "../lib/callOutcome.server";
+import { queuePositions } from "../lib/callConcurrency.server";
+import { followUpMessageId, recordMessageSent } from "../lib/touchpoints.server";
+import { recoveryLinkUrl } from "../lib/recoveryLinks.server";
 import {
-  ensureSettings,
-  markAbandonedByDelay,
-  syncAbandonedCheckoutsFromShopify,
-  enqueueCallJobs,
-} from "../callRecovery.server";
-import { createVapiCallForJob } from "../callProvider.server";
+  latestBackgroundTask,
+  queueBackgroundTask,
+  startBackgroundTask,
+  type BackgroundTaskView,
+} from "../lib/backgroundTasks.server";
 
 function safeStr(v: any) {
   return v == null ? "" : String(v);
@@ -23,6 +29,16 @@ function formatWhen(iso: string) {
   return d.toLocaleString();
 }
 
+function formatLocalWhen(iso: string, timeZone: string | null) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime()) || !timeZone) return null;
+  try {
+    return d.toLocaleString(undefined, { timeZone, dateStyle: "short", timeStyle: "short" });
+  } catch {
+    return null;
+  }
+}
+
 function Pill(props: { children: any; tone?: "neutral" | "green" | "blue" | "amber" | "red"; title?: string }) {
   const tone = props.tone ?? "neutral";
   const t =
@@ -59,8 +75,19 @@ function Pill(props: { children: any; tone?: "neutral" | "green" | "blue" | "amb
 
 function StatusPill({ status }: { status: string }) {
   const s = safeStr(status).toUpperCase();
-  const tone = s === "COMPLETED" ? "green" : s === "CALLING" ? "blue" : s === "QUEUED" ? "amber" : s === "FAILED" ? "red" : "neutral";
-  return <Pill tone={tone as any}>{s}</Pill>;
+  const tone =
+    s === "COMPLETED"
+      ? "green"
+      : s === "CALLING" || s === "IN_PROGRESS"
+      ? "blue"
+      : s === "QUEUED" || s === "THROTTLED" || s === "NO_ANSWER" || s === "VOICEMAIL" || s === "BUSY"
+      ? "amber"
+      : s === "FAILED"
+      ? "red"
+      : "neutral";
+  const label =
+    s === "COMPLETED" ? "ANSWERED" : s === "IN_PROGRESS" ? "IN PROGRESS" : s === "NO_ANSWER" ? "NO ANSWER" : s;
+  return <Pill tone={tone} title={s}>{label}</Pill>;
 }
 
 type CallRow = {
@@ -68,6 +95,7 @@ type CallRow = {
   checkoutId: string;
   status: string;
   scheduledFor: string;
+  timezone: string | null;
   createdAt: string;
   attempts: number;
   providerCallId: string | null;
@@ -76,55 +104,67 @@ type CallRow = {
   summary: string | null;
   nextAction: string | null;
   followUp: string | null;
+  followUpSent: Array<"sms" | "email">; // channels the follow-up was marked sent on
+  recoveryLink: { url: string; clicks: number; lastClickedAt: string | null } | null;
   recordingUrl: string | null;
+  // QUEUED only: place in this shop's dial order, and why the last run left it waiting
+  queuePosition: number | null;
+  waitingReason: string | null;
+  priority: number;
+  priorityReason: string | null;
 };
 
+type CallSort = "created" | "priority";
+
 type LoaderData = {
   shop: string;
-  vapiConfigured: boolean;
-  stats: { queued: number; calling: number; completed7d: number };
+  providerName: string;
+  providerConfigured: boolean;
+  stats: {
+    queued: number;
+    calling: number;
+    maxConcurrentCalls: number;
+    completed7d: number;
+    noAnswer7d: number;
+    voicemail7d: number;
+    busy7d: number;
+    failed7d: number;
+  };
   rows: CallRow[];
+  sort: CallSort;
+  syncTask: BackgroundTaskView | null;
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { admin, session } = await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
   const shop = session.shop;
 
-  const settings = await ensureSettings(shop);
-
-  await syncAbandonedCheckoutsFromShopify({ admin, shop, limit: 50 });
-  await markAbandonedByDelay(shop, settings.delayMinutes);
-
-  await enqueueCallJobs({
-    shop,
-    enabled: Boolean(settings.enabled),
-    minOrderValue: Number(settings.minOrderValue ?? 0),
-    callWindowStart: String(settings.callWindowStart ?? "09:00"),
-    callWindowEnd: String(settings.callWindowEnd ?? "19:00"),
-    delayMinutes: Number(settings.delayMinutes ?? 30),
-    maxAttempts: Number(settings.maxAttempts ?? 2),
-    retryMinutes: Number(settings.retryMinutes ?? 180),
-  });
-
+  // Read-only: checkout sync + enqueue run as background tasks (cron, or "Sync now" below).
+  const sort: CallSort = new URL(request.url).searchParams.get("sort") === "priority" ? "priority" : "created";
   const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
 
-  const [queued, calling, completed7d, jobs] = await Promise.all([
+  const [queued, calling, outcomeGroups, jobs, syncTask, positions, settings] = await Promise.all([
     db.callJob.count({ where: { shop, status: "QUEUED" } }),
-    db.callJob.count({ where: { shop, status: "CALLING" } }),
-    db.callJob.count({ where: { shop, status: "COMPLETED", createdAt: { gte: since } } }),
+    db.callJob.count({ where: { shop, status: { in: LIVE_CALL_STATUSES } } }),
+    db.callJob.groupBy({
+      by: ["status"],
+      where: { shop, createdAt: { gte: since }, status: { in: ["COMPLETED", "NO_ANSWER", "VOICEMAIL", "BUSY", "FAILED"] } },
+      _count: { _all: true },
+    }),
     db.callJob.findMany({
       where: { shop },
-      orderBy: { createdAt: "desc" },
+      orderBy: sort === "priority" ? [{ priority: "desc" }, { createdAt: "desc" }] : { createdAt: "desc" },
       take: 80,
-      select: { id: true, checkoutId: true, status: true, scheduledFor: true, createdAt: true, attempts: true, providerCallId: true, recordingUrl: true },
+      select: { id: true, checkoutId: true, status: true, scheduledFor: true, timezone: true, createdAt: true, attempts: true, providerCallId: true, recordingUrl: true, outcome: true, priority: true, priorityReason: true },
     }),
+    latestBackgroundTask(shop, "sync_checkouts"),
+    queuePositions(shop),
+    ensureSettings(shop),
   ]);
 
-  const vapiConfigured =
-    Boolean(process.env.VAPI_API_KEY?.trim()) &&
-    Boolean(process.env.VAPI_ASSISTANT_ID?.trim()) &&
-    Boolean(process.env.VAPI_PHONE_NUMBER_ID?.trim()) &&
-    Boolean(process.env.VAPI_SERVER_URL?.trim());
+  const provider = getCallProvider();
+  const providerName = provider.name;
+  const providerConfigured = await provider.isConfigured(shop);
 
   const callIds = jobs.map((j) => String(j.providerCallId ?? "")).filter(Boolean);
   const jobIds = jobs.map((j) => String(j.id ?? "")).filter(Boolean);
@@ -135,6 +175,35 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   const sbMap = await fetchSupabaseSummaries({ shop, callIds, callJobIds: jobIds, checkoutIds });
 
+  const sentRefs = new Set(
+    (
+      await db.touchpoint.findMany({
+        where: {
+          shop,
+          kind: "message_sent",
+          refId: { in: jobIds.flatMap((id) => [followUpMessageId(id, "sms"), followUpMessageId(id, "email")]) },
+        },
+        select: { refId: true },
+      })
+    ).map((t) => t.refId)
+  );
+
+  const links = new Map(
+    (
+      await db.recoveryLink.findMany({
+        where: { shop, callJobId: { in: jobIds } },
+        select: { callJobId: true, code: true, clicks: true, lastClickedAt: true },
+      })
+    ).map((l) => [String(l.callJobId), l])
+  );
+  const linkUrl = (code: string) => {
+    try {
+      return recoveryLinkUrl(code);
+    } catch {
+      return null; // signing env missing
+    }
+  };
+
   const rows: CallRow[] = jobs.map((j) => {
     const callId = j.providerCallId ? String(j.providerCallId) : "";
     const jobId = String(j.id);
@@ -151,6 +220,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       checkoutId: String(j.checkoutId),
       status: String(j.status),
       scheduledFor: new Date(j.scheduledFor).toISOString(),
+      timezone: j.timezone ? String(j.timezone) : null,
       createdAt: new Date(j.createdAt).toISOString(),
       attempts: Number(j.attempts ?? 0),
       providerCallId: j.providerCallId ? String(j.providerCallId) : null,
@@ -159,11 +229,34 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       summary: safeStr((sb as any)?.summary_clean || (sb as any)?.summary).trim() || null,
       nextAction: safeStr((sb as any)?.next_best_action || (sb as any)?.best_next_action).trim() || null,
       followUp: safeStr((sb as any)?.follow_up_message).trim() || null,
+      followUpSent: (["sms", "email"] as const).filter((ch) => sentRefs.has(followUpMessageId(jobId, ch))),
+      recoveryLink: (() => {
+        const l = links.get(jobId);
+        const url = l ? linkUrl(l.code) : null;
+        return l && url ? { url, clicks: l.clicks, lastClickedAt: l.lastClickedAt?.toISOString() ?? null } : null;
+      })(),
       recordingUrl: (pickRecordingUrl(sb as any) ?? (j.recordingUrl ? String(j.recordingUrl) : null)) ?? null,
+      queuePosition: j.status === "QUEUED" ? positions.get(jobId) ?? null : null,
+      waitingReason:
+        j.status === "QUEUED" && j.outcome?.startsWith("WAITING: ") ? j.outcome.slice("WAITING: ".length) : null,
+      priority: Number(j.priority ?? 0),
+      priorityReason: j.priorityReason ? String(j.priorityReason) : null,
     };
   });
 
-  return { shop, vapiConfigured, stats: { queued, calling, completed7d }, rows } satisfies LoaderData;
+  const outcomeCount = (status: string) => outcomeGroups.find((g) => g.status === status)?._count._all ?? 0;
+  const stats = {
+    queued,
+    calling,
+    maxConcurrentCalls: settings.maxConcurrentCalls,
+    completed7d: outcomeCount("COMPLETED"),
+    noAnswer7d: outcomeCount("NO_ANSWER"),
+    voicemail7d: outcomeCount("VOICEMAIL"),
+    busy7d: outcomeCount("BUSY"),
+    failed7d: outcomeCount("FAILED"),
+  };
+
+  return { shop, providerName, providerConfigured, stats, rows, sort, syncTask } satisfies LoaderData;
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -175,61 +268,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const redirectBack = () => new Response(null, { status: 303, headers: { Location: "/app/calls" } });
 
-  const vapiOk =
-    Boolean(process.env.VAPI_API_KEY?.trim()) &&
-    Boolean(process.env.VAPI_ASSISTANT_ID?.trim()) &&
-    Boolean(process.env.VAPI_PHONE_NUMBER_ID?.trim()) &&
-    Boolean(process.env.VAPI_SERVER_URL?.trim());
+  if (intent === "sync_now") {
+    const task = await queueBackgroundTask({ shop, kind: "sync_checkouts", trigger: "manual" });
+    if (task.status === "QUEUED") startBackgroundTask(task);
+    return redirectBack();
+  }
 
   if (intent === "run_jobs") {
-    const settings = await ensureSettings(shop);
-
-    const now = new Date();
-    const jobs = await db.callJob.findMany({
-      where: { shop, status: "QUEUED", scheduledFor: { lte: now } },
-      orderBy: { scheduledFor: "asc" },
-      take: 10,
-    });
-
-    for (const job of jobs) {
-      const locked = await db.callJob.updateMany({
-        where: { id: job.id, shop, status: "QUEUED" },
-        data: { status: "CALLING", attempts: { increment: 1 }, provider: vapiOk ? "vapi" : "sim", outcome: null },
-      });
-      if (locked.count === 0) continue;
-
-      if (!vapiOk) {
-        await db.callJob.update({
-          where: { id: job.id },
-          data: { status: "COMPLETED", outcome: `SIMULATED_CALL_OK phone=${job.phone}` },
-        });
-        continue;
-      }
-
-      try {
-        await createVapiCallForJob({ shop, callJobId: job.id });
-        await db.callJob.update({ where: { id: job.id }, data: { status: "CALLING", outcome: "VAPI_CALL_STARTED" } });
-      } catch (e: any) {
-        const maxAttempts = settings.maxAttempts ?? 2;
-        const fresh = await db.callJob.findUnique({ where: { id: job.id }, select: { attempts: true } });
-        const attemptsAfter = Number(fresh?.attempts ?? 0);
-
-        if (attemptsAfter >= maxAttempts) {
-          await db.callJob.update({
-            where: { id: job.id },
-            data: { status: "FAILED", outcome: `ERROR: ${String(e?.message ?? e)}` },
-          });
-        } else {
-          const retryMinutes = settings.retryMinutes ?? 180;
-          const next = new Date(Date.now() + retryMinutes * 60 * 1000);
-          await db.callJob.update({
-            where: { id: job.id },
-            data: { status: "QUEUED", scheduledFor: next, outcome: `RETRY_SCHEDULED in ${retryMinutes}m` },
-          });
-        }
-      }
-    }
-
+    await runDueCallJobs({ shop, limit: 10 });
     return redirectBack();
   }
 
@@ -237,64 +283,92 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const callJobId = String(fd.get("callJobId") ?? "").trim();
     if (!callJobId) return redirectBack();
 
-    if (!vapiOk) {
-      await db.callJob.updateMany({
-        where: { id: callJobId, shop },
-        data: { outcome: "Missing Vapi ENV (VAPI_API_KEY/VAPI_ASSISTANT_ID/VAPI_PHONE_NUMBER_ID/VAPI_SERVER_URL)" },
-      });
-      return redirectBack();
-    }
-
-    const locked = await db.callJob.updateMany({
-      where: { id: callJobId, shop, status: "QUEUED" },
-      data: { status: "CALLING", attempts: { increment: 1 }, provider: "vapi", outcome: null },
+    const job = await db.callJob.findFirst({
+      where: { id: callJobId, shop },
+      select: { id: true, shop: true, checkoutId: true, phone: true, timezone: true },
+    });
+    if (!job) return redirectBack();
+
+    const provider = getCallProvider();
+    await dialJob(job, {
+      settings: await ensureSettings(shop),
+      provider,
+      providerConfigured: await provider.isConfigured(shop),
+      ignoreSchedule: true,
     });
-    if (locked.count === 0) return redirectBack();
 
-    try {
-      await createVapiCallForJob({ shop, callJobId });
-      await db.callJob.updateMany({
-        where: { id: callJobId, shop },
-        data: { status: "CALLING", outcome: "VAPI_CALL_STARTED" },
-      });
-    } catch (e: any) {
-      const settings = await ensureSettings(shop);
-      const maxAttempts = settings.maxAttempts ?? 2;
-
-      const fresh = await db.callJob.findUnique({ where: { id: callJobId }, select: { attempts: true } });
-      const attemptsAfter = Number(fresh?.attempts ?? 0);
-
-      if (attemptsAfter >= maxAttempts) {
-        await db.callJob.updateMany({
-          where: { id: callJobId, shop },
-          data: { status: "FAILED", outcome: `ERROR: ${String(e?.message ?? e)}` },
-        });
-      } else {
-        const retryMinutes = settings.retryMinutes ?? 180;
-        const next = new Date(Date.now() + retryMinutes * 60 * 1000);
-        await db.callJob.updateMany({
-          where: { id: callJobId, shop },
-          data: { status: "QUEUED", scheduledFor: next, outcome: `RETRY_SCHEDULED in ${retryMinutes}m` },
-        });
-      }
-    }
+    return redirectBack();
+  }
 
+  if (intent === "followup_sent") {
+    const callJobId = String(fd.get("callJobId") ?? "").trim();
+    const channel = String(fd.get("channel") ?? "");
+    if (!callJobId || (channel !== "sms" && channel !== "email")) return redirectBack();
+
+    const job = await db.callJob.findFirst({ where: { id: callJobId, shop }, select: { id: true, checkoutId: true } });
+    if (!job) return redirectBack();
+
+    await recordMessageSent({
+      shop,
+      checkoutId: job.checkoutId,
+      channel,
+      messageId: followUpMessageId(job.id, channel),
+      detail: "Follow-up marked sent",
+    });
     return redirectBack();
   }
 
   return redirectBack();
 };
 
+function SyncStatus(props: { task: BackgroundTaskView | null }) {
+  const t = props.task;
+  if (!t) return <Pill title="Checkout sync">Not synced yet</Pill>;
+
+  if (t.status === "QUEUED" || t.status === "RUNNING") {
+    return (
+      <Pill tone="blue" title={t.stage ?? "Sync in progress"}>
+        Syncing {t.progress}% · {t.stage ?? "Queued"}
+      </Pill>
+    );
+  }
+
+  if (t.status === "FAILED") {
+    return (
+      <Pill tone="red" title={t.error ?? "Sync failed"}>
+        Sync failed {t.finishedAt ? formatWhen(t.finishedAt) : ""}
+      </Pill>
+    );
+  }
+
+  const r = t.result ?? {};
+  return (
+    <Pill tone="green" title={`Last sync (${t.trigger}) finished ${t.finishedAt ? formatWhen(t.finishedAt) : ""}`}>
+      Synced {Number(r.synced ?? 0)} · {Number(r.enqueued ?? 0)} enqueued
+    </Pill>
+  );
+}
+
 export default function Calls() {
-  const { shop, vapiConfigured, stats, rows } = useLoaderData<typeof loader>();
+  const { shop, providerName, providerConfigured, stats, rows, sort, syncTask } = useLoaderData<typeof loader>();
   const revalidator = useRevalidator();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Keeps the embedded-app params (shop, host, ...) in the URL.
+  const toggleSort = () => {
+    const next = new URLSearchParams(searchParams);
+    if (sort === "priority") next.delete("sort");
+    else next.set("sort", "priority");
+    setSearchParams(next);
+  };
+  const syncing = syncTask?.status === "QUEUED" || syncTask?.status === "RUNNING";
 
   React.useEffect(() => {
-    const active = stats.calling > 0 || stats.queued > 0;
+    const active = stats.calling > 0 || stats.queued > 0 || syncing;
     if (!active) return;
-    const id = window.setInterval(() => revalidator.revalidate(), 5000);
+    const id = window.setInterval(() => revalidator.revalidate(), syncing ? 2000 : 5000);
     return () => window.clearInterval(id);
-  }, [stats.calling, stats.queued, revalidator]);
+  }, [stats.calling, stats.queued, syncing, revalidator]);
 
   const [selectedId, setSelectedId] = React.useState<string | null>(rows?.[0]?.id ?? null);
   React.useEffect(() => {
@@ -332,14 +406,46 @@ export default function Calls() {
           <div style={{ fontWeight: 1100, fontSize: 18, color: "rgba(17,24,39,0.92)" }}>Calls</div>
           <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
             <Pill title="Shop">{shop}</Pill>
-            <Pill title="Provider">{vapiConfigured ? "Vapi ready" : "Sim mode"}</Pill>
-            {stats.calling > 0 ? <Pill tone="blue">{stats.calling} calling</Pill> : null}
+            <Pill title="Provider">
+              {providerName === "mock" ? "Mock provider" : providerConfigured ? "Vapi ready" : "Vapi not configured"}
+            </Pill>
+            {stats.calling > 0 ? (
+              <Pill tone="blue" title="Live calls / concurrent-call limit">
+                {stats.calling}/{stats.maxConcurrentCalls} calling
+              </Pill>
+            ) : null}
             {stats.queued > 0 ? <Pill tone="amber">{stats.queued} queued</Pill> : null}
-            <Pill title="Completed in 7d">{stats.completed7d} completed/7d</Pill>
+            <Pill tone="green" title="Answered calls in 7d">{stats.completed7d} answered/7d</Pill>
+            <Pill title="No answer / voicemail / busy in 7d">
+              {stats.noAnswer7d} no answer · {stats.voicemail7d} voicemail · {stats.busy7d} busy
+            </Pill>
+            {stats.failed7d > 0 ? (
+              <Pill tone="red" title="Provider / dial errors in 7d">{stats.failed7d} failed/7d</Pill>
+            ) : null}
           </div>
         </div>
 
         <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <SyncStatus task={syncTask} />
+          <Form method="post">
+            <input type="hidden" name="intent" value="sync_now" />
+            <button
+              type="submit"
+              disabled={syncing}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 12,
+                border: "1px solid rgba(0,0,0,0.12)",
+                background: "white",
+                cursor: syncing ? "default" : "pointer",
+                opacity: syncing ? 0.6 : 1,
+                fontWeight: 1000,
+              }}
+            >
+              Sync now
+            </button>
+          </Form>
+
           <Form method="post">
             <input type="hidden" name="intent" value="run_jobs" />
             <button
@@ -404,12 +510,27 @@ export default function Calls() {
                   <th style={headerCell}>AI</th>
                   <th style={headerCell}>Scheduled</th>
                   <th style={headerCell}>Attempts</th>
+                  <th style={headerCell}>
+                    <button
+                      type="button"
+                      onClick={() => toggleSort()}
+                      title={sort === "priority" ? "Sorted by priority (highest first). Click for newest first." : "Sort by priority"}
+                      style={{
+                        all: "unset",
+                        cursor: "pointer",
+                        color: sort === "priority" ? "rgba(30,58,138,0.95)" : "inherit",
+                      }}
+                    >
+                      Priority {sort === "priority" ? "↓" : "↕"}
+                    </button>
+                  </th>
                   <th style={headerCell}>Recording</th>
                 </tr>
               </thead>
               <tbody>
                 {rows.map((r) => {
                   const isSel = r.id === selectedId;
+                  const customerLocal = formatLocalWhen(r.scheduledFor, r.timezone);
                   return (
                     <tr
                       key={r.id}
@@ -418,7 +539,17 @@ export default function Calls() {
                     >
                       <td style={{ ...cell, color: "rgba(30,58,138,0.95)" }}>{r.checkoutId}</td>
                       <td style={cell}>
-                        <StatusPill status={r.status} />
+                        <div style={{ display: "grid", gap: 4, justifyItems: "start" }}>
+                          <StatusPill status={r.status} />
+                          {r.queuePosition != null ? (
+                            <div
+                              style={{ fontSize: 11, fontWeight: 950, color: "rgba(17,24,39,0.55)" }}
+                              title={r.waitingReason ? `Waiting: ${r.waitingReason}` : "Position in this shop's dial order"}
+                            >
+                              #{r.queuePosition} in queue{r.waitingReason ? " · waiting for a line" : ""}
+                            </div>
+                          ) : null}
+                        </div>
                       </td>
                       <td style={cell}>
                         <Pill tone={r.callOutcome?.toLowerCase().includes("recovered") ? "green" : "neutral"}>
@@ -431,12 +562,25 @@ export default function Calls() {
                       <td style={cell}>
                         <div style={{ display: "grid", gap: 4 }}>
                           <div style={{ fontWeight: 1000 }}>{formatWhen(r.scheduledFor)}</div>
+                          {customerLocal ? (
+                            <div style={{ fontSize: 11, fontWeight: 950, color: "rgba(30,58,138,0.85)" }} title={r.timezone ?? ""}>
+                              Dials {customerLocal} local ({r.timezone})
+                            </div>
+                          ) : null}
                           <div style={{ fontSize: 11, fontWeight: 900, color: "rgba(17,24,39,0.40)" }}>
                             Created {formatWhen(r.createdAt)}
                           </div>
                         </div>
                       </td>
                       <td style={cell}>{r.attempts}</td>
+                      <td style={cell}>
+                        <Pill
+                          tone={r.priority >= 70 ? "green" : r.priority >= 40 ? "blue" : "neutral"}
+                          title={r.priorityReason ?? "Scored before priority existed"}
+                        >
+                          {Math.round(r.priority)}
+                        </Pill>
+                      </td>
                       <td style={cell}>
                         {r.recordingUrl ? (
                           <a href={r.recordingUrl} target="_blank" rel="noreferrer" style={{ textDecoration: "none" }}>
@@ -561,6 +705,71 @@ export default function Calls() {
                   >
                     {selected.followUp ?? "—"}
                   </div>
+                  <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+                    {selected.followUp
+                      ? (["sms", "email"] as const).map((ch) => {
+                          const sent = selected.followUpSent.includes(ch);
+                          return (
+                            <Form method="post" key={ch}>
+                              <input type="hidden" name="intent" value="followup_sent" />
+                              <input type="hidden" name="callJobId" value={selected.id} />
+                              <input type="hidden" name="channel" value={ch} />
+                              <button
+                                type="submit"
+                                disabled={sent}
+                                title="Logs a touchpoint for multi-touch attribution"
+                                style={{
+                                  padding: "6px 10px",
+                                  borderRadius: 10,
+                                  border: "1px solid rgba(0,0,0,0.10)",
+                                  background: sent ? "rgba(16,185,129,0.08)" : "white",
+                                  color: sent ? "#065f46" : "rgba(17,24,39,0.80)",
+                                  cursor: sent ? "default" : "pointer",
+                                  fontWeight: 950,
+                                  fontSize: 12,
+                                }}
+                              >
+                                {sent ? `Sent by ${ch === "sms" ? "SMS" : "email"}` : `Mark sent by ${ch === "sms" ? "SMS" : "email"}`}
+                              </button>
+                            </Form>
+                          );
+                        })
+                      : null}
+                    <Link to={`/app/timeline/${encodeURIComponent(selected.checkoutId)}`} style={{ fontWeight: 950, fontSize: 12 }}>
+                      Checkout timeline
+                    </Link>
+                  </div>
+                </div>
+
+                <div style={{ display: "grid", gap: 6 }}>
+                  <div style={{ fontSize: 12, fontWeight: 1000, color: "rgba(17,24,39,0.55)" }}>Recovery link</div>
+                  {selected.recoveryLink ? (
+                    <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                      <code
+                        style={{
+                          fontSize: 12,
+                          fontWeight: 900,
+                          color: "rgba(17,24,39,0.78)",
+                          overflow: "hidden",
+                          textOverflow: "ellipsis",
+                          whiteSpace: "nowrap",
+                          maxWidth: "100%",
+                        }}
+                      >
+                        {selected.recoveryLink.url}
+                      </code>
+                      <Pill
+                        tone={selected.recoveryLink.clicks ? "green" : "neutral"}
+                        title={selected.recoveryLink.lastClickedAt ? `Last click ${formatWhen(selected.recoveryLink.lastClickedAt)}` : "Not clicked yet"}
+                      >
+                        {selected.recoveryLink.clicks} {selected.recoveryLink.clicks === 1 ? "click" : "clicks"}
+                      </Pill>
+                    </div>
+                  ) : (
+                    <div style={{ fontSize: 12, fontWeight: 900, color: "rgba(17,24,39,0.45)" }}>
+                      Created when the call starts (needs the checkout&apos;s abandoned checkout URL).
+                    </div>
+                  )}
                 </div>
 
                 <Form method="post">
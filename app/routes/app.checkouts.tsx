@@ -1,11 +1,20 @@
 // app/routes/app.checkouts.tsx
 import * as React from "react";
 import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
-import { useLoaderData, useRouteError } from "react-router";
+import { Link, useLoaderData, useRouteError } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { ensureSettings } from "../callRecovery.server";
+import { consentRequiredFor, loadConsentByCheckout, parseConsentCountries, pickConsentPolicy } from "../lib/consent.server";
+import { getCheckoutSyncState, type CheckoutSyncReport } from "../lib/checkoutSync.server";
+import { normalizePhone } from "../lib/phone.server";
+import {
+  callDestinationCountry,
+  consentRequiredForCountry,
+  countryRulesFromSettings,
+  evaluateCountry,
+} from "../lib/countryRules.server";
 
 import {
   buildCartPreview,
@@ -61,6 +70,94 @@ function CheckoutStatusPill({ status }: { status: string }) {
   return <Pill tone={tone as any}>{s}</Pill>;
 }
 
+function ConsentPill(props: { state: "granted" | "denied" | "missing"; required: boolean; title?: string }) {
+  if (props.state === "granted") return <Pill tone="green" title={props.title}>Consented</Pill>;
+  if (props.state === "denied") return <Pill tone="red" title={props.title}>Declined</Pill>;
+  return (
+    <Pill tone={props.required ? "amber" : "neutral"} title={props.title}>
+      {props.required ? "Missing (won't call)" : "None"}
+    </Pill>
+  );
+}
+
+function SyncReportPanel({ sync }: { sync: SyncInfo }) {
+  const r = sync.report;
+  const stat = (label: string, value: React.ReactNode) => (
+    <div style={{ display: "grid", gap: 2 }}>
+      <div style={{ fontSize: 11, fontWeight: 950, color: "rgba(17,24,39,0.45)" }}>{label}</div>
+      <div style={{ fontSize: 13, fontWeight: 1000, color: "rgba(17,24,39,0.85)" }}>{value}</div>
+    </div>
+  );
+
+  return (
+    <div
+      style={{
+        marginTop: 12,
+        border: "1px solid rgba(0,0,0,0.08)",
+        borderRadius: 16,
+        background: "white",
+        boxShadow: "0 1px 0 rgba(0,0,0,0.03)",
+        padding: 14,
+        display: "grid",
+        gap: 10,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+        <div style={{ fontSize: 13, fontWeight: 1100, color: "rgba(17,24,39,0.85)" }}>Shopify sync</div>
+        {sync.backfillCompletedAt ? (
+          <Pill tone="green" title={`Backfill finished ${formatWhen(sync.backfillCompletedAt)}`}>
+            Incremental
+          </Pill>
+        ) : (
+          <Pill tone="amber" title="Older abandoned checkouts are still being imported">
+            Backfill running
+          </Pill>
+        )}
+        {sync.passInProgress ? (
+          <Pill tone="blue" title={sync.passStartedAt ? `Pass started ${formatWhen(sync.passStartedAt)}` : undefined}>
+            Resumes next run
+          </Pill>
+        ) : null}
+        {r && r.errors.length ? <Pill tone="red">{r.errors.length} errors</Pill> : null}
+      </div>
+
+      {r ? (
+        <div style={{ display: "flex", gap: 22, flexWrap: "wrap" }}>
+          {stat("Last run", sync.lastRunAt ? formatWhen(sync.lastRunAt) : "-")}
+          {stat("Mode", `${r.mode}${r.resumed ? " (resumed)" : ""}`)}
+          {stat("Pages", r.pages)}
+          {stat("Rows", `${r.saved} / ${r.rows} saved`)}
+          {stat("Throttled", r.throttledMs ? `${(r.throttledMs / 1000).toFixed(1)}s` : "-")}
+          {stat("Query cost", r.queryCost)}
+          {stat("Synced up to", sync.watermark ? formatWhen(sync.watermark) : "-")}
+        </div>
+      ) : (
+        <div style={{ fontSize: 12, fontWeight: 900, color: "rgba(17,24,39,0.45)" }}>
+          No sync has run yet. Use Sync now on the Dashboard or wait for the next cron run.
+        </div>
+      )}
+
+      {r && r.errors.length ? (
+        <details>
+          <summary style={{ cursor: "pointer", fontSize: 12, fontWeight: 950 }}>Errors from the last run</summary>
+          <pre
+            style={{
+              margin: "8px 0 0",
+              whiteSpace: "pre-wrap",
+              wordBreak: "break-all",
+              fontSize: 11,
+              fontWeight: 700,
+              color: "#7f1d1d",
+            }}
+          >
+            {r.errors.join("\n")}
+          </pre>
+        </details>
+      ) : null}
+    </div>
+  );
+}
+
 type Row = {
   checkoutId: string;
   status: string;
@@ -68,11 +165,22 @@ type Row = {
   abandonedAt: string | null;
   customerName: string | null;
   phone: string | null;
+  phoneE164: string | null;
+  phoneStatus: "valid" | "invalid" | "missing";
+  phoneLineType: string | null;
+  phoneError: string | null;
   email: string | null;
   value: number;
   currency: string;
   cartPreview: string | null;
 
+  consentState: "granted" | "denied" | "missing";
+  consentRequired: boolean;
+  blockedReason: string | null; // destination country not allowed
+  consentSource: string | null;
+  consentWording: string | null;
+  consentAt: string | null;
+
   callStatus: string | null;
   callOutcome: string | null;
   aiStatus: string | null;
@@ -80,16 +188,61 @@ type Row = {
   recordingUrl: string | null;
 };
 
+const LINE_TYPE_LABELS: Record<string, string> = {
+  mobile: "Mobile",
+  landline: "Landline",
+  toll_free: "Toll-free",
+  premium: "Premium-rate",
+};
+
+function PhoneCell({ row }: { row: Row }) {
+  if (row.phoneStatus === "missing") return <>-</>;
+
+  if (row.phoneStatus === "invalid") {
+    return (
+      <div style={{ display: "grid", gap: 4 }}>
+        <span>{row.phone}</span>
+        <span>
+          <Pill tone="red" title={row.phoneError ?? undefined}>
+            Invalid phone
+          </Pill>
+        </span>
+      </div>
+    );
+  }
+
+  const lineType = row.phoneLineType ? LINE_TYPE_LABELS[row.phoneLineType] : null;
+  return (
+    <div style={{ display: "grid", gap: 2 }}>
+      <span title={row.phone && row.phone !== row.phoneE164 ? `Entered as: ${row.phone}` : undefined}>{row.phoneE164}</span>
+      {lineType ? <span style={{ fontSize: 11, fontWeight: 850, color: "rgba(17,24,39,0.50)" }}>{lineType}</span> : null}
+    </div>
+  );
+}
+
+type SyncInfo = {
+  watermark: string | null;
+  backfillCompletedAt: string | null;
+  passInProgress: boolean;
+  passStartedAt: string | null;
+  lastRunAt: string | null;
+  report: CheckoutSyncReport | null;
+};
+
 type LoaderData = {
   shop: string;
   rows: Row[];
+  sync: SyncInfo;
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const shop = session.shop;
 
-  await ensureSettings(shop);
+  const settings = await ensureSettings(shop);
+  const consentPolicy = pickConsentPolicy(settings.consentPolicy);
+  const consentCountries = parseConsentCountries(settings.consentCountries);
+  const countryRules = countryRulesFromSettings(settings);
 
   const [checkouts, jobs] = await Promise.all([
     db.checkout.findMany({
@@ -104,10 +257,15 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         abandonedAt: true,
         customerName: true,
         phone: true,
+        phoneE164: true,
+        phoneStatus: true,
+        phoneLineType: true,
+        phoneError: true,
         email: true,
         value: true,
         currency: true,
         itemsJson: true,
+        countryCode: true,
       },
     }),
     db.callJob.findMany({
@@ -128,6 +286,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   ]);
 
   const latestJobMap = pickLatestJobByCheckout(jobs);
+  const consentMap = await loadConsentByCheckout(shop, checkouts.map((c) => String(c.checkoutId)));
 
   const checkoutIds = checkouts.map((c) => String(c.checkoutId)).filter(Boolean);
   const callIds = checkouts
@@ -293,6 +452,17 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         ? Math.round((sb as any).buy_probability)
         : null;
 
+    const consent = consentMap.get(checkoutId) ?? null;
+
+    // Rows ingested before phone normalization: compute it for display.
+    const phoneNorm = c.phoneStatus
+      ? { e164: c.phoneE164, status: c.phoneStatus, lineType: c.phoneLineType, reason: c.phoneError }
+      : normalizePhone(c.phone, c.countryCode);
+    const countryDecision = evaluateCountry(
+      countryRules,
+      callDestinationCountry({ phone: phoneNorm.e164 ?? c.phone, countryCode: c.countryCode })
+    );
+
     return {
       checkoutId,
       status: String(c.status),
@@ -300,11 +470,25 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       abandonedAt: c.abandonedAt ? new Date(c.abandonedAt).toISOString() : null,
       customerName: c.customerName ?? null,
       phone: c.phone ?? null,
+      phoneE164: phoneNorm.e164 ?? null,
+      phoneStatus: phoneNorm.status as Row["phoneStatus"],
+      phoneLineType: phoneNorm.lineType ?? null,
+      phoneError: phoneNorm.reason ?? null,
       email: c.email ?? null,
       value: Number(c.value ?? 0),
       currency: String(c.currency ?? "USD"),
       cartPreview: buildCartPreview(c.itemsJson ?? null),
 
+      consentState: consent ? (consent.granted ? "granted" : "denied") : "missing",
+      consentRequired: consentRequiredForCountry(
+        countryDecision.allowed ? countryDecision.rule : null,
+        consentRequiredFor({ policy: consentPolicy, countries: consentCountries, countryCode: c.countryCode })
+      ),
+      blockedReason: countryDecision.allowed ? null : countryDecision.reason,
+      consentSource: consent?.source ?? null,
+      consentWording: consent?.wording ?? null,
+      consentAt: consent ? new Date(consent.capturedAt).toISOString() : null,
+
       callStatus: j ? String(j.status) : null,
       callOutcome: (sb as any)?.call_outcome ? String((sb as any).call_outcome) : null,
       aiStatus: (sb as any)?.ai_status ? String((sb as any).ai_status) : null,
@@ -313,11 +497,28 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     };
   });
 
-  return { shop, rows } satisfies LoaderData;
+  const syncState = await getCheckoutSyncState(shop);
+  let report: CheckoutSyncReport | null = null;
+  try {
+    report = syncState?.lastReportJson ? JSON.parse(syncState.lastReportJson) : null;
+  } catch {
+    report = null;
+  }
+
+  const sync: SyncInfo = {
+    watermark: syncState?.watermark ? syncState.watermark.toISOString() : null,
+    backfillCompletedAt: syncState?.backfillCompletedAt ? syncState.backfillCompletedAt.toISOString() : null,
+    passInProgress: Boolean(syncState?.passCursor),
+    passStartedAt: syncState?.passStartedAt ? syncState.passStartedAt.toISOString() : null,
+    lastRunAt: syncState?.lastRunAt ? syncState.lastRunAt.toISOString() : null,
+    report,
+  };
+
+  return { shop, rows, sync } satisfies LoaderData;
 };
 
 export default function Checkouts() {
-  const { shop, rows } = useLoaderData<typeof loader>();
+  const { shop, rows, sync } = useLoaderData<typeof loader>();
   const [query, setQuery] = React.useState("");
   const q = query.trim().toLowerCase();
 
@@ -330,6 +531,7 @@ export default function Checkouts() {
         safeStr(c.cartPreview).toLowerCase().includes(q) ||
         safeStr(c.status).toLowerCase().includes(q) ||
         safeStr(c.phone).toLowerCase().includes(q) ||
+        safeStr(c.phoneE164).toLowerCase().includes(q) ||
         safeStr(c.email).toLowerCase().includes(q) ||
         safeStr(c.callStatus).toLowerCase().includes(q) ||
         safeStr(c.callOutcome).toLowerCase().includes(q) ||
@@ -398,6 +600,8 @@ export default function Checkouts() {
         </div>
       </div>
 
+      <SyncReportPanel sync={sync} />
+
       <div
         style={{
           marginTop: 12,
@@ -417,6 +621,7 @@ export default function Checkouts() {
                 <th style={headerCell}>Status</th>
                 <th style={headerCell}>Customer</th>
                 <th style={headerCell}>Phone</th>
+                <th style={headerCell}>Consent</th>
                 <th style={headerCell}>Value</th>
                 <th style={headerCell}>Cart</th>
                 <th style={headerCell}>Updated</th>
@@ -430,15 +635,40 @@ export default function Checkouts() {
             <tbody>
               {filtered.map((c) => (
                 <tr key={c.checkoutId}>
-                  <td style={{ ...cell, color: "rgba(30,58,138,0.95)" }}>{c.checkoutId}</td>
+                  <td style={{ ...cell, color: "rgba(30,58,138,0.95)" }}>
+                    <Link to={`/app/timeline/${encodeURIComponent(c.checkoutId)}`} title="Touchpoint timeline" style={{ color: "inherit" }}>
+                      {c.checkoutId}
+                    </Link>
+                  </td>
                   <td style={cell}>
                     <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
                       <CheckoutStatusPill status={c.status} />
                       {c.abandonedAt ? <Pill title="Abandoned at">{formatWhen(c.abandonedAt)}</Pill> : null}
+                      {c.blockedReason ? (
+                        <Pill tone="red" title={c.blockedReason}>
+                          Blocked: {c.blockedReason}
+                        </Pill>
+                      ) : null}
                     </div>
                   </td>
                   <td style={cell}>{c.customerName ?? "-"}</td>
-                  <td style={cell}>{c.phone ?? "-"}</td>
+                  <td style={cell}>
+                    <PhoneCell row={c} />
+                  </td>
+                  <td style={cell}>
+                    <ConsentPill
+                      state={c.consentState}
+                      required={c.consentRequired}
+                      title={[
+                        c.consentSource ? `Source: ${c.consentSource}` : null,
+                        c.consentAt ? `Captured: ${formatWhen(c.consentAt)}` : null,
+                        c.consentWording ? `Shown: ${c.consentWording}` : null,
+                        c.consentRequired ? "Required by policy" : "Not required by policy",
+                      ]
+                        .filter(Boolean)
+                        .join("\n")}
+                    />
+                  </td>
                   <td style={cell}>
                     {c.value} {c.currency}
                   </td>
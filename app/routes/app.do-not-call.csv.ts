@@ -0,0 +1,18 @@
+// app/routes/app.do-not-call.csv.ts
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { exportSuppressionCsv } from "../lib/suppression.server";
+
+// GET /app/do-not-call/csv (resource route, fetched by the Export button)
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const csv = await exportSuppressionCsv(session.shop);
+
+  return new Response(csv, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="do-not-call-${session.shop}.csv"`,
+    },
+  });
+};
@@ -0,0 +1,367 @@
+// app/routes/app.do-not-call.tsx
+import * as React from "react";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, useLoaderData, useRouteError } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import type { Prisma } from "@prisma/client";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { addSuppression, importSuppressionCsv, removeSuppression } from "../lib/suppression.server";
+import { formatWhen } from "../lib/callInsights.shared";
+
+type Row = {
+  id: string;
+  phone: string | null;
+  email: string | null;
+  reason: string | null;
+  source: string;
+  callJobId: string | null;
+  createdAt: string;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const url = new URL(request.url);
+  const q = String(url.searchParams.get("q") ?? "").trim();
+  const imported = url.searchParams.get("imported");
+  const skipped = url.searchParams.get("skipped");
+
+  const qDigits = q.replace(/\D/g, "");
+  const where: Prisma.SuppressionWhereInput = { shop };
+  if (q) {
+    where.OR = [
+      { email: { contains: q.toLowerCase() } },
+      ...(qDigits ? [{ phone: { contains: qDigits } }] : []),
+      { reason: { contains: q, mode: "insensitive" } },
+    ];
+  }
+
+  const [total, entries] = await Promise.all([
+    db.suppression.count({ where: { shop } }),
+    db.suppression.findMany({ where, orderBy: { createdAt: "desc" }, take: 500 }),
+  ]);
+
+  const rows: Row[] = entries.map((e) => ({
+    id: e.id,
+    phone: e.phone,
+    email: e.email,
+    reason: e.reason,
+    source: e.source,
+    callJobId: e.callJobId,
+    createdAt: e.createdAt.toISOString(),
+  }));
+
+  return {
+    shop,
+    q,
+    total,
+    rows,
+    importResult: imported != null ? { added: Number(imported) || 0, skipped: Number(skipped) || 0 } : null,
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+
+  const redirectBack = (search = "") =>
+    new Response(null, { status: 303, headers: { Location: `/app/do-not-call${search}` } });
+
+  if (intent === "add") {
+    await addSuppression({
+      shop,
+      phone: String(fd.get("phone") ?? "").trim() || null,
+      email: String(fd.get("email") ?? "").trim() || null,
+      reason: String(fd.get("reason") ?? "").trim() || "Added manually",
+      source: "manual",
+    });
+    return redirectBack();
+  }
+
+  if (intent === "remove") {
+    const id = String(fd.get("id") ?? "").trim();
+    if (id) await removeSuppression(shop, id);
+    return redirectBack();
+  }
+
+  if (intent === "import") {
+    const file = fd.get("file");
+    if (!file || typeof file === "string") return redirectBack();
+    const text = await file.text();
+    const res = await importSuppressionCsv(shop, text);
+    return redirectBack(`?imported=${res.added}&skipped=${res.skipped}`);
+  }
+
+  return redirectBack();
+};
+
+function Pill(props: { children: React.ReactNode; tone?: "neutral" | "green" | "blue" | "amber" | "red"; title?: string }) {
+  const tone = props.tone ?? "neutral";
+  const t =
+    tone === "green"
+      ? { bg: "rgba(16,185,129,0.10)", bd: "rgba(16,185,129,0.25)", tx: "#065f46" }
+      : tone === "blue"
+      ? { bg: "rgba(59,130,246,0.10)", bd: "rgba(59,130,246,0.25)", tx: "#1e3a8a" }
+      : tone === "amber"
+      ? { bg: "rgba(245,158,11,0.10)", bd: "rgba(245,158,11,0.25)", tx: "#92400e" }
+      : tone === "red"
+      ? { bg: "rgba(239,68,68,0.10)", bd: "rgba(239,68,68,0.25)", tx: "#7f1d1d" }
+      : { bg: "rgba(0,0,0,0.04)", bd: "rgba(0,0,0,0.10)", tx: "rgba(0,0,0,0.75)" };
+
+  return (
+    <span
+      title={props.title}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        padding: "3px 10px",
+        borderRadius: 999,
+        border: `1px solid ${t.bd}`,
+        background: t.bg,
+        color: t.tx,
+        fontWeight: 950,
+        fontSize: 12,
+        whiteSpace: "nowrap",
+      }}
+    >
+      {props.children}
+    </span>
+  );
+}
+
+function Input(props: React.InputHTMLAttributes<HTMLInputElement> & { style?: React.CSSProperties }) {
+  return (
+    <input
+      {...props}
+      style={{
+        width: "100%",
+        padding: "10px 12px",
+        borderRadius: 12,
+        border: "1px solid rgba(0,0,0,0.12)",
+        background: "white",
+        fontWeight: 900,
+        color: "rgba(17,24,39,0.88)",
+        outline: "none",
+        ...props.style,
+      }}
+    />
+  );
+}
+
+function SectionHeader(props: { title: string; subtitle?: string }) {
+  return (
+    <div style={{ display: "grid", gap: 4, padding: 14, borderBottom: "1px solid rgba(0,0,0,0.06)" }}>
+      <div style={{ fontSize: 13, fontWeight: 1100, color: "rgba(17,24,39,0.85)" }}>{props.title}</div>
+      {props.subtitle ? (
+        <div style={{ fontSize: 12, fontWeight: 900, color: "rgba(17,24,39,0.45)" }}>{props.subtitle}</div>
+      ) : null}
+    </div>
+  );
+}
+
+function sourceTone(source: string) {
+  if (source === "transcript" || source === "call_analysis") return "amber" as const;
+  if (source === "import") return "blue" as const;
+  return "neutral" as const;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 12,
+  border: "1px solid rgba(59,130,246,0.30)",
+  background: "rgba(59,130,246,0.10)",
+  cursor: "pointer",
+  fontWeight: 1000,
+};
+
+export default function DoNotCallRoute() {
+  const { shop, q, total, rows, importResult } = useLoaderData<typeof loader>();
+  const [exporting, setExporting] = React.useState(false);
+
+  async function exportCsv() {
+    setExporting(true);
+    try {
+      const res = await fetch("/app/do-not-call/csv");
+      if (!res.ok) return;
+      const blob = await res.blob();
+      const href = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = href;
+      a.download = `do-not-call-${shop}.csv`;
+      a.click();
+      URL.revokeObjectURL(href);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  const headerCell: React.CSSProperties = {
+    position: "sticky",
+    top: 0,
+    background: "white",
+    zIndex: 1,
+    borderBottom: "1px solid rgba(0,0,0,0.08)",
+    padding: "10px 10px",
+    fontSize: 12,
+    fontWeight: 1000,
+    color: "rgba(17,24,39,0.55)",
+    whiteSpace: "nowrap",
+    textAlign: "left",
+  };
+
+  const cell: React.CSSProperties = {
+    padding: "10px 10px",
+    borderBottom: "1px solid rgba(0,0,0,0.06)",
+    verticalAlign: "top",
+    fontSize: 13,
+    fontWeight: 900,
+    color: "rgba(17,24,39,0.78)",
+  };
+
+  return (
+    <div style={{ padding: 16, minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <div style={{ display: "grid", gap: 4, minWidth: 0 }}>
+          <div style={{ fontWeight: 1100, fontSize: 18, color: "rgba(17,24,39,0.92)" }}>Do not call</div>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            <Pill title="Shop">{shop}</Pill>
+            <Pill tone="red" title="Suppressed contacts">{total} suppressed</Pill>
+            {importResult ? (
+              <Pill tone="green" title="Last import">
+                Imported {importResult.added} · skipped {importResult.skipped}
+              </Pill>
+            ) : null}
+          </div>
+        </div>
+
+        <button type="button" onClick={exportCsv} disabled={exporting} style={buttonStyle}>
+          {exporting ? "Exporting…" : "Export CSV"}
+        </button>
+      </div>
+
+      <div
+        style={{
+          marginTop: 12,
+          display: "grid",
+          gridTemplateColumns: "minmax(0, 1fr) 380px",
+          gap: 12,
+          alignItems: "start",
+          minWidth: 0,
+        }}
+      >
+        <div
+          style={{
+            border: "1px solid rgba(0,0,0,0.08)",
+            borderRadius: 16,
+            overflow: "hidden",
+            background: "white",
+            boxShadow: "0 1px 0 rgba(0,0,0,0.03)",
+            minWidth: 0,
+          }}
+        >
+          <Form method="get" style={{ padding: 12, display: "flex", gap: 8, borderBottom: "1px solid rgba(0,0,0,0.06)" }}>
+            <Input name="q" defaultValue={q} placeholder="Search phone, email or reason" />
+            <button type="submit" style={buttonStyle}>
+              Search
+            </button>
+          </Form>
+
+          <div style={{ maxHeight: 650, overflow: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 720 }}>
+              <thead>
+                <tr>
+                  <th style={headerCell}>Phone</th>
+                  <th style={headerCell}>Email</th>
+                  <th style={headerCell}>Reason</th>
+                  <th style={headerCell}>Source</th>
+                  <th style={headerCell}>Added</th>
+                  <th style={headerCell}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 ? (
+                  <tr>
+                    <td style={{ ...cell, color: "rgba(17,24,39,0.45)" }} colSpan={6}>
+                      {q ? "No matches." : "Nobody on the list yet."}
+                    </td>
+                  </tr>
+                ) : (
+                  rows.map((r) => (
+                    <tr key={r.id}>
+                      <td style={cell}>{r.phone ?? "-"}</td>
+                      <td style={cell}>{r.email ?? "-"}</td>
+                      <td style={{ ...cell, maxWidth: 280 }}>{r.reason ?? "-"}</td>
+                      <td style={cell}>
+                        <Pill tone={sourceTone(r.source)} title={r.callJobId ? `Call job ${r.callJobId}` : undefined}>
+                          {r.source}
+                        </Pill>
+                      </td>
+                      <td style={{ ...cell, whiteSpace: "nowrap" }}>{formatWhen(r.createdAt)}</td>
+                      <td style={cell}>
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="remove" />
+                          <input type="hidden" name="id" value={r.id} />
+                          <button
+                            type="submit"
+                            style={{
+                              ...buttonStyle,
+                              padding: "6px 10px",
+                              border: "1px solid rgba(239,68,68,0.30)",
+                              background: "rgba(239,68,68,0.08)",
+                            }}
+                          >
+                            Remove
+                          </button>
+                        </Form>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div style={{ display: "grid", gap: 12, minWidth: 0 }}>
+          <div style={{ border: "1px solid rgba(0,0,0,0.08)", borderRadius: 16, background: "white" }}>
+            <SectionHeader title="Add contact" subtitle="Queued calls to this number are canceled right away." />
+            <Form method="post" style={{ padding: 14, display: "grid", gap: 10 }}>
+              <input type="hidden" name="intent" value="add" />
+              <Input name="phone" placeholder="Phone (+1 555 010 2000)" />
+              <Input name="email" placeholder="Email (optional)" />
+              <Input name="reason" placeholder="Reason (optional)" />
+              <button type="submit" style={buttonStyle}>
+                Add to list
+              </button>
+            </Form>
+          </div>
+
+          <div style={{ border: "1px solid rgba(0,0,0,0.08)", borderRadius: 16, background: "white" }}>
+            <SectionHeader
+              title="Import CSV"
+              subtitle="Columns: phone, email, reason (header row optional). Existing entries are skipped."
+            />
+            <Form method="post" encType="multipart/form-data" style={{ padding: 14, display: "grid", gap: 10 }}>
+              <input type="hidden" name="intent" value="import" />
+              <input type="file" name="file" accept=".csv,text/csv" />
+              <button type="submit" style={buttonStyle}>
+                Import
+              </button>
+            </Form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useRouteError());
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
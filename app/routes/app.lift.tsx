@@ -0,0 +1,234 @@
+// app/routes/app.lift.tsx
+import type { ReactNode } from "react";
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Link, useLoaderData, useRouteError, useSearchParams } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import { ensureSettings } from "../callRecovery.server";
+import { clampHoldoutPercent, liftReport, type GroupStats, type Interval, type LiftReport } from "../lib/holdout.server";
+
+const PERIODS = [30, 60, 90, 180] as const;
+
+type LoaderData = {
+  shop: string;
+  currency: string;
+  holdoutPercent: number;
+  days: number;
+  report: LiftReport;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const wanted = Number(new URL(request.url).searchParams.get("days"));
+  const days = (PERIODS as readonly number[]).includes(wanted) ? wanted : 30;
+  const to = new Date();
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const settings = await ensureSettings(shop);
+  const report = await liftReport(shop, { from, to });
+
+  return {
+    shop,
+    currency: settings.currency || "USD",
+    holdoutPercent: clampHoldoutPercent(settings.holdoutPercent),
+    days,
+    report,
+  } satisfies LoaderData;
+};
+
+function Pill(props: { children: ReactNode; tone?: "neutral" | "green" | "blue" | "amber" | "red"; title?: string }) {
+  const tone = props.tone ?? "neutral";
+  const t =
+    tone === "green"
+      ? { bg: "rgba(16,185,129,0.10)", bd: "rgba(16,185,129,0.25)", tx: "#065f46" }
+      : tone === "blue"
+      ? { bg: "rgba(59,130,246,0.10)", bd: "rgba(59,130,246,0.25)", tx: "#1e3a8a" }
+      : tone === "amber"
+      ? { bg: "rgba(245,158,11,0.10)", bd: "rgba(245,158,11,0.25)", tx: "#92400e" }
+      : tone === "red"
+      ? { bg: "rgba(239,68,68,0.10)", bd: "rgba(239,68,68,0.25)", tx: "#7f1d1d" }
+      : { bg: "rgba(0,0,0,0.04)", bd: "rgba(0,0,0,0.10)", tx: "rgba(0,0,0,0.75)" };
+
+  return (
+    <span
+      title={props.title}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        padding: "3px 10px",
+        borderRadius: 999,
+        border: `1px solid ${t.bd}`,
+        background: t.bg,
+        color: t.tx,
+        fontWeight: 950,
+        fontSize: 12,
+        whiteSpace: "nowrap",
+      }}
+    >
+      {props.children}
+    </span>
+  );
+}
+
+function SectionHeader(props: { title: string; subtitle?: string }) {
+  return (
+    <div style={{ display: "grid", gap: 4, padding: 14, borderBottom: "1px solid rgba(0,0,0,0.06)" }}>
+      <div style={{ fontSize: 13, fontWeight: 1100, color: "rgba(17,24,39,0.85)" }}>{props.title}</div>
+      {props.subtitle ? (
+        <div style={{ fontSize: 12, fontWeight: 900, color: "rgba(17,24,39,0.45)" }}>{props.subtitle}</div>
+      ) : null}
+    </div>
+  );
+}
+
+function pct(n: number) {
+  return `${(n * 100).toFixed(1)}%`;
+}
+
+function signedPts(n: number) {
+  const v = n * 100;
+  return `${v >= 0 ? "+" : ""}${v.toFixed(1)} pts`;
+}
+
+function GroupCard(props: { label: string; stats: GroupStats; money: (n: number) => string; tone: "blue" | "neutral" }) {
+  const s = props.stats;
+  return (
+    <div
+      style={{
+        border: "1px solid rgba(0,0,0,0.08)",
+        borderRadius: 16,
+        background: "white",
+        padding: 14,
+        display: "grid",
+        gap: 8,
+        minWidth: 0,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+        <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>{props.label}</div>
+        <Pill tone={props.tone}>{s.checkouts} checkouts</Pill>
+      </div>
+      <div style={{ fontWeight: 1000, fontSize: 22, color: "rgba(17,24,39,0.92)" }}>{pct(s.recoveryRate)}</div>
+      <div style={{ fontWeight: 850, fontSize: 12, color: "rgba(17,24,39,0.50)" }}>
+        {s.purchased} purchased · {props.money(s.revenue)} net revenue · {props.money(s.revenuePerCheckout)} per checkout
+      </div>
+    </div>
+  );
+}
+
+function IntervalRow(props: { label: string; value: Interval | null; format: (n: number) => string; hint: string }) {
+  const v = props.value;
+  const tone = !v ? "neutral" : v.low > 0 ? "green" : v.high < 0 ? "red" : "amber";
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "220px minmax(0, 1fr)", gap: 12, alignItems: "center", padding: "10px 14px" }}>
+      <div style={{ fontWeight: 1000, fontSize: 13, color: "rgba(17,24,39,0.80)" }}>{props.label}</div>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        {v ? (
+          <>
+            <Pill tone={tone}>{props.format(v.estimate)}</Pill>
+            <span style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.55)" }}>
+              95% CI {props.format(v.low)} to {props.format(v.high)}
+            </span>
+          </>
+        ) : (
+          <span style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.45)" }}>Needs checkouts in both groups</span>
+        )}
+        <span style={{ fontWeight: 850, fontSize: 11, color: "rgba(17,24,39,0.40)" }}>{props.hint}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function LiftRoute() {
+  const { shop, currency, holdoutPercent, days, report } = useLoaderData<typeof loader>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const money = (n: number) =>
+    new Intl.NumberFormat(undefined, { style: "currency", currency, maximumFractionDigits: 2 }).format(n);
+  const signedMoney = (n: number) => `${n >= 0 ? "+" : "-"}${money(Math.abs(n))}`;
+
+  const setDays = (d: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("days", String(d));
+    setSearchParams(next);
+  };
+
+  return (
+    <div style={{ padding: 16, minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <div style={{ display: "grid", gap: 4, minWidth: 0 }}>
+          <div style={{ fontWeight: 1100, fontSize: 18, color: "rgba(17,24,39,0.92)" }}>Lift report</div>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            <Pill title="Shop">{shop}</Pill>
+            <Pill tone={holdoutPercent > 0 ? "blue" : "amber"} title="Settings → Holdout control group">
+              {holdoutPercent > 0 ? `Holdout ${holdoutPercent}%` : "Holdout off"}
+            </Pill>
+            {report.rateDiff ? (
+              <Pill tone={report.significant ? "green" : "neutral"}>
+                {report.significant ? "Significant at 95%" : "Not significant yet"}
+              </Pill>
+            ) : null}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 6 }}>
+          {PERIODS.map((d) => (
+            <button
+              key={d}
+              type="button"
+              onClick={() => setDays(d)}
+              style={{
+                padding: "8px 10px",
+                borderRadius: 12,
+                border: "1px solid rgba(0,0,0,0.10)",
+                background: d === days ? "rgba(59,130,246,0.08)" : "white",
+                color: d === days ? "rgba(30,58,138,0.95)" : "rgba(17,24,39,0.80)",
+                fontWeight: 1000,
+                fontSize: 12,
+                cursor: "pointer",
+              }}
+            >
+              {d} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {holdoutPercent === 0 && report.control.checkouts === 0 ? (
+        <div style={{ marginTop: 12, fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.55)" }}>
+          No control group yet. Set a holdout percentage in <Link to="/app/settings">Settings</Link> to start measuring.
+        </div>
+      ) : null}
+
+      <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: 12 }}>
+        <GroupCard label="Called" stats={report.call} money={money} tone="blue" />
+        <GroupCard label="Control (not called)" stats={report.control} money={money} tone="neutral" />
+      </div>
+
+      <div style={{ marginTop: 12, border: "1px solid rgba(0,0,0,0.08)", borderRadius: 16, background: "white", overflow: "hidden" }}>
+        <SectionHeader
+          title="Incremental lift (called minus control)"
+          subtitle={`Checkouts assigned in the last ${days} days; any purchase counts in both groups. Recent checkouts may still convert.`}
+        />
+        <IntervalRow label="Recovery rate" value={report.rateDiff} format={signedPts} hint="Difference in purchase rate" />
+        <IntervalRow
+          label="Net revenue per checkout"
+          value={report.revenueDiff}
+          format={signedMoney}
+          hint="After refunds and cancellations"
+        />
+        <div style={{ padding: "10px 14px", fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.55)" }}>
+          Relative lift: {report.relativeLift == null ? "—" : `${report.relativeLift >= 0 ? "+" : ""}${pct(report.relativeLift)}`}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useRouteError());
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
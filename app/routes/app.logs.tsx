@@ -1,19 +1,265 @@
 // app/routes/app.logs.tsx
-import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
-import { useRouteError } from "react-router";
-import { authenticate } from "../shopify.server";
+import * as React from "react";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, Link, useLoaderData, useRouteError } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { formatWhen } from "../lib/callInsights.shared";
+
+type RejectedRow = {
+  id: string;
+  source: string;
+  reason: string;
+  ip: string | null;
+  headers: Record<string, string>;
+  bodyExcerpt: string | null;
+  createdAt: string;
+};
+
+function parseHeaders(json: string | null): Record<string, string> {
+  if (!json) return {};
+  try {
+    const v = JSON.parse(json);
+    return v && typeof v === "object" ? v : {};
+  } catch {
+    return {};
+  }
+}
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
-  return {};
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const since24h = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const [total, last24h, entries] = await Promise.all([
+    db.rejectedWebhook.count({ where: { shop } }),
+    db.rejectedWebhook.count({ where: { shop, createdAt: { gte: since24h } } }),
+    db.rejectedWebhook.findMany({ where: { shop }, orderBy: { createdAt: "desc" }, take: 200 }),
+  ]);
+
+  const rows: RejectedRow[] = entries.map((e) => ({
+    id: e.id,
+    source: e.source,
+    reason: e.reason,
+    ip: e.ip,
+    headers: parseHeaders(e.headersJson),
+    bodyExcerpt: e.bodyExcerpt,
+    createdAt: e.createdAt.toISOString(),
+  }));
+
+  return { shop, total, last24h, rows };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+
+  if (intent === "clear_rejected") {
+    await db.rejectedWebhook.deleteMany({ where: { shop } });
+  }
+
+  return new Response(null, { status: 303, headers: { Location: "/app/logs" } });
+};
+
+function Pill(props: { children: React.ReactNode; tone?: "neutral" | "green" | "blue" | "amber" | "red"; title?: string }) {
+  const tone = props.tone ?? "neutral";
+  const t =
+    tone === "green"
+      ? { bg: "rgba(16,185,129,0.10)", bd: "rgba(16,185,129,0.25)", tx: "#065f46" }
+      : tone === "blue"
+      ? { bg: "rgba(59,130,246,0.10)", bd: "rgba(59,130,246,0.25)", tx: "#1e3a8a" }
+      : tone === "amber"
+      ? { bg: "rgba(245,158,11,0.10)", bd: "rgba(245,158,11,0.25)", tx: "#92400e" }
+      : tone === "red"
+      ? { bg: "rgba(239,68,68,0.10)", bd: "rgba(239,68,68,0.25)", tx: "#7f1d1d" }
+      : { bg: "rgba(0,0,0,0.04)", bd: "rgba(0,0,0,0.10)", tx: "rgba(0,0,0,0.75)" };
+
+  return (
+    <span
+      title={props.title}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        padding: "3px 10px",
+        borderRadius: 999,
+        border: `1px solid ${t.bd}`,
+        background: t.bg,
+        color: t.tx,
+        fontWeight: 950,
+        fontSize: 12,
+        whiteSpace: "nowrap",
+      }}
+    >
+      {props.children}
+    </span>
+  );
+}
+
+function SectionHeader(props: { title: string; subtitle?: string }) {
+  return (
+    <div style={{ display: "grid", gap: 4, padding: 14, borderBottom: "1px solid rgba(0,0,0,0.06)" }}>
+      <div style={{ fontSize: 13, fontWeight: 1100, color: "rgba(17,24,39,0.85)" }}>{props.title}</div>
+      {props.subtitle ? (
+        <div style={{ fontSize: 12, fontWeight: 900, color: "rgba(17,24,39,0.45)" }}>{props.subtitle}</div>
+      ) : null}
+    </div>
+  );
+}
+
+function reasonTone(reason: string) {
+  if (reason.startsWith("Timestamp")) return "amber" as const;
+  if (reason.startsWith("Legacy") || reason.startsWith("Invalid legacy")) return "blue" as const;
+  return "red" as const;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  borderRadius: 12,
+  border: "1px solid rgba(239,68,68,0.30)",
+  background: "rgba(239,68,68,0.08)",
+  cursor: "pointer",
+  fontWeight: 1000,
 };
 
 export default function LogsRoute() {
-  return <div style={{ padding: 16, fontWeight: 900, fontSize: 18 }}>Logs</div>;
+  const { shop, total, last24h, rows } = useLoaderData<typeof loader>();
+
+  const headerCell: React.CSSProperties = {
+    position: "sticky",
+    top: 0,
+    background: "white",
+    zIndex: 1,
+    borderBottom: "1px solid rgba(0,0,0,0.08)",
+    padding: "10px 10px",
+    fontSize: 12,
+    fontWeight: 1000,
+    color: "rgba(17,24,39,0.55)",
+    whiteSpace: "nowrap",
+    textAlign: "left",
+  };
+
+  const cell: React.CSSProperties = {
+    padding: "10px 10px",
+    borderBottom: "1px solid rgba(0,0,0,0.06)",
+    verticalAlign: "top",
+    fontSize: 13,
+    fontWeight: 900,
+    color: "rgba(17,24,39,0.78)",
+  };
+
+  return (
+    <div style={{ padding: 16, minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <div style={{ display: "grid", gap: 4, minWidth: 0 }}>
+          <div style={{ fontWeight: 1100, fontSize: 18, color: "rgba(17,24,39,0.92)" }}>Logs</div>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            <Pill title="Shop">{shop}</Pill>
+            <Pill tone={last24h ? "red" : "green"} title="Rejected webhooks in the last 24 hours">
+              {last24h} rejected (24h)
+            </Pill>
+            <Pill title="All rejected webhooks kept for this shop">{total} total</Pill>
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <Link to="/app/webhook-events" style={{ fontSize: 13, fontWeight: 1000 }}>
+            Webhook events
+          </Link>
+          <Link to="/app/pipeline" style={{ fontSize: 13, fontWeight: 1000 }}>
+            Pipeline runs
+          </Link>
+          <Form method="post">
+            <input type="hidden" name="intent" value="clear_rejected" />
+            <button type="submit" disabled={!total} style={buttonStyle}>
+              Clear log
+            </button>
+          </Form>
+        </div>
+      </div>
+
+      <div
+        style={{
+          marginTop: 12,
+          border: "1px solid rgba(0,0,0,0.08)",
+          borderRadius: 16,
+          overflow: "hidden",
+          background: "white",
+          boxShadow: "0 1px 0 rgba(0,0,0,0.03)",
+          minWidth: 0,
+        }}
+      >
+        <SectionHeader
+          title="Rejected webhooks"
+          subtitle="Provider callbacks refused by signature, timestamp or legacy secret checks. Latest 200."
+        />
+
+        <div style={{ maxHeight: 650, overflow: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 720 }}>
+            <thead>
+              <tr>
+                <th style={headerCell}>When</th>
+                <th style={headerCell}>Source</th>
+                <th style={headerCell}>Reason</th>
+                <th style={headerCell}>IP</th>
+                <th style={headerCell}>Request</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.length === 0 ? (
+                <tr>
+                  <td style={{ ...cell, color: "rgba(17,24,39,0.45)" }} colSpan={5}>
+                    No rejected webhooks.
+                  </td>
+                </tr>
+              ) : (
+                rows.map((r) => (
+                  <tr key={r.id}>
+                    <td style={{ ...cell, whiteSpace: "nowrap" }}>{formatWhen(r.createdAt)}</td>
+                    <td style={cell}>
+                      <Pill>{r.source}</Pill>
+                    </td>
+                    <td style={cell}>
+                      <Pill tone={reasonTone(r.reason)}>{r.reason}</Pill>
+                    </td>
+                    <td style={{ ...cell, whiteSpace: "nowrap" }}>{r.ip ?? "-"}</td>
+                    <td style={{ ...cell, maxWidth: 420 }}>
+                      <details>
+                        <summary style={{ cursor: "pointer" }}>Headers &amp; body</summary>
+                        <pre
+                          style={{
+                            margin: "8px 0 0",
+                            whiteSpace: "pre-wrap",
+                            wordBreak: "break-all",
+                            fontSize: 11,
+                            fontWeight: 700,
+                            color: "rgba(17,24,39,0.70)",
+                          }}
+                        >
+                          {Object.entries(r.headers)
+                            .map(([k, v]) => `${k}: ${v}`)
+                            .join("\n") || "(no headers kept)"}
+                          {"\n\n"}
+                          {r.bodyExcerpt ?? "(empty body)"}
+                        </pre>
+                      </details>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
 }
 
 export function ErrorBoundary() {
   return boundary.error(useRouteError());
 }
-export const headers: HeadersFunction = (args) => boundary.headers(args);
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
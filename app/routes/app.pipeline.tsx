@@ -0,0 +1,323 @@
+// app/routes/app.pipeline.tsx
+import * as React from "react";
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Link, useLoaderData, useRouteError } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import type { ShopRunResult } from "../lib/pipeline.server";
+import { formatWhen } from "../lib/callInsights.shared";
+
+const RUN_STATUSES = ["RUNNING", "SUCCEEDED", "PARTIAL", "FAILED", "SKIPPED"] as const;
+type RunStatus = (typeof RUN_STATUSES)[number];
+
+type RunRow = {
+  id: string;
+  trigger: string;
+  status: RunStatus;
+  holder: string | null;
+  shops: number;
+  markedTotal: number;
+  enqueuedTotal: number;
+  shopErrors: number;
+  thisShop: { synced: number; marked: number; enqueued: number; error?: string } | null;
+  failedShops: Array<{ shop: string; error: string }>;
+  reconciled: string | null;
+  dialer: string | null;
+  error: string | null;
+  startedAt: string;
+  durationMs: number | null;
+};
+
+function parseJson(json: string | null): unknown {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+function envMinutes(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const [runs, lease, lastFired] = await Promise.all([
+    db.pipelineRun.findMany({ orderBy: { startedAt: "desc" }, take: 100 }),
+    db.pipelineLease.findUnique({ where: { name: "pipeline" } }),
+    db.pipelineRun.findFirst({ where: { trigger: "cron" }, orderBy: { startedAt: "desc" }, select: { startedAt: true } }),
+  ]);
+
+  const rows: RunRow[] = runs.map((r) => {
+    const parsed = parseJson(r.shopResultsJson);
+    const results = Array.isArray(parsed) ? (parsed as ShopRunResult[]) : [];
+    const mine = results.find((x) => x?.shop === shop) ?? null;
+    return {
+      id: r.id,
+      trigger: r.trigger,
+      status: r.status as RunStatus,
+      holder: r.holder,
+      shops: r.shops,
+      markedTotal: r.markedTotal,
+      enqueuedTotal: r.enqueuedTotal,
+      shopErrors: r.shopErrors,
+      thisShop: mine
+        ? {
+            synced: Number(mine.synced ?? 0),
+            marked: Number(mine.marked ?? 0),
+            enqueued: Number(mine.enqueued ?? 0),
+            error: mine.error,
+          }
+        : null,
+      failedShops: results.filter((x) => x?.error).map((x) => ({ shop: String(x.shop), error: String(x.error) })),
+      reconciled: r.reconciledJson,
+      dialer: r.dialerJson,
+      error: r.error,
+      startedAt: r.startedAt.toISOString(),
+      durationMs: r.durationMs,
+    };
+  });
+
+  // The scheduler is "late" when no cron hit (of any outcome) was recorded within the threshold.
+  const staleMinutes = envMinutes("PIPELINE_STALE_MINUTES", 15);
+  const lastCronAt = lastFired?.startedAt ?? null;
+  const stale = !lastCronAt || Date.now() - lastCronAt.getTime() > staleMinutes * 60 * 1000;
+
+  return {
+    shop,
+    rows,
+    staleMinutes,
+    stale,
+    lastCronAt: lastCronAt ? lastCronAt.toISOString() : null,
+    lease:
+      lease && lease.expiresAt.getTime() > Date.now()
+        ? { holder: lease.holder, acquiredAt: lease.acquiredAt.toISOString(), expiresAt: lease.expiresAt.toISOString() }
+        : null,
+  };
+};
+
+function Pill(props: { children: React.ReactNode; tone?: "neutral" | "green" | "blue" | "amber" | "red"; title?: string }) {
+  const tone = props.tone ?? "neutral";
+  const t =
+    tone === "green"
+      ? { bg: "rgba(16,185,129,0.10)", bd: "rgba(16,185,129,0.25)", tx: "#065f46" }
+      : tone === "blue"
+      ? { bg: "rgba(59,130,246,0.10)", bd: "rgba(59,130,246,0.25)", tx: "#1e3a8a" }
+      : tone === "amber"
+      ? { bg: "rgba(245,158,11,0.10)", bd: "rgba(245,158,11,0.25)", tx: "#92400e" }
+      : tone === "red"
+      ? { bg: "rgba(239,68,68,0.10)", bd: "rgba(239,68,68,0.25)", tx: "#7f1d1d" }
+      : { bg: "rgba(0,0,0,0.04)", bd: "rgba(0,0,0,0.10)", tx: "rgba(0,0,0,0.75)" };
+
+  return (
+    <span
+      title={props.title}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        padding: "3px 10px",
+        borderRadius: 999,
+        border: `1px solid ${t.bd}`,
+        background: t.bg,
+        color: t.tx,
+        fontWeight: 950,
+        fontSize: 12,
+        whiteSpace: "nowrap",
+      }}
+    >
+      {props.children}
+    </span>
+  );
+}
+
+function SectionHeader(props: { title: string; subtitle?: string }) {
+  return (
+    <div style={{ display: "grid", gap: 4, padding: 14, borderBottom: "1px solid rgba(0,0,0,0.06)" }}>
+      <div style={{ fontSize: 13, fontWeight: 1100, color: "rgba(17,24,39,0.85)" }}>{props.title}</div>
+      {props.subtitle ? (
+        <div style={{ fontSize: 12, fontWeight: 900, color: "rgba(17,24,39,0.45)" }}>{props.subtitle}</div>
+      ) : null}
+    </div>
+  );
+}
+
+function statusTone(s: RunStatus) {
+  if (s === "SUCCEEDED") return "green" as const;
+  if (s === "FAILED") return "red" as const;
+  if (s === "PARTIAL" || s === "SKIPPED") return "amber" as const;
+  return "blue" as const;
+}
+
+function formatDuration(ms: number | null) {
+  if (ms == null) return "-";
+  if (ms < 1000) return `${ms}ms`;
+  const s = ms / 1000;
+  return s < 60 ? `${s.toFixed(1)}s` : `${Math.floor(s / 60)}m ${Math.round(s % 60)}s`;
+}
+
+export default function PipelineRoute() {
+  const { shop, rows, staleMinutes, stale, lastCronAt, lease } = useLoaderData<typeof loader>();
+
+  const headerCell: React.CSSProperties = {
+    position: "sticky",
+    top: 0,
+    background: "white",
+    zIndex: 1,
+    borderBottom: "1px solid rgba(0,0,0,0.08)",
+    padding: "10px 10px",
+    fontSize: 12,
+    fontWeight: 1000,
+    color: "rgba(17,24,39,0.55)",
+    whiteSpace: "nowrap",
+    textAlign: "left",
+  };
+
+  const cell: React.CSSProperties = {
+    padding: "10px 10px",
+    borderBottom: "1px solid rgba(0,0,0,0.06)",
+    verticalAlign: "top",
+    fontSize: 13,
+    fontWeight: 900,
+    color: "rgba(17,24,39,0.78)",
+  };
+
+  return (
+    <div style={{ padding: 16, minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <div style={{ display: "grid", gap: 4, minWidth: 0 }}>
+          <div style={{ fontWeight: 1100, fontSize: 18, color: "rgba(17,24,39,0.92)" }}>Pipeline runs</div>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            <Pill title="Shop">{shop}</Pill>
+            <Pill
+              tone={stale ? "red" : "green"}
+              title={`Flagged when no cron run was recorded in the last ${staleMinutes} minutes`}
+            >
+              {lastCronAt ? `Last cron ${formatWhen(lastCronAt)}` : "No cron run recorded"}
+              {stale ? " (late)" : ""}
+            </Pill>
+            {lease ? (
+              <Pill tone="blue" title={`Acquired ${formatWhen(lease.acquiredAt)}, expires ${formatWhen(lease.expiresAt)}`}>
+                Lease: {lease.holder.split(":")[0]}
+              </Pill>
+            ) : (
+              <Pill title="No run is holding the pipeline lease">Idle</Pill>
+            )}
+          </div>
+        </div>
+
+        <Link to="/app/logs" style={{ fontSize: 13, fontWeight: 1000 }}>
+          Logs
+        </Link>
+      </div>
+
+      <div
+        style={{
+          marginTop: 12,
+          border: "1px solid rgba(0,0,0,0.08)",
+          borderRadius: 16,
+          overflow: "hidden",
+          background: "white",
+          boxShadow: "0 1px 0 rgba(0,0,0,0.03)",
+          minWidth: 0,
+        }}
+      >
+        <SectionHeader
+          title="Recent runs"
+          subtitle="Reap stuck calls, sync checkouts and enqueue per shop (background task), then kick the dialer. Latest 100, all shops."
+        />
+
+        <div style={{ maxHeight: 650, overflow: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 960 }}>
+            <thead>
+              <tr>
+                <th style={headerCell}>Started</th>
+                <th style={headerCell}>Trigger</th>
+                <th style={headerCell}>Status</th>
+                <th style={headerCell}>Duration</th>
+                <th style={headerCell}>Shops</th>
+                <th style={headerCell}>Marked</th>
+                <th style={headerCell}>Enqueued</th>
+                <th style={headerCell}>This shop</th>
+                <th style={headerCell}>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.length === 0 ? (
+                <tr>
+                  <td style={{ ...cell, color: "rgba(17,24,39,0.45)" }} colSpan={9}>
+                    No pipeline runs recorded yet.
+                  </td>
+                </tr>
+              ) : (
+                rows.map((r) => (
+                  <tr key={r.id}>
+                    <td style={{ ...cell, whiteSpace: "nowrap" }}>{formatWhen(r.startedAt)}</td>
+                    <td style={cell}>
+                      <Pill>{r.trigger}</Pill>
+                    </td>
+                    <td style={cell}>
+                      <Pill tone={statusTone(r.status)}>{r.status.toLowerCase()}</Pill>
+                    </td>
+                    <td style={{ ...cell, whiteSpace: "nowrap" }}>{formatDuration(r.durationMs)}</td>
+                    <td style={cell}>
+                      {r.shops}
+                      {r.shopErrors ? <div style={{ fontSize: 11, color: "#7f1d1d" }}>{r.shopErrors} failed</div> : null}
+                    </td>
+                    <td style={cell}>{r.markedTotal}</td>
+                    <td style={cell}>{r.enqueuedTotal}</td>
+                    <td style={cell}>
+                      {r.thisShop ? (
+                        r.thisShop.error ? (
+                          <span style={{ color: "#7f1d1d" }}>{r.thisShop.error}</span>
+                        ) : (
+                          `${r.thisShop.synced} synced, ${r.thisShop.marked} marked, ${r.thisShop.enqueued} enqueued`
+                        )
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td style={{ ...cell, maxWidth: 380 }}>
+                      {r.error ? <div style={{ color: r.status === "SKIPPED" ? "#92400e" : "#7f1d1d" }}>{r.error}</div> : null}
+                      {r.reconciled || r.dialer || r.failedShops.length ? (
+                        <details>
+                          <summary style={{ cursor: "pointer" }}>Reaper, dialer &amp; shop errors</summary>
+                          <pre
+                            style={{
+                              margin: "8px 0 0",
+                              whiteSpace: "pre-wrap",
+                              wordBreak: "break-all",
+                              fontSize: 11,
+                              fontWeight: 700,
+                              color: "rgba(17,24,39,0.70)",
+                            }}
+                          >
+                            {`reaper: ${r.reconciled ?? "-"}\n\ndialer: ${r.dialer ?? "-"}`}
+                            {r.failedShops.length
+                              ? `\n\n${r.failedShops.map((f) => `${f.shop}: ${f.error}`).join("\n")}`
+                              : ""}
+                            {r.holder ? `\n\nholder: ${r.holder}` : ""}
+                          </pre>
+                        </details>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useRouteError());
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
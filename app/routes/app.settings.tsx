@@ -1,15 +1,77 @@
 // app/routes/app.settings.tsx
 import * as React from "react";
 import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
-import { Form, useLoaderData, useRouteError } from "react-router";
+import { Form, Link, useActionData, useLoaderData, useRouteError } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
 import { ensureSettings } from "../callRecovery.server";
+import {
+  callScheduleFromSettings,
+  formatBlackoutLines,
+  nextAllowedSlot,
+  parseBlackoutDates,
+  parseBlackoutLines,
+  resolveCallTimezone,
+  serializeWeeklySchedule,
+  weeklyScheduleRows,
+} from "../lib/callSchedule.server";
+import {
+  parseRetryPolicy,
+  retryPolicyFromSettings,
+  retryTimeline,
+  serializeRetryPolicy,
+  type RetryOutcome,
+  type RetryRule,
+} from "../lib/retryPolicy.server";
+import { parseConsentCountries, pickConsentPolicy, type ConsentPolicy } from "../lib/consent.server";
+import {
+  countryRulesFromSettings,
+  parseCountryRules,
+  serializeCountryRules,
+  type CountryRule,
+} from "../lib/countryRules.server";
+import { decryptSecret, encryptSecret, isEncryptionConfigured, maskSecret } from "../lib/secrets.server";
+import { testVapiConnection } from "../lib/providers/vapi.server";
+import { clampHoldoutPercent } from "../lib/holdout.server";
+import { pickAttributionModel, type AttributionModel } from "../lib/touchpoints.server";
+import {
+  ATTRIBUTION_OUTCOMES,
+  ATTRIBUTION_RULES,
+  attributionConfigFromSettings,
+  type AttributionRule,
+} from "../lib/attribution.server";
+import {
+  DEFAULT_SIGNATURE_HEADER,
+  DEFAULT_TIMESTAMP_HEADER,
+  clampTolerance,
+  generateSigningSecret,
+  normalizeHeaderName,
+} from "../lib/webhookAuth.server";
 
 type Tone = "neutral" | "friendly" | "premium" | "urgent";
 type Goal = "complete_checkout" | "qualify_and_follow_up" | "support_only";
 type OfferRule = "ask_only" | "price_objection" | "after_first_objection" | "always";
+type TimezoneMode = "customer" | "shop";
+
+// Order shown in the retry rules table and the preview.
+const RETRY_ROWS: Array<{ outcome: RetryOutcome; label: string; hint: string }> = [
+  { outcome: "no_answer", label: "No answer", hint: "Rang out, nobody picked up." },
+  { outcome: "busy", label: "Busy", hint: "Line busy or call rejected." },
+  { outcome: "voicemail", label: "Voicemail", hint: "Reached voicemail." },
+  { outcome: "provider_error", label: "Provider error", hint: "Call could not be placed." },
+  { outcome: "answered", label: "Answered", hint: "Conversation happened, no order yet." },
+];
+
+// Empty rows rendered under the configured countries for adding new ones.
+const COUNTRY_BLANK_ROWS = 3;
+
+type RetryPreview = {
+  outcome: RetryOutcome;
+  label: string;
+  steps: Array<{ attempt: number; delayMinutes: number; jitterMinutes: { min: number; max: number } | null; at: string }>;
+  stopReason: string;
+};
 
 type LoaderData = {
   shop: string;
@@ -17,14 +79,46 @@ type LoaderData = {
     enabled: boolean;
     delayMinutes: number;
     maxAttempts: number;
-    retryMinutes: number;
+    retryRules: Record<RetryOutcome, RetryRule>;
+    backoffFactor: number;
+    jitterPercent: number;
+    maxDelayMinutes: number;
     minOrderValue: number;
     currency: string;
     callWindowStart: string;
     callWindowEnd: string;
+    callTimezoneMode: TimezoneMode;
+    shopTimezone: string | null;
+    weeklySchedule: Array<{ day: number; label: string; enabled: boolean; start: string | null; end: string | null }>;
+    blackoutDates: string;
+    consentPolicy: ConsentPolicy;
+    consentCountries: string;
+    countryRestrict: boolean;
+    countryRules: CountryRule[];
+    budgetCallsPerDay: number | null;
+    budgetMinutesPerMonth: number | null;
+    budgetSpendPerMonth: number | null;
+    maxConcurrentCalls: number;
+    maxConcurrentPerNumber: number;
+    attributionWindowDays: number;
+    attributionRules: AttributionRule[];
+    attributionOutcomes: string[];
+    attributionModel: AttributionModel;
+    holdoutPercent: number;
 
     vapiAssistantId: string | null;
     vapiPhoneNumberId: string | null;
+    vapiApiKeyMasked: string | null;
+    encryptionReady: boolean;
+    // platform (env) defaults used when the shop leaves a field blank
+    platformVapi: { apiKey: boolean; assistantId: boolean; phoneNumberId: boolean };
+
+    webhookSecretMasked: string | null;
+    webhookSignatureHeader: string;
+    webhookTimestampHeader: string;
+    webhookToleranceSeconds: number;
+    webhookLegacySecretEnabled: boolean;
+    platformWebhookSecret: boolean;
 
     // playbook extras (stored as extra columns in public."Settings")
     tone: Tone;
@@ -45,6 +139,7 @@ type LoaderData = {
 
     userPrompt: string | null;
   };
+  retryPreview: { timezone: string; rows: RetryPreview[] };
 };
 
 function toInt(v: FormDataEntryValue | null, fallback: number) {
@@ -61,6 +156,11 @@ function toFloatOrNull(v: FormDataEntryValue | null): number | null {
   const n = Number.parseFloat(s);
   return Number.isFinite(n) ? n : null;
 }
+function toCapOrNull(v: FormDataEntryValue | null, max: number, integer: boolean) {
+  const n = toFloatOrNull(v);
+  if (n == null || n <= 0) return null;
+  return Math.min(integer ? Math.max(1, Math.round(n)) : n, max);
+}
 function toBool(v: FormDataEntryValue | null) {
   return String(v ?? "") === "on" || String(v ?? "") === "true" || String(v ?? "") === "1";
 }
@@ -83,6 +183,10 @@ function pickOfferRule(v: any): OfferRule {
   if (s === "price_objection" || s === "after_first_objection" || s === "always" || s === "ask_only") return s as OfferRule;
   return "ask_only";
 }
+function pickTimezoneMode(v: unknown): TimezoneMode {
+  const s = String(v ?? "").trim().toLowerCase();
+  return s === "shop" ? "shop" : "customer";
+}
 function pickCurrency(v: any): string {
   const s = String(v ?? "").trim().toUpperCase();
   if (s === "USD" || s === "EUR" || s === "GBP") return s;
@@ -192,20 +296,74 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const s = await ensureSettings(shop);
   const extras = await readSettingsExtras(shop);
 
+  // Preview in shop time: first call after the abandon delay, every call ending the same way.
+  const retryPolicy = retryPolicyFromSettings(s);
+  const countryRules = countryRulesFromSettings(s);
+  const attribution = attributionConfigFromSettings(s);
+  const schedule = callScheduleFromSettings(s);
+  // Display only: shown in UTC (and labelled so) until the shop timezone is synced.
+  const previewTimezone = resolveCallTimezone({ timezoneMode: "shop", shopTimezone: s.shopTimezone }) ?? "UTC";
+  const firstCallAt = new Date(Date.now() + Number(s.delayMinutes ?? 30) * 60 * 1000);
+  const retryPreviewRows: RetryPreview[] = RETRY_ROWS.map((r) => {
+    const t = retryTimeline(retryPolicy, r.outcome, firstCallAt, (d) => nextAllowedSlot(d, schedule, previewTimezone));
+    return {
+      outcome: r.outcome,
+      label: r.label,
+      steps: t.steps.map((step) => ({ ...step, at: step.at.toISOString() })),
+      stopReason: t.stopReason,
+    };
+  });
+
   return {
     shop,
     settings: {
       enabled: Boolean(s.enabled),
       delayMinutes: Number(s.delayMinutes ?? 30),
-      maxAttempts: Number(s.maxAttempts ?? 2),
-      retryMinutes: Number(s.retryMinutes ?? 180),
+      maxAttempts: retryPolicy.maxCallsPerCheckout,
+      retryRules: retryPolicy.rules,
+      backoffFactor: retryPolicy.backoffFactor,
+      jitterPercent: retryPolicy.jitterPercent,
+      maxDelayMinutes: retryPolicy.maxDelayMinutes,
       minOrderValue: Number(s.minOrderValue ?? 0),
       currency: pickCurrency(String(s.currency ?? "USD")),
       callWindowStart: String((s as any).callWindowStart ?? "09:00"),
       callWindowEnd: String((s as any).callWindowEnd ?? "19:00"),
+      callTimezoneMode: pickTimezoneMode(s.callTimezoneMode),
+      shopTimezone: s.shopTimezone ?? null,
+      weeklySchedule: weeklyScheduleRows(s.weeklyScheduleJson),
+      blackoutDates: formatBlackoutLines(parseBlackoutDates(s.blackoutDatesJson)),
+      consentPolicy: pickConsentPolicy(s.consentPolicy),
+      consentCountries: parseConsentCountries(s.consentCountries).join(", "),
+      countryRestrict: countryRules.restrict,
+      countryRules: countryRules.countries,
+      budgetCallsPerDay: s.budgetCallsPerDay ?? null,
+      budgetMinutesPerMonth: s.budgetMinutesPerMonth ?? null,
+      budgetSpendPerMonth: s.budgetSpendPerMonth ?? null,
+      maxConcurrentCalls: s.maxConcurrentCalls ?? 3,
+      maxConcurrentPerNumber: s.maxConcurrentPerNumber ?? 5,
+      attributionWindowDays: attribution.windowDays,
+      attributionRules: attribution.rules,
+      attributionOutcomes: attribution.outcomes,
+      attributionModel: pickAttributionModel(s.attributionModel),
+      holdoutPercent: clampHoldoutPercent(s.holdoutPercent),
 
       vapiAssistantId: ((s as any).vapiAssistantId ?? null) as string | null,
       vapiPhoneNumberId: ((s as any).vapiPhoneNumberId ?? null) as string | null,
+      vapiApiKeyMasked: maskSecret(decryptSecret(s.vapiApiKeyEnc)) ?? (s.vapiApiKeyEnc ? "unreadable" : null),
+      encryptionReady: isEncryptionConfigured(),
+      platformVapi: {
+        apiKey: Boolean(process.env.VAPI_API_KEY?.trim()),
+        assistantId: Boolean(process.env.VAPI_ASSISTANT_ID?.trim()),
+        phoneNumberId: Boolean(process.env.VAPI_PHONE_NUMBER_ID?.trim()),
+      },
+
+      webhookSecretMasked:
+        maskSecret(decryptSecret(s.webhookSigningSecretEnc)) ?? (s.webhookSigningSecretEnc ? "unreadable" : null),
+      webhookSignatureHeader: s.webhookSignatureHeader,
+      webhookTimestampHeader: s.webhookTimestampHeader,
+      webhookToleranceSeconds: s.webhookToleranceSeconds,
+      webhookLegacySecretEnabled: s.webhookLegacySecretEnabled,
+      platformWebhookSecret: Boolean(process.env.VAPI_WEBHOOK_SIGNING_SECRET?.trim()),
 
       tone: pickTone(extras?.tone ?? "neutral"),
       goal: pickGoal(extras?.goal ?? "complete_checkout"),
@@ -226,6 +384,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
       userPrompt: ((s as any).userPrompt ?? null) as string | null,
     },
+    retryPreview: { timezone: previewTimezone, rows: retryPreviewRows },
   } satisfies LoaderData;
 };
 
@@ -238,19 +397,113 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const extras = await readSettingsExtras(shop);
 
   const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "save");
 
   const enabled = String(fd.get("enabled") ?? "") === "on";
   const delayMinutes = toInt(fd.get("delayMinutes"), Number(s.delayMinutes ?? 30));
-  const maxAttempts = toInt(fd.get("maxAttempts"), Number(s.maxAttempts ?? 2));
-  const retryMinutes = toInt(fd.get("retryMinutes"), Number(s.retryMinutes ?? 180));
+  const maxAttempts = clamp(toInt(fd.get("maxAttempts"), Number(s.maxAttempts ?? 2)), 1, 20);
+  // Round-trip through the parser so out-of-range input is clamped the same way it is read.
+  const currentRetry = retryPolicyFromSettings(s);
+  const retryPolicyJson = serializeRetryPolicy(
+    parseRetryPolicy(
+      JSON.stringify({
+        rules: Object.fromEntries(
+          RETRY_ROWS.map(({ outcome }) => [
+            outcome,
+            {
+              retry: toBool(fd.get(`retry_${outcome}_enabled`)),
+              baseMinutes: toInt(fd.get(`retry_${outcome}_base`), currentRetry.rules[outcome].baseMinutes),
+              maxRetries: toInt(fd.get(`retry_${outcome}_max`), currentRetry.rules[outcome].maxRetries),
+            },
+          ])
+        ),
+        backoffFactor: toFloat(fd.get("retryBackoffFactor"), currentRetry.backoffFactor),
+        jitterPercent: toInt(fd.get("retryJitterPercent"), currentRetry.jitterPercent),
+        maxDelayMinutes: toInt(fd.get("retryMaxDelayMinutes"), currentRetry.maxDelayMinutes),
+      }),
+      s
+    )
+  );
   const minOrderValue = toFloat(fd.get("minOrderValue"), Number(s.minOrderValue ?? 0));
 
   const currency = pickCurrency(fd.get("currency") ?? (s as any).currency ?? "USD");
   const callWindowStart = String(fd.get("callWindowStart") ?? (s as any).callWindowStart ?? "09:00").trim() || "09:00";
   const callWindowEnd = String(fd.get("callWindowEnd") ?? (s as any).callWindowEnd ?? "19:00").trim() || "19:00";
+  const callTimezoneMode = pickTimezoneMode(fd.get("callTimezoneMode") ?? s.callTimezoneMode);
+  const weeklyScheduleJson = serializeWeeklySchedule(
+    [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+      day,
+      enabled: toBool(fd.get(`day${day}_enabled`)),
+      start: String(fd.get(`day${day}_start`) ?? "").trim() || null,
+      end: String(fd.get(`day${day}_end`) ?? "").trim() || null,
+    }))
+  );
+  const blackouts = parseBlackoutLines(String(fd.get("blackoutDates") ?? ""));
+  const blackoutDatesJson = blackouts.length ? JSON.stringify(blackouts) : null;
+  const consentPolicy = pickConsentPolicy(fd.get("consentPolicy") ?? s.consentPolicy);
+  const consentCountries = parseConsentCountries(String(fd.get("consentCountries") ?? "")).join(",") || null;
+  // Rows with a blank country are dropped by the parser.
+  const countryRowCount = clamp(toInt(fd.get("countryRowCount"), 0), 0, 300);
+  const countryRulesJson = serializeCountryRules(
+    parseCountryRules(
+      JSON.stringify({
+        restrict: toBool(fd.get("countryRestrict")),
+        countries: Array.from({ length: countryRowCount }, (_, i) => ({
+          country: fd.get(`country_${i}_code`),
+          callWindowStart: fd.get(`country_${i}_start`),
+          callWindowEnd: fd.get(`country_${i}_end`),
+          maxAttempts: fd.get(`country_${i}_max`),
+          consent: fd.get(`country_${i}_consent`),
+        })),
+      })
+    )
+  );
+
+  // Budget caps: blank or 0 = no cap.
+  const budgetCallsPerDay = toCapOrNull(fd.get("budgetCallsPerDay"), 100000, true);
+  const budgetMinutesPerMonth = toCapOrNull(fd.get("budgetMinutesPerMonth"), 1000000, true);
+  const budgetSpendPerMonth = toCapOrNull(fd.get("budgetSpendPerMonth"), 1000000, false);
+
+  const maxConcurrentCalls = clamp(toInt(fd.get("maxConcurrentCalls"), 3), 1, 100);
+  const maxConcurrentPerNumber = clamp(toInt(fd.get("maxConcurrentPerNumber"), 5), 1, 100);
+
+  // Attribution: unchecked rules/outcomes are left out of the CSV.
+  const attributionWindowDays = clamp(toInt(fd.get("attributionWindowDays"), 7), 1, 90);
+  const attributionRules = ATTRIBUTION_RULES.filter((r) => toBool(fd.get(`attrRule_${r}`))).join(",");
+  const attributionOutcomes = ATTRIBUTION_OUTCOMES.filter((o) => toBool(fd.get(`attrOutcome_${o}`))).join(",");
+  const attributionModel = pickAttributionModel(fd.get("attributionModel"));
+  const holdoutPercent = clampHoldoutPercent(toInt(fd.get("holdoutPercent"), 0));
 
   const vapiAssistantId = String(fd.get("vapiAssistantId") ?? "").trim() || null;
   const vapiPhoneNumberId = String(fd.get("vapiPhoneNumberId") ?? "").trim() || null;
+
+  // API key: blank keeps the stored one; "clear" drops it (falls back to the platform key).
+  const vapiApiKeyInput = String(fd.get("vapiApiKey") ?? "").trim();
+  let vapiApiKeyEnc = s.vapiApiKeyEnc ?? null;
+  if (toBool(fd.get("vapiApiKeyClear"))) vapiApiKeyEnc = null;
+  else if (vapiApiKeyInput) {
+    if (!isEncryptionConfigured()) {
+      return { error: "APP_ENCRYPTION_KEY is not set on the server, so the API key can't be stored." };
+    }
+    vapiApiKeyEnc = encryptSecret(vapiApiKeyInput);
+  }
+
+  // Webhook signing secret: same blank-keeps / clear rules; "generate" replaces it and shows it once.
+  const webhookSignatureHeader = normalizeHeaderName(fd.get("webhookSignatureHeader"), DEFAULT_SIGNATURE_HEADER);
+  const webhookTimestampHeader = normalizeHeaderName(fd.get("webhookTimestampHeader"), DEFAULT_TIMESTAMP_HEADER);
+  const webhookToleranceSeconds = clampTolerance(fd.get("webhookToleranceSeconds") ?? s.webhookToleranceSeconds);
+  const webhookLegacySecretEnabled = toBool(fd.get("webhookLegacySecretEnabled"));
+  const webhookSecretInput = String(fd.get("webhookSigningSecret") ?? "").trim();
+  const generatedWebhookSecret = intent === "generate_webhook_secret" ? generateSigningSecret() : null;
+  const webhookSecretClear = toBool(fd.get("webhookSigningSecretClear"));
+  let webhookSigningSecretEnc = s.webhookSigningSecretEnc ?? null;
+  if (webhookSecretClear && !generatedWebhookSecret) webhookSigningSecretEnc = null;
+  else if (generatedWebhookSecret || webhookSecretInput) {
+    if (!isEncryptionConfigured()) {
+      return { error: "APP_ENCRYPTION_KEY is not set on the server, so the signing secret can't be stored." };
+    }
+    webhookSigningSecretEnc = encryptSecret(generatedWebhookSecret ?? webhookSecretInput);
+  }
   const userPrompt = String(fd.get("userPrompt") ?? "").trim() || null;
 
   const tone = pickTone(fd.get("tone") ?? extras?.tone ?? "neutral");
@@ -293,26 +546,70 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       enabled,
       delayMinutes,
       maxAttempts,
-      retryMinutes,
+      retryPolicyJson,
       minOrderValue,
       currency,
       callWindowStart,
       callWindowEnd,
+      callTimezoneMode,
+      weeklyScheduleJson,
+      blackoutDatesJson,
+      consentPolicy,
+      consentCountries,
+      countryRulesJson,
+      budgetCallsPerDay,
+      budgetMinutesPerMonth,
+      budgetSpendPerMonth,
+      maxConcurrentCalls,
+      maxConcurrentPerNumber,
+      attributionWindowDays,
+      attributionRules,
+      attributionOutcomes,
+      attributionModel,
+      holdoutPercent,
       vapiAssistantId,
       vapiPhoneNumberId,
+      vapiApiKeyEnc,
+      webhookSigningSecretEnc,
+      webhookSignatureHeader,
+      webhookTimestampHeader,
+      webhookToleranceSeconds,
+      webhookLegacySecretEnabled,
       userPrompt,
     } as any,
     update: {
       enabled,
       delayMinutes,
       maxAttempts,
-      retryMinutes,
+      retryPolicyJson,
       minOrderValue,
       currency,
       callWindowStart,
       callWindowEnd,
+      callTimezoneMode,
+      weeklyScheduleJson,
+      blackoutDatesJson,
+      consentPolicy,
+      consentCountries,
+      countryRulesJson,
+      budgetCallsPerDay,
+      budgetMinutesPerMonth,
+      budgetSpendPerMonth,
+      maxConcurrentCalls,
+      maxConcurrentPerNumber,
+      attributionWindowDays,
+      attributionRules,
+      attributionOutcomes,
+      attributionModel,
+      holdoutPercent,
       vapiAssistantId,
       vapiPhoneNumberId,
+      vapiApiKeyEnc,
+      webhookSigningSecretEnc,
+      webhookSignatureHeader,
+      webhookTimestampHeader,
+      webhookToleranceSeconds,
+      webhookLegacySecretEnabled,
       userPrompt,
     } as any,
   });
@@ -333,6 +630,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     followupSmsEnabled,
   });
 
+  if (intent === "test_vapi") {
+    return { vapiTest: await testVapiConnection(shop) };
+  }
+  if (generatedWebhookSecret) {
+    return { generatedWebhookSecret };
+  }
+
   const search = safeSearchFromRequest(request);
   return new Response(null, {
     status: 303,
@@ -459,8 +763,204 @@ function Divider() {
   return <div style={{ height: 1, background: "rgba(0,0,0,0.06)" }} />;
 }
 
+const ATTRIBUTION_RULE_OPTIONS: Array<{ rule: AttributionRule; label: string; hint: string }> = [
+  { rule: "checkout_id", label: "Checkout ID", hint: "Order placed from the same checkout" },
+  { rule: "checkout_token", label: "Checkout token", hint: "Same checkout token (e.g. a recovery link)" },
+  { rule: "email", label: "Customer email", hint: "Open/abandoned checkout with the same email" },
+  { rule: "phone", label: "Phone number", hint: "Same number after E.164 normalization" },
+];
+
+const ATTRIBUTION_OUTCOME_OPTIONS: Array<{ outcome: string; label: string }> = [
+  { outcome: "COMPLETED", label: "Answered" },
+  { outcome: "VOICEMAIL", label: "Voicemail" },
+  { outcome: "NO_ANSWER", label: "No answer" },
+  { outcome: "BUSY", label: "Busy" },
+];
+
+const ATTRIBUTION_MODEL_OPTIONS: Array<{ model: AttributionModel; label: string; hint: string }> = [
+  { model: "last_touch", label: "Last touch", hint: "All credit to the last touch before the order" },
+  { model: "first_touch", label: "First touch", hint: "All credit to the first touch in the window" },
+  { model: "linear", label: "Linear", hint: "Equal credit to every touch" },
+  { model: "time_decay", label: "Time decay", hint: "Credit halves every 24h before the order" },
+];
+
+function AttributionSettings(props: { windowDays: number; rules: string[]; outcomes: string[]; model: AttributionModel }) {
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Attribution</div>
+      <div style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.45)" }}>
+        An order counts as recovered when it matches a checkout (rules tried top to bottom) that was touched within the
+        window before the order: a call with a crediting outcome, a follow-up sent, or a recovery link clicked. The model
+        decides how its revenue splits across channels on the dashboard. Other matched orders are converted.
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(4, minmax(0, 1fr))", gap: 12 }}>
+        <Field label="Window (days after a touch)">
+          <Input name="attributionWindowDays" defaultValue={props.windowDays} inputMode="numeric" />
+        </Field>
+
+        <Field label="Attribution model">
+          <div style={{ display: "grid", gap: 6 }}>
+            {ATTRIBUTION_MODEL_OPTIONS.map((o) => (
+              <label key={o.model} title={o.hint} style={{ display: "flex", alignItems: "center", gap: 8, fontWeight: 950, fontSize: 12 }}>
+                <input type="radio" name="attributionModel" value={o.model} defaultChecked={props.model === o.model} />
+                {o.label}
+              </label>
+            ))}
+          </div>
+        </Field>
+
+        <Field label="Match orders by">
+          <div style={{ display: "grid", gap: 6 }}>
+            {ATTRIBUTION_RULE_OPTIONS.map((o) => (
+              <label key={o.rule} title={o.hint} style={{ display: "flex", alignItems: "center", gap: 8, fontWeight: 950, fontSize: 12 }}>
+                <input type="checkbox" name={`attrRule_${o.rule}`} defaultChecked={props.rules.includes(o.rule)} />
+                {o.label}
+              </label>
+            ))}
+          </div>
+        </Field>
+
+        <Field label="Call outcomes that earn credit">
+          <div style={{ display: "grid", gap: 6 }}>
+            {ATTRIBUTION_OUTCOME_OPTIONS.map((o) => (
+              <label key={o.outcome} style={{ display: "flex", alignItems: "center", gap: 8, fontWeight: 950, fontSize: 12 }}>
+                <input type="checkbox" name={`attrOutcome_${o.outcome}`} defaultChecked={props.outcomes.includes(o.outcome)} />
+                {o.label}
+              </label>
+            ))}
+          </div>
+        </Field>
+      </div>
+    </div>
+  );
+}
+
+function CountryRulesEditor(props: { restrict: boolean; rules: CountryRule[] }) {
+  const rows: Array<CountryRule | null> = [...props.rules, ...Array.from({ length: COUNTRY_BLANK_ROWS }, () => null)];
+  const columns = "110px minmax(0, 1fr) minmax(0, 1fr) minmax(0, 1fr) minmax(0, 1.3fr)";
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Calling countries</div>
+      <div style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.45)" }}>
+        Matched on the phone number&apos;s country code (shipping country if the number has none). Blank overrides use the
+        shop-wide settings above. Clear the country to remove a row.
+      </div>
+
+      <label style={{ display: "flex", alignItems: "center", gap: 10, fontWeight: 1000 }}>
+        <input type="checkbox" name="countryRestrict" defaultChecked={props.restrict} />
+        Only call the countries listed below
+      </label>
+
+      <input type="hidden" name="countryRowCount" value={rows.length} />
+
+      <div style={{ display: "grid", gap: 8 }}>
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: columns,
+            gap: 12,
+            fontSize: 12,
+            fontWeight: 1000,
+            color: "rgba(17,24,39,0.55)",
+          }}
+        >
+          <div>Country</div>
+          <div>Window start</div>
+          <div>Window end</div>
+          <div>Max calls</div>
+          <div>Consent</div>
+        </div>
+        {rows.map((r, i) => (
+          <div key={r?.country ?? `new-${i}`} style={{ display: "grid", gridTemplateColumns: columns, gap: 12, alignItems: "center" }}>
+            <Input name={`country_${i}_code`} defaultValue={r?.country ?? ""} placeholder="US" maxLength={2} />
+            <Input name={`country_${i}_start`} defaultValue={r?.callWindowStart ?? ""} placeholder="Shop window" />
+            <Input name={`country_${i}_end`} defaultValue={r?.callWindowEnd ?? ""} placeholder="Shop window" />
+            <Input name={`country_${i}_max`} defaultValue={r?.maxAttempts ?? ""} placeholder="Shop max" inputMode="numeric" />
+            <Select name={`country_${i}_consent`} defaultValue={r?.consent ?? "inherit"}>
+              <option value="inherit">Shop consent policy</option>
+              <option value="required">Always require consent</option>
+              <option value="not_required">No consent needed</option>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function formatDelay(minutes: number) {
+  if (minutes < 60) return `${minutes}m`;
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m ? `${h}h ${m}m` : `${h}h`;
+}
+
+function RetryPreviewTable(props: { preview: { timezone: string; rows: RetryPreview[] } }) {
+  const fmt = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, {
+      timeZone: props.preview.timezone,
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  return (
+    <div
+      style={{
+        border: "1px solid rgba(0,0,0,0.08)",
+        borderRadius: 14,
+        padding: 12,
+        background: "rgba(0,0,0,0.02)",
+        display: "grid",
+        gap: 10,
+      }}
+    >
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <div style={{ fontWeight: 1000, fontSize: 12, color: "rgba(17,24,39,0.70)" }}>Attempt timeline (saved policy)</div>
+        <Pill title="Times shown in shop time">{props.preview.timezone}</Pill>
+      </div>
+      <div style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.45)" }}>
+        If a checkout abandoned now and every call ended the same way. Times are moved into the call schedule.
+      </div>
+      {props.preview.rows.map((row) => (
+        <div key={row.outcome} style={{ display: "grid", gap: 6 }}>
+          <div style={{ fontWeight: 1000, fontSize: 12 }}>Every call: {row.label}</div>
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+            {row.steps.map((step) => (
+              <Pill
+                key={step.attempt}
+                tone={step.attempt === 1 ? "blue" : "neutral"}
+                title={
+                  step.jitterMinutes
+                    ? `Wait ${formatDelay(step.delayMinutes)} (jitter ${formatDelay(step.jitterMinutes.min)}–${formatDelay(step.jitterMinutes.max)})`
+                    : "First call"
+                }
+              >
+                #{step.attempt} {fmt(step.at)}
+                {step.jitterMinutes ? ` (+${formatDelay(step.delayMinutes)})` : ""}
+              </Pill>
+            ))}
+            <span style={{ fontWeight: 900, fontSize: 11, color: "rgba(17,24,39,0.45)" }}>stops: {row.stopReason}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function SettingsRoute() {
-  const { shop, settings } = useLoaderData<typeof loader>();
+  const { shop, settings, retryPreview } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as
+    | {
+        error?: string;
+        vapiTest?: { ok: boolean; checks: Array<{ label: string; ok: boolean; detail: string }> };
+        generatedWebhookSecret?: string;
+      }
+    | undefined;
 
   return (
     <div style={{ padding: 16, minWidth: 0 }}>
@@ -514,14 +1014,10 @@ export default function SettingsRoute() {
                 <Input name="minOrderValue" defaultValue={settings.minOrderValue} inputMode="decimal" />
               </Field>
 
-              <Field label="Max call attempts" hint="Per checkout.">
+              <Field label="Max calls per checkout" hint="Lifetime cap across all attempts and outcomes.">
                 <Input name="maxAttempts" defaultValue={settings.maxAttempts} inputMode="numeric" />
               </Field>
 
-              <Field label="Retry delay (minutes)" hint="Delay between attempts when call fails.">
-                <Input name="retryMinutes" defaultValue={settings.retryMinutes} inputMode="numeric" />
-              </Field>
-
               <Field label="Currency" hint="Formatting only. Example: USD, EUR.">
                 <Input name="currency" defaultValue={settings.currency} />
               </Field>
@@ -529,16 +1025,228 @@ export default function SettingsRoute() {
 
             <Divider />
 
+            <div style={{ display: "grid", gap: 10 }}>
+              <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Retry policy</div>
+              <div style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.45)" }}>
+                Per outcome of the last call. The n-th retry waits base × factor^(n−1) minutes (up to the max delay),
+                ± jitter, counted from when the call ended. Wrong numbers and “not interested” are never retried.
+              </div>
+
+              <div style={{ display: "grid", gap: 8 }}>
+                <div
+                  style={{
+                    display: "grid",
+                    gridTemplateColumns: "200px 80px minmax(0, 1fr) minmax(0, 1fr)",
+                    gap: 12,
+                    fontSize: 12,
+                    fontWeight: 1000,
+                    color: "rgba(17,24,39,0.55)",
+                  }}
+                >
+                  <div>Outcome</div>
+                  <div>Retry</div>
+                  <div>Base delay (minutes)</div>
+                  <div>Max retries</div>
+                </div>
+                {RETRY_ROWS.map((r) => {
+                  const rule = settings.retryRules[r.outcome];
+                  return (
+                    <div
+                      key={r.outcome}
+                      style={{ display: "grid", gridTemplateColumns: "200px 80px minmax(0, 1fr) minmax(0, 1fr)", gap: 12, alignItems: "center" }}
+                    >
+                      <div style={{ display: "grid", gap: 2 }}>
+                        <div style={{ fontWeight: 1000, fontSize: 13 }}>{r.label}</div>
+                        <div style={{ fontWeight: 900, fontSize: 11, color: "rgba(17,24,39,0.45)" }}>{r.hint}</div>
+                      </div>
+                      <input type="checkbox" name={`retry_${r.outcome}_enabled`} defaultChecked={rule.retry} />
+                      <Input name={`retry_${r.outcome}_base`} defaultValue={rule.baseMinutes} inputMode="numeric" />
+                      <Input name={`retry_${r.outcome}_max`} defaultValue={rule.maxRetries} inputMode="numeric" />
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(3, minmax(0, 1fr))", gap: 12 }}>
+                <Field label="Backoff factor" hint="1 = same delay every retry, 2 = doubles.">
+                  <Input name="retryBackoffFactor" defaultValue={settings.backoffFactor} inputMode="decimal" />
+                </Field>
+                <Field label="Jitter (%)" hint="Random spread so retries don't land together.">
+                  <Input name="retryJitterPercent" defaultValue={settings.jitterPercent} inputMode="numeric" />
+                </Field>
+                <Field label="Max delay (minutes)" hint="Upper bound for any single wait.">
+                  <Input name="retryMaxDelayMinutes" defaultValue={settings.maxDelayMinutes} inputMode="numeric" />
+                </Field>
+              </div>
+
+              <RetryPreviewTable preview={retryPreview} />
+            </div>
+
+            <Divider />
+
             <div style={{ display: "grid", gap: 10 }}>
               <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Call window</div>
               <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: 12 }}>
-                <Field label="Start (HH:MM)" hint="Local store time. Example: 09:00">
+                <Field label="Start (HH:MM)" hint="Example: 09:00">
                   <Input name="callWindowStart" defaultValue={settings.callWindowStart} placeholder="09:00" />
                 </Field>
 
-                <Field label="End (HH:MM)" hint="Local store time. Example: 19:00">
+                <Field label="End (HH:MM)" hint="Example: 19:00">
                   <Input name="callWindowEnd" defaultValue={settings.callWindowEnd} placeholder="19:00" />
                 </Field>
+
+                <Field
+                  label="Window timezone"
+                  hint="Customer local time uses the shipping/billing address or phone country code. Falls back to shop time when unknown."
+                >
+                  <Select name="callTimezoneMode" defaultValue={settings.callTimezoneMode}>
+                    <option value="customer">Customer local time</option>
+                    <option value="shop">Shop time</option>
+                  </Select>
+                </Field>
+
+                <Field label="Shop timezone" hint="From Shopify. Refreshed on checkout sync.">
+                  <div style={{ display: "flex", alignItems: "center", minHeight: 40 }}>
+                    <Pill title="Shop timezone">{settings.shopTimezone ?? "Not synced yet"}</Pill>
+                  </div>
+                </Field>
+              </div>
+            </div>
+
+            <Divider />
+
+            <div style={{ display: "grid", gap: 10 }}>
+              <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Weekly schedule</div>
+              <div style={{ fontSize: 12, color: "rgba(17,24,39,0.55)" }}>
+                Leave times blank to use the call window above. Unchecked days are never dialed.
+              </div>
+              <div style={{ display: "grid", gap: 8 }}>
+                {settings.weeklySchedule.map((d) => (
+                  <div
+                    key={d.day}
+                    style={{ display: "grid", gridTemplateColumns: "160px minmax(0, 1fr) minmax(0, 1fr)", gap: 12, alignItems: "center" }}
+                  >
+                    <label style={{ display: "flex", alignItems: "center", gap: 10, fontWeight: 1000 }}>
+                      <input name={`day${d.day}_enabled`} type="checkbox" defaultChecked={d.enabled} />
+                      {d.label}
+                    </label>
+                    <Input name={`day${d.day}_start`} defaultValue={d.start ?? ""} placeholder={settings.callWindowStart} />
+                    <Input name={`day${d.day}_end`} defaultValue={d.end ?? ""} placeholder={settings.callWindowEnd} />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Divider />
+
+            <Field
+              label="Blackout dates"
+              hint="One per line: 2026-12-25 Christmas, or a range 2026-11-27..2026-11-30 Black Friday. Jobs due on these days move to the next open slot."
+            >
+              <TextArea name="blackoutDates" defaultValue={settings.blackoutDates} rows={4} placeholder="2026-12-25 Christmas" />
+            </Field>
+
+            <Divider />
+
+            <div style={{ display: "grid", gap: 10 }}>
+              <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Call consent</div>
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: 12 }}>
+                <Field
+                  label="Consent policy"
+                  hint="Consent comes from the checkout consent checkbox, a _call_consent cart attribute, or SMS marketing opt-in."
+                >
+                  <Select name="consentPolicy" defaultValue={settings.consentPolicy}>
+                    <option value="none">No consent needed</option>
+                    <option value="required">Require consent</option>
+                    <option value="required_countries">Require consent in these countries</option>
+                  </Select>
+                </Field>
+
+                <Field label="Consent countries" hint="ISO codes, comma separated. Example: US, CA, DE. Unknown country counts as required.">
+                  <Input name="consentCountries" defaultValue={settings.consentCountries} placeholder="US, CA" />
+                </Field>
+              </div>
+            </div>
+
+            <Divider />
+
+            <CountryRulesEditor restrict={settings.countryRestrict} rules={settings.countryRules} />
+
+            <Divider />
+
+            <div style={{ display: "grid", gap: 10 }}>
+              <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Budget caps</div>
+              <div style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.45)" }}>
+                Checked before every call; leave blank for no cap. Calls over a cap wait as throttled until the next day or
+                month (shop time). Minutes and spend come from the provider&apos;s call reports.
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(3, minmax(0, 1fr))", gap: 12 }}>
+                <Field label="Calls per day">
+                  <Input name="budgetCallsPerDay" defaultValue={settings.budgetCallsPerDay ?? ""} inputMode="numeric" placeholder="No cap" />
+                </Field>
+                <Field label="Call minutes per month">
+                  <Input
+                    name="budgetMinutesPerMonth"
+                    defaultValue={settings.budgetMinutesPerMonth ?? ""}
+                    inputMode="numeric"
+                    placeholder="No cap"
+                  />
+                </Field>
+                <Field label="Spend per month (USD)">
+                  <Input
+                    name="budgetSpendPerMonth"
+                    defaultValue={settings.budgetSpendPerMonth ?? ""}
+                    inputMode="decimal"
+                    placeholder="No cap"
+                  />
+                </Field>
+              </div>
+            </div>
+
+            <Divider />
+
+            <div style={{ display: "grid", gap: 10 }}>
+              <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Concurrent calls</div>
+              <div style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.45)" }}>
+                Calls over a limit stay queued (in order) until a line frees up.
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: 12 }}>
+                <Field label="Max live calls for this shop">
+                  <Input name="maxConcurrentCalls" defaultValue={settings.maxConcurrentCalls} inputMode="numeric" />
+                </Field>
+                <Field
+                  label="Max live calls per outbound number"
+                  hint="Only for your own Vapi number; the platform number has a platform-wide limit."
+                >
+                  <Input name="maxConcurrentPerNumber" defaultValue={settings.maxConcurrentPerNumber} inputMode="numeric" />
+                </Field>
+              </div>
+            </div>
+
+            <Divider />
+
+            <AttributionSettings
+              windowDays={settings.attributionWindowDays}
+              rules={settings.attributionRules}
+              outcomes={settings.attributionOutcomes}
+              model={settings.attributionModel}
+            />
+
+            <Divider />
+
+            <div style={{ display: "grid", gap: 10 }}>
+              <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Holdout control group</div>
+              <div style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.45)" }}>
+                This share of checkouts that would get their first call is never called, so the{" "}
+                <Link to="/app/lift" style={{ color: "inherit" }}>
+                  lift report
+                </Link>{" "}
+                can compare them with called checkouts. A checkout keeps its group when the percentage changes.
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(3, minmax(0, 1fr))", gap: 12 }}>
+                <Field label="Holdout (%)" hint="0 = off, max 50.">
+                  <Input name="holdoutPercent" defaultValue={settings.holdoutPercent} inputMode="numeric" />
+                </Field>
               </div>
             </div>
 
@@ -547,14 +1255,184 @@ export default function SettingsRoute() {
             <div style={{ display: "grid", gap: 10 }}>
               <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Vapi</div>
               <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: 12 }}>
-                <Field label="Assistant ID" hint="Optional: store-level override.">
+                <Field
+                  label="API key"
+                  hint={
+                    settings.vapiApiKeyMasked
+                      ? `Stored encrypted (${settings.vapiApiKeyMasked}). Leave blank to keep it.`
+                      : settings.platformVapi.apiKey
+                      ? "Blank = use the platform default key."
+                      : "Required: no platform default key is configured."
+                  }
+                >
+                  <Input
+                    name="vapiApiKey"
+                    type="password"
+                    autoComplete="off"
+                    placeholder={settings.vapiApiKeyMasked ?? ""}
+                    disabled={!settings.encryptionReady}
+                  />
+                </Field>
+
+                <Field label="Stored key" hint="Remove this shop's key and fall back to the platform default.">
+                  <label style={{ display: "flex", alignItems: "center", gap: 10, fontWeight: 1000, minHeight: 40 }}>
+                    <input name="vapiApiKeyClear" type="checkbox" disabled={!settings.vapiApiKeyMasked} />
+                    Clear stored API key
+                  </label>
+                </Field>
+
+                <Field
+                  label="Assistant ID"
+                  hint={settings.platformVapi.assistantId ? "Blank = platform default assistant." : "Required for this shop."}
+                >
                   <Input name="vapiAssistantId" defaultValue={settings.vapiAssistantId ?? ""} />
                 </Field>
 
-                <Field label="Phone Number ID" hint="Optional: store-level override.">
+                <Field
+                  label="Phone Number ID"
+                  hint={settings.platformVapi.phoneNumberId ? "Blank = platform default number." : "Required for this shop."}
+                >
                   <Input name="vapiPhoneNumberId" defaultValue={settings.vapiPhoneNumberId ?? ""} />
                 </Field>
               </div>
+
+              {!settings.encryptionReady ? (
+                <div style={{ fontSize: 12, fontWeight: 900, color: "#92400e" }}>
+                  APP_ENCRYPTION_KEY is not set on the server; per-shop API keys are disabled.
+                </div>
+              ) : null}
+
+              {actionData?.error ? (
+                <div style={{ fontSize: 12, fontWeight: 900, color: "#7f1d1d" }}>{actionData.error}</div>
+              ) : null}
+
+              <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                <button
+                  type="submit"
+                  name="intent"
+                  value="test_vapi"
+                  style={{
+                    padding: "8px 12px",
+                    borderRadius: 12,
+                    border: "1px solid rgba(0,0,0,0.12)",
+                    background: "white",
+                    cursor: "pointer",
+                    fontWeight: 1000,
+                  }}
+                >
+                  Save &amp; test connection
+                </button>
+
+                {actionData?.vapiTest ? (
+                  <Pill tone={actionData.vapiTest.ok ? "green" : "red"}>
+                    {actionData.vapiTest.ok ? "Connected" : "Connection failed"}
+                  </Pill>
+                ) : null}
+              </div>
+
+              {actionData?.vapiTest ? (
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                  {actionData.vapiTest.checks.map((c) => (
+                    <Pill key={c.label} tone={c.ok ? "green" : "red"} title={c.detail}>
+                      {c.label}: {c.detail}
+                    </Pill>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+
+            <Divider />
+
+            <div style={{ display: "grid", gap: 10 }}>
+              <div style={{ fontWeight: 1100, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>Webhook security</div>
+              <div style={{ fontSize: 12, color: "rgba(17,24,39,0.65)" }}>
+                Vapi callbacks are verified with an HMAC-SHA256 signature of the raw body. Configure the same secret
+                and header names on the Vapi server credential. Rejected requests show up under Logs.
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gap: 12 }}>
+                <Field
+                  label="Signing secret"
+                  hint={
+                    settings.webhookSecretMasked
+                      ? `Stored encrypted (${settings.webhookSecretMasked}). Leave blank to keep it.`
+                      : settings.platformWebhookSecret
+                      ? "Blank = use the platform default secret."
+                      : "Not set: only the legacy ?secret= URL can authenticate."
+                  }
+                >
+                  <Input
+                    name="webhookSigningSecret"
+                    type="password"
+                    autoComplete="off"
+                    placeholder={settings.webhookSecretMasked ?? ""}
+                    disabled={!settings.encryptionReady}
+                  />
+                </Field>
+
+                <Field label="Stored secret" hint="Remove this shop's secret and fall back to the platform default.">
+                  <label style={{ display: "flex", alignItems: "center", gap: 10, fontWeight: 1000, minHeight: 40 }}>
+                    <input name="webhookSigningSecretClear" type="checkbox" disabled={!settings.webhookSecretMasked} />
+                    Clear stored secret
+                  </label>
+                </Field>
+
+                <Field label="Signature header" hint="Default: x-vapi-signature">
+                  <Input name="webhookSignatureHeader" defaultValue={settings.webhookSignatureHeader} />
+                </Field>
+
+                <Field label="Timestamp header" hint="Optional. When sent, the signature covers timestamp.body.">
+                  <Input name="webhookTimestampHeader" defaultValue={settings.webhookTimestampHeader} />
+                </Field>
+
+                <Field label="Timestamp tolerance (seconds)" hint="Older or future-dated requests are rejected (30–3600).">
+                  <Input
+                    name="webhookToleranceSeconds"
+                    type="number"
+                    min={30}
+                    max={3600}
+                    defaultValue={settings.webhookToleranceSeconds}
+                  />
+                </Field>
+
+                <Field label="Legacy URL secret" hint="Accept unsigned requests with ?secret= in the webhook URL.">
+                  <label style={{ display: "flex", alignItems: "center", gap: 10, fontWeight: 1000, minHeight: 40 }}>
+                    <input
+                      name="webhookLegacySecretEnabled"
+                      type="checkbox"
+                      defaultChecked={settings.webhookLegacySecretEnabled}
+                    />
+                    Allow ?secret= fallback
+                  </label>
+                </Field>
+              </div>
+
+              <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                <button
+                  type="submit"
+                  name="intent"
+                  value="generate_webhook_secret"
+                  disabled={!settings.encryptionReady}
+                  style={{
+                    padding: "8px 12px",
+                    borderRadius: 12,
+                    border: "1px solid rgba(0,0,0,0.12)",
+                    background: "white",
+                    cursor: "pointer",
+                    fontWeight: 1000,
+                  }}
+                >
+                  Save &amp; generate new secret
+                </button>
+              </div>
+
+              {actionData?.generatedWebhookSecret ? (
+                <div style={{ display: "grid", gap: 6 }}>
+                  <div style={{ fontSize: 12, fontWeight: 900, color: "#92400e" }}>
+                    Copy this secret into Vapi now. It won&apos;t be shown again.
+                  </div>
+                  <Input readOnly value={actionData.generatedWebhookSecret} onFocus={(e) => e.currentTarget.select()} />
+                </div>
+              ) : null}
             </div>
           </div>
 
@@ -0,0 +1,264 @@
+// app/routes/app.timeline.$checkoutId.tsx
+import type { ReactNode } from "react";
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Link, useLoaderData, useRouteError } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { ensureSettings } from "../callRecovery.server";
+import { attributionConfigFromSettings } from "../lib/attribution.server";
+import {
+  creditWeights,
+  eligibleTouches,
+  pickAttributionModel,
+  type AttributionModel,
+} from "../lib/touchpoints.server";
+
+type TimelineEvent = {
+  id: string;
+  at: string;
+  channel: string; // call | sms | email | link | checkout | order
+  title: string;
+  detail: string | null;
+  // share of the recovered revenue under the shop's model (touches only, recovered checkouts only)
+  credit: number | null;
+};
+
+type LoaderData = {
+  shop: string;
+  currency: string;
+  model: AttributionModel;
+  checkout: {
+    checkoutId: string;
+    status: string;
+    customerName: string | null;
+    value: number;
+    recoveredAmount: number | null;
+  } | null;
+  events: TimelineEvent[];
+};
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  const checkoutId = String(params.checkoutId ?? "");
+
+  const settings = await ensureSettings(shop);
+  const model = pickAttributionModel(settings.attributionModel);
+  const currency = settings.currency || "USD";
+
+  const checkout = await db.checkout.findFirst({ where: { shop, checkoutId } });
+  if (!checkout) return { shop, currency, model, checkout: null, events: [] } satisfies LoaderData;
+
+  const [touches, jobs, orders] = await Promise.all([
+    db.touchpoint.findMany({ where: { shop, checkoutId }, orderBy: { occurredAt: "asc" } }),
+    db.callJob.findMany({ where: { shop, checkoutId }, select: { id: true, status: true, attempts: true } }),
+    db.order.findMany({
+      where: { shop, OR: [{ matchedCheckoutId: checkoutId }, { checkoutId }] },
+      select: { orderId: true, total: true, netTotal: true, createdAt: true, matchRule: true },
+    }),
+  ]);
+
+  // Credit shares for the touches that count under the current settings.
+  const credit = new Map<string, number>();
+  if (checkout.status === "RECOVERED" && checkout.recoveredAt) {
+    const eligible =
+      (await eligibleTouches(shop, [{ checkoutId, at: checkout.recoveredAt }], attributionConfigFromSettings(settings))).get(
+        checkoutId
+      ) ?? [];
+    const weights = creditWeights(eligible, checkout.recoveredAt, model);
+    eligible.forEach((t, i) => credit.set(t.id, weights[i]));
+  }
+
+  const jobById = new Map(jobs.map((j) => [j.id, j]));
+  const money = (n: number) => new Intl.NumberFormat(undefined, { style: "currency", currency }).format(n);
+
+  const events: TimelineEvent[] = [
+    {
+      id: "created",
+      at: checkout.createdAt.toISOString(),
+      channel: "checkout",
+      title: "Checkout started",
+      detail: money(checkout.value),
+      credit: null,
+    },
+  ];
+  if (checkout.abandonedAt) {
+    events.push({ id: "abandoned", at: checkout.abandonedAt.toISOString(), channel: "checkout", title: "Abandoned", detail: null, credit: null });
+  }
+
+  for (const t of touches) {
+    const job = t.kind === "call_attempt" ? jobById.get(t.refId) : null;
+    events.push({
+      id: t.id,
+      at: t.occurredAt.toISOString(),
+      channel: t.channel,
+      title:
+        t.kind === "call_attempt"
+          ? `Call${job ? ` · ${job.status}` : ""}`
+          : t.kind === "message_sent"
+          ? `${t.channel === "sms" ? "SMS" : "Email"} sent`
+          : "Recovery link clicked",
+      detail: t.detail,
+      credit: credit.has(t.id) ? credit.get(t.id)! : null,
+    });
+  }
+
+  for (const o of orders) {
+    events.push({
+      id: `order:${o.orderId}`,
+      at: o.createdAt.toISOString(),
+      channel: "order",
+      title: `Order ${o.orderId}`,
+      detail: [
+        o.total != null ? money(Number(o.netTotal ?? o.total)) : null,
+        o.matchRule ? `matched by ${o.matchRule}` : null,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      credit: null,
+    });
+  }
+
+  events.sort((a, b) => a.at.localeCompare(b.at));
+
+  return {
+    shop,
+    currency,
+    model,
+    checkout: {
+      checkoutId,
+      status: String(checkout.status),
+      customerName: checkout.customerName ?? null,
+      value: checkout.value,
+      recoveredAmount: checkout.recoveredAmount ?? null,
+    },
+    events,
+  } satisfies LoaderData;
+};
+
+function Pill(props: { children: ReactNode; tone?: "neutral" | "green" | "blue" | "amber" | "red"; title?: string }) {
+  const tone = props.tone ?? "neutral";
+  const t =
+    tone === "green"
+      ? { bg: "rgba(16,185,129,0.10)", bd: "rgba(16,185,129,0.25)", tx: "#065f46" }
+      : tone === "blue"
+      ? { bg: "rgba(59,130,246,0.10)", bd: "rgba(59,130,246,0.25)", tx: "#1e3a8a" }
+      : tone === "amber"
+      ? { bg: "rgba(245,158,11,0.10)", bd: "rgba(245,158,11,0.25)", tx: "#92400e" }
+      : tone === "red"
+      ? { bg: "rgba(239,68,68,0.10)", bd: "rgba(239,68,68,0.25)", tx: "#7f1d1d" }
+      : { bg: "rgba(0,0,0,0.04)", bd: "rgba(0,0,0,0.10)", tx: "rgba(0,0,0,0.75)" };
+
+  return (
+    <span
+      title={props.title}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        padding: "3px 10px",
+        borderRadius: 999,
+        border: `1px solid ${t.bd}`,
+        background: t.bg,
+        color: t.tx,
+        fontWeight: 950,
+        fontSize: 12,
+        whiteSpace: "nowrap",
+      }}
+    >
+      {props.children}
+    </span>
+  );
+}
+
+const CHANNEL_TONES: Record<string, "neutral" | "green" | "blue" | "amber" | "red"> = {
+  call: "blue",
+  sms: "green",
+  email: "amber",
+  link: "blue",
+  order: "green",
+};
+
+const MODEL_LABELS: Record<AttributionModel, string> = {
+  last_touch: "Last touch",
+  first_touch: "First touch",
+  linear: "Linear",
+  time_decay: "Time decay",
+};
+
+export default function CheckoutTimeline() {
+  const { shop, currency, model, checkout, events } = useLoaderData<typeof loader>();
+
+  const money = (n: number) =>
+    new Intl.NumberFormat(undefined, { style: "currency", currency, maximumFractionDigits: 2 }).format(n);
+
+  if (!checkout) {
+    return (
+      <div style={{ padding: 16, fontWeight: 900, fontSize: 13, color: "rgba(17,24,39,0.70)" }}>
+        Checkout not found. <Link to="/app/checkouts">Back to checkouts</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: 16, minWidth: 0 }}>
+      <div style={{ display: "grid", gap: 4, minWidth: 0 }}>
+        <div style={{ fontWeight: 1100, fontSize: 18, color: "rgba(17,24,39,0.92)" }}>
+          Checkout {checkout.checkoutId}
+          {checkout.customerName ? ` · ${checkout.customerName}` : ""}
+        </div>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <Pill title="Shop">{shop}</Pill>
+          <Pill tone={checkout.status === "RECOVERED" ? "green" : "neutral"}>{checkout.status}</Pill>
+          <Pill title="Cart value">{money(checkout.value)}</Pill>
+          {checkout.recoveredAmount != null ? <Pill tone="green" title="Net recovered">{money(checkout.recoveredAmount)} recovered</Pill> : null}
+          <Pill title="Settings → Attribution">{MODEL_LABELS[model]}</Pill>
+        </div>
+      </div>
+
+      <div style={{ marginTop: 12, border: "1px solid rgba(0,0,0,0.08)", borderRadius: 16, background: "white", overflow: "hidden" }}>
+        {events.map((e, i) => (
+          <div
+            key={e.id}
+            style={{
+              display: "grid",
+              gridTemplateColumns: "180px 90px minmax(0, 1fr) 140px",
+              gap: 12,
+              alignItems: "center",
+              padding: "10px 14px",
+              borderTop: i ? "1px solid rgba(0,0,0,0.06)" : undefined,
+            }}
+          >
+            <div style={{ fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.55)" }}>{new Date(e.at).toLocaleString()}</div>
+            <div>
+              <Pill tone={CHANNEL_TONES[e.channel] ?? "neutral"}>{e.channel}</Pill>
+            </div>
+            <div style={{ minWidth: 0 }}>
+              <div style={{ fontWeight: 1000, fontSize: 13, color: "rgba(17,24,39,0.85)" }}>{e.title}</div>
+              {e.detail ? (
+                <div style={{ fontWeight: 850, fontSize: 12, color: "rgba(17,24,39,0.50)", overflow: "hidden", textOverflow: "ellipsis" }}>
+                  {e.detail}
+                </div>
+              ) : null}
+            </div>
+            <div style={{ textAlign: "right", fontWeight: 950, fontSize: 12, color: "rgba(17,24,39,0.70)" }}>
+              {e.credit != null && checkout.recoveredAmount != null
+                ? `${Math.round(e.credit * 100)}% · ${money(checkout.recoveredAmount * e.credit)}`
+                : ""}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ marginTop: 10, fontWeight: 900, fontSize: 12, color: "rgba(17,24,39,0.45)" }}>
+        Credit shows each touch&apos;s share of the net recovered revenue under the current attribution model.
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useRouteError());
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
@@ -36,6 +36,9 @@ export default function App() {
         </a>
         <a href={withSearch("/app/checkouts")}>Checkouts</a>
         <a href={withSearch("/app/calls")}>Calls</a>
+        <a href={withSearch("/app/lift")}>Lift report</a>
+        <a href={withSearch("/app/do-not-call")}>Do not call</a>
+        <a href={withSearch("/app/logs")}>Logs</a>
         <a href={withSearch("/app/settings")}>Settings</a>
       </NavMenu>
 
@@ -0,0 +1,347 @@
+// app/routes/app.webhook-events.tsx
+import * as React from "react";
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, Link, useLoaderData, useRouteError } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import type { Prisma } from "@prisma/client";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { replayWebhookEvent } from "../lib/webhookInbox.server";
+import { formatWhen } from "../lib/callInsights.shared";
+
+const STATUSES = ["RECEIVED", "PROCESSING", "PROCESSED", "FAILED", "IGNORED"] as const;
+type Status = (typeof STATUSES)[number];
+
+type Row = {
+  id: string;
+  source: string;
+  topic: string;
+  externalId: string;
+  status: Status;
+  attempts: number;
+  duplicates: number;
+  error: string | null;
+  payloadExcerpt: string;
+  receivedAt: string;
+  processedAt: string | null;
+};
+
+function pickStatus(v: unknown): Status | null {
+  const s = String(v ?? "").trim().toUpperCase();
+  return (STATUSES as readonly string[]).includes(s) ? (s as Status) : null;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const url = new URL(request.url);
+  const status = pickStatus(url.searchParams.get("status"));
+  const source = String(url.searchParams.get("source") ?? "").trim() || null;
+  const replayed = url.searchParams.get("replayed");
+
+  const where: Prisma.WebhookEventWhereInput = { shop };
+  if (status) where.status = status;
+  if (source) where.source = source;
+
+  const [counts, events] = await Promise.all([
+    db.webhookEvent.groupBy({ by: ["status"], where: { shop }, _count: { _all: true } }),
+    db.webhookEvent.findMany({ where, orderBy: { receivedAt: "desc" }, take: 200 }),
+  ]);
+
+  const byStatus: Record<string, number> = {};
+  for (const c of counts) byStatus[c.status] = c._count._all;
+
+  const rows: Row[] = events.map((e) => ({
+    id: e.id,
+    source: e.source,
+    topic: e.topic,
+    externalId: e.externalId,
+    status: e.status as Status,
+    attempts: e.attempts,
+    duplicates: e.duplicates,
+    error: e.error,
+    payloadExcerpt: e.payload.slice(0, 3000),
+    receivedAt: e.receivedAt.toISOString(),
+    processedAt: e.processedAt ? e.processedAt.toISOString() : null,
+  }));
+
+  return { shop, status, source, byStatus, rows, replayed };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") ?? "");
+  const back = String(fd.get("back") ?? "");
+
+  let replayed = "";
+  if (intent === "replay") {
+    const id = String(fd.get("id") ?? "").trim();
+    if (id) replayed = (await replayWebhookEvent(shop, id)).status;
+  }
+
+  if (intent === "replay_failed") {
+    const failed = await db.webhookEvent.findMany({
+      where: { shop, status: "FAILED" },
+      orderBy: { receivedAt: "asc" },
+      select: { id: true },
+      take: 50,
+    });
+    let ok = 0;
+    for (const e of failed) {
+      const r = await replayWebhookEvent(shop, e.id);
+      if (r.status === "processed" || r.status === "ignored") ok += 1;
+    }
+    replayed = `${ok}/${failed.length}`;
+  }
+
+  const params = new URLSearchParams(back);
+  if (replayed) params.set("replayed", replayed);
+  const qs = params.toString();
+  return new Response(null, { status: 303, headers: { Location: `/app/webhook-events${qs ? `?${qs}` : ""}` } });
+};
+
+function Pill(props: { children: React.ReactNode; tone?: "neutral" | "green" | "blue" | "amber" | "red"; title?: string }) {
+  const tone = props.tone ?? "neutral";
+  const t =
+    tone === "green"
+      ? { bg: "rgba(16,185,129,0.10)", bd: "rgba(16,185,129,0.25)", tx: "#065f46" }
+      : tone === "blue"
+      ? { bg: "rgba(59,130,246,0.10)", bd: "rgba(59,130,246,0.25)", tx: "#1e3a8a" }
+      : tone === "amber"
+      ? { bg: "rgba(245,158,11,0.10)", bd: "rgba(245,158,11,0.25)", tx: "#92400e" }
+      : tone === "red"
+      ? { bg: "rgba(239,68,68,0.10)", bd: "rgba(239,68,68,0.25)", tx: "#7f1d1d" }
+      : { bg: "rgba(0,0,0,0.04)", bd: "rgba(0,0,0,0.10)", tx: "rgba(0,0,0,0.75)" };
+
+  return (
+    <span
+      title={props.title}
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        padding: "3px 10px",
+        borderRadius: 999,
+        border: `1px solid ${t.bd}`,
+        background: t.bg,
+        color: t.tx,
+        fontWeight: 950,
+        fontSize: 12,
+        whiteSpace: "nowrap",
+      }}
+    >
+      {props.children}
+    </span>
+  );
+}
+
+function statusTone(s: Status) {
+  if (s === "PROCESSED") return "green" as const;
+  if (s === "FAILED") return "red" as const;
+  if (s === "PROCESSING" || s === "RECEIVED") return "blue" as const;
+  return "neutral" as const;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 12,
+  border: "1px solid rgba(59,130,246,0.30)",
+  background: "rgba(59,130,246,0.10)",
+  cursor: "pointer",
+  fontWeight: 1000,
+};
+
+const selectStyle: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 12,
+  border: "1px solid rgba(0,0,0,0.12)",
+  background: "white",
+  fontWeight: 900,
+};
+
+export default function WebhookEventsRoute() {
+  const { shop, status, source, byStatus, rows, replayed } = useLoaderData<typeof loader>();
+
+  const back = new URLSearchParams();
+  if (status) back.set("status", status);
+  if (source) back.set("source", source);
+
+  const headerCell: React.CSSProperties = {
+    position: "sticky",
+    top: 0,
+    background: "white",
+    zIndex: 1,
+    borderBottom: "1px solid rgba(0,0,0,0.08)",
+    padding: "10px 10px",
+    fontSize: 12,
+    fontWeight: 1000,
+    color: "rgba(17,24,39,0.55)",
+    whiteSpace: "nowrap",
+    textAlign: "left",
+  };
+
+  const cell: React.CSSProperties = {
+    padding: "10px 10px",
+    borderBottom: "1px solid rgba(0,0,0,0.06)",
+    verticalAlign: "top",
+    fontSize: 13,
+    fontWeight: 900,
+    color: "rgba(17,24,39,0.78)",
+  };
+
+  return (
+    <div style={{ padding: 16, minWidth: 0 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <div style={{ display: "grid", gap: 4, minWidth: 0 }}>
+          <div style={{ fontWeight: 1100, fontSize: 18, color: "rgba(17,24,39,0.92)" }}>Webhook events</div>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            <Pill title="Shop">{shop}</Pill>
+            {STATUSES.map((s) => (
+              <Pill key={s} tone={byStatus[s] ? statusTone(s) : "neutral"}>
+                {s.toLowerCase()}: {byStatus[s] ?? 0}
+              </Pill>
+            ))}
+            {replayed ? <Pill tone="amber" title="Last replay">Replay: {replayed}</Pill> : null}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <Link to="/app/logs" style={{ fontSize: 13, fontWeight: 1000 }}>
+            Rejected webhooks
+          </Link>
+          <Form method="post">
+            <input type="hidden" name="intent" value="replay_failed" />
+            <input type="hidden" name="back" value={back.toString()} />
+            <button type="submit" disabled={!byStatus.FAILED} style={buttonStyle}>
+              Replay failed
+            </button>
+          </Form>
+        </div>
+      </div>
+
+      <div
+        style={{
+          marginTop: 12,
+          border: "1px solid rgba(0,0,0,0.08)",
+          borderRadius: 16,
+          overflow: "hidden",
+          background: "white",
+          boxShadow: "0 1px 0 rgba(0,0,0,0.03)",
+          minWidth: 0,
+        }}
+      >
+        <Form method="get" style={{ padding: 12, display: "flex", gap: 8, borderBottom: "1px solid rgba(0,0,0,0.06)" }}>
+          <select name="status" defaultValue={status ?? ""} style={selectStyle}>
+            <option value="">All statuses</option>
+            {STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {s.toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <select name="source" defaultValue={source ?? ""} style={selectStyle}>
+            <option value="">All sources</option>
+            <option value="shopify">Shopify</option>
+            <option value="vapi">Vapi</option>
+          </select>
+          <button type="submit" style={buttonStyle}>
+            Filter
+          </button>
+        </Form>
+
+        <div style={{ maxHeight: 650, overflow: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 900 }}>
+            <thead>
+              <tr>
+                <th style={headerCell}>Received</th>
+                <th style={headerCell}>Source</th>
+                <th style={headerCell}>Topic</th>
+                <th style={headerCell}>Status</th>
+                <th style={headerCell}>Attempts</th>
+                <th style={headerCell}>Duplicates</th>
+                <th style={headerCell}>Error / payload</th>
+                <th style={headerCell}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.length === 0 ? (
+                <tr>
+                  <td style={{ ...cell, color: "rgba(17,24,39,0.45)" }} colSpan={8}>
+                    No webhook events.
+                  </td>
+                </tr>
+              ) : (
+                rows.map((r) => (
+                  <tr key={r.id}>
+                    <td style={{ ...cell, whiteSpace: "nowrap" }}>
+                      {formatWhen(r.receivedAt)}
+                      {r.processedAt ? (
+                        <div style={{ fontSize: 11, color: "rgba(17,24,39,0.45)" }}>
+                          done {formatWhen(r.processedAt)}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td style={cell}>
+                      <Pill>{r.source}</Pill>
+                    </td>
+                    <td style={cell} title={r.externalId}>
+                      {r.topic}
+                    </td>
+                    <td style={cell}>
+                      <Pill tone={statusTone(r.status)}>{r.status.toLowerCase()}</Pill>
+                    </td>
+                    <td style={cell}>{r.attempts}</td>
+                    <td style={cell}>{r.duplicates || "-"}</td>
+                    <td style={{ ...cell, maxWidth: 420 }}>
+                      {r.error ? (
+                        <div style={{ color: r.status === "FAILED" ? "#7f1d1d" : "rgba(17,24,39,0.55)" }}>{r.error}</div>
+                      ) : null}
+                      <details>
+                        <summary style={{ cursor: "pointer" }}>Payload</summary>
+                        <pre
+                          style={{
+                            margin: "8px 0 0",
+                            whiteSpace: "pre-wrap",
+                            wordBreak: "break-all",
+                            fontSize: 11,
+                            fontWeight: 700,
+                            color: "rgba(17,24,39,0.70)",
+                          }}
+                        >
+                          {r.externalId}
+                          {"\n\n"}
+                          {r.payloadExcerpt}
+                        </pre>
+                      </details>
+                    </td>
+                    <td style={cell}>
+                      {r.status !== "PROCESSING" ? (
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="replay" />
+                          <input type="hidden" name="id" value={r.id} />
+                          <input type="hidden" name="back" value={back.toString()} />
+                          <button type="submit" style={{ ...buttonStyle, padding: "6px 10px" }}>
+                            Replay
+                          </button>
+                        </Form>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ErrorBoundary() {
+  return boundary.error(useRouteError());
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
@@ -0,0 +1,21 @@
+// app/routes/r.$token.ts
+import type { LoaderFunctionArgs } from "react-router";
+import { recordLinkClick, resolveRecoveryLink } from "../lib/recoveryLinks.server";
+
+// GET /r/:token — public recovery link (see lib/recoveryLinks.server.ts)
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const link = await resolveRecoveryLink(String(params.token ?? ""));
+  if (!link) return new Response("Not found", { status: 404 });
+
+  // The customer gets to their checkout even if logging fails.
+  try {
+    await recordLinkClick(link, {
+      userAgent: request.headers.get("user-agent"),
+      referer: request.headers.get("referer"),
+    });
+  } catch (e) {
+    console.error("[recovery link] click not recorded", link.id, e instanceof Error ? e.message : String(e));
+  }
+
+  return new Response(null, { status: 302, headers: { Location: link.targetUrl, "Cache-Control": "no-store" } });
+}
@@ -16,6 +16,16 @@ export async function action({ request }: ActionFunctionArgs) {
   await db.checkout.deleteMany({ where: { shop } });
   await db.order.deleteMany({ where: { shop } });
   await db.settings.deleteMany({ where: { shop } });
+  await db.suppression.deleteMany({ where: { shop } });
+  await db.callConsent.deleteMany({ where: { shop } });
+  await db.rejectedWebhook.deleteMany({ where: { shop } });
+  await db.webhookEvent.deleteMany({ where: { shop } });
+  await db.backgroundTask.deleteMany({ where: { shop } });
+  await db.checkoutSyncState.deleteMany({ where: { shop } });
+  await db.revenueAdjustment.deleteMany({ where: { shop } });
+  await db.touchpoint.deleteMany({ where: { shop } });
+  await db.linkClick.deleteMany({ where: { shop } });
+  await db.recoveryLink.deleteMany({ where: { shop } });
 
   return new Response("OK", { status: 200 });
 }
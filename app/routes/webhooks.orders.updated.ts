@@ -0,0 +1,12 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { ingestWebhook } from "../lib/webhookInbox.server";
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { topic, shop, payload, webhookId } = await authenticate.webhook(request);
+
+  if (topic !== "ORDERS_UPDATED") return new Response("Ignored", { status: 200 });
+
+  // Handler lives in lib/webhookHandlers/orders.server.ts; refunds are counted once per refund id.
+  return ingestWebhook({ source: "shopify", externalId: webhookId, topic, shop, payload: JSON.stringify(payload) });
+}
@@ -0,0 +1,33 @@
+// extensions/call-consent/src/Checkout.jsx
+import "@shopify/ui-extensions/preact";
+import { render } from "preact";
+
+// Keep in sync with app/lib/consent.server.ts
+const CONSENT_ATTRIBUTE = "_call_consent";
+const CONSENT_TEXT_ATTRIBUTE = "_call_consent_text";
+const CONSENT_SOURCE_ATTRIBUTE = "_call_consent_source";
+
+export default async () => {
+  render(<Extension />, document.body);
+};
+
+function Extension() {
+  const wording = String(shopify.settings.value.consent_text ?? "").trim() || shopify.i18n.translate("consentLabel");
+  const current = (shopify.attributes.value ?? []).find((a) => a.key === CONSENT_ATTRIBUTE);
+  const checked = current?.value === "yes";
+
+  async function onChange(event) {
+    const granted = Boolean(event.currentTarget.checked);
+    await shopify.applyAttributeChange({ type: "updateAttribute", key: CONSENT_ATTRIBUTE, value: granted ? "yes" : "no" });
+    await shopify.applyAttributeChange({ type: "updateAttribute", key: CONSENT_TEXT_ATTRIBUTE, value: wording });
+    await shopify.applyAttributeChange({
+      type: "updateAttribute",
+      key: CONSENT_SOURCE_ATTRIBUTE,
+      value: "checkout_extension",
+    });
+  }
+
+  if (!shopify.instructions.value.attributes.canUpdateAttributes) return null;
+
+  return <s-checkbox label={wording} checked={checked} onChange={onChange} />;
+}
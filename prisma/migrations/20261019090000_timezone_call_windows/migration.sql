@@ -0,0 +1,11 @@
+-- Checkout: customer location for local-time call windows
+alter table "Checkout" add column if not exists "countryCode" text;
+alter table "Checkout" add column if not exists "provinceCode" text;
+alter table "Checkout" add column if not exists "customerTimezone" text;
+
+-- CallJob: timezone the job was scheduled in
+alter table "CallJob" add column if not exists "timezone" text;
+
+-- Settings: "customer" (customer local time) or "shop" (shop IANA timezone)
+alter table "Settings" add column if not exists "callTimezoneMode" text not null default 'customer';
+alter table "Settings" add column if not exists "shopTimezone" text;
@@ -0,0 +1,3 @@
+-- Settings: per-weekday call windows + blackout dates (JSON, null = default window every day)
+alter table "Settings" add column if not exists "weeklyScheduleJson" text;
+alter table "Settings" add column if not exists "blackoutDatesJson" text;
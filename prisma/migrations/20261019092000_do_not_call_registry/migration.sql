@@ -0,0 +1,17 @@
+-- Do-Not-Call registry (per-shop suppression list)
+create table if not exists "Suppression" (
+    "id" text not null,
+    "shop" text not null,
+    "phone" text,
+    "email" text,
+    "reason" text,
+    "source" text not null default 'manual',
+    "callJobId" text,
+    "createdAt" timestamp(3) not null default current_timestamp,
+
+    constraint "Suppression_pkey" primary key ("id")
+);
+
+create index if not exists "Suppression_shop_phone_idx" on "Suppression"("shop", "phone");
+create index if not exists "Suppression_shop_email_idx" on "Suppression"("shop", "email");
+create index if not exists "Suppression_shop_createdAt_idx" on "Suppression"("shop", "createdAt");
@@ -0,0 +1,20 @@
+-- Call consent captured at checkout + shop-level consent policy
+create table if not exists "CallConsent" (
+    "id" text not null,
+    "shop" text not null,
+    "checkoutId" text not null,
+    "granted" boolean not null,
+    "source" text not null,
+    "wording" text,
+    "capturedAt" timestamp(3) not null,
+    "createdAt" timestamp(3) not null default current_timestamp,
+    "updatedAt" timestamp(3) not null,
+
+    constraint "CallConsent_pkey" primary key ("id")
+);
+
+create unique index if not exists "CallConsent_shop_checkoutId_key" on "CallConsent"("shop", "checkoutId");
+create index if not exists "CallConsent_shop_capturedAt_idx" on "CallConsent"("shop", "capturedAt");
+
+alter table "Settings" add column if not exists "consentPolicy" text not null default 'none';
+alter table "Settings" add column if not exists "consentCountries" text;
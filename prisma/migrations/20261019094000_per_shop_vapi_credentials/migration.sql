@@ -0,0 +1,2 @@
+-- Settings: per-shop Vapi API key (encrypted at rest; assistant/phone ids already exist)
+alter table "Settings" add column if not exists "vapiApiKeyEnc" text;
@@ -0,0 +1,23 @@
+-- Settings: HMAC verification for provider webhooks
+alter table "Settings" add column if not exists "webhookSigningSecretEnc" text;
+alter table "Settings" add column if not exists "webhookSignatureHeader" text not null default 'x-vapi-signature';
+alter table "Settings" add column if not exists "webhookTimestampHeader" text not null default 'x-vapi-timestamp';
+alter table "Settings" add column if not exists "webhookToleranceSeconds" integer not null default 300;
+alter table "Settings" add column if not exists "webhookLegacySecretEnabled" boolean not null default true;
+
+-- Rejected webhook log (admin: Logs)
+create table if not exists "RejectedWebhook" (
+    "id" text not null,
+    "shop" text,
+    "source" text not null,
+    "reason" text not null,
+    "ip" text,
+    "headersJson" text,
+    "bodyExcerpt" text,
+    "createdAt" timestamp(3) not null default current_timestamp,
+
+    constraint "RejectedWebhook_pkey" primary key ("id")
+);
+
+create index if not exists "RejectedWebhook_shop_createdAt_idx" on "RejectedWebhook"("shop", "createdAt");
+create index if not exists "RejectedWebhook_createdAt_idx" on "RejectedWebhook"("createdAt");
@@ -0,0 +1,28 @@
+-- Webhook inbox: dedupe by delivery id, keep status/errors/payload for replay
+do $$ begin
+    create type "WebhookEventStatus" as enum ('RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED', 'IGNORED');
+exception
+    when duplicate_object then null;
+end $$;
+
+create table if not exists "WebhookEvent" (
+    "id" text not null,
+    "source" text not null,
+    "externalId" text not null,
+    "topic" text not null,
+    "shop" text,
+    "status" "WebhookEventStatus" not null default 'RECEIVED',
+    "attempts" integer not null default 0,
+    "duplicates" integer not null default 0,
+    "error" text,
+    "payload" text not null,
+    "receivedAt" timestamp(3) not null default current_timestamp,
+    "processedAt" timestamp(3),
+    "updatedAt" timestamp(3) not null,
+
+    constraint "WebhookEvent_pkey" primary key ("id")
+);
+
+create unique index if not exists "WebhookEvent_source_externalId_key" on "WebhookEvent"("source", "externalId");
+create index if not exists "WebhookEvent_shop_status_receivedAt_idx" on "WebhookEvent"("shop", "status", "receivedAt");
+create index if not exists "WebhookEvent_shop_receivedAt_idx" on "WebhookEvent"("shop", "receivedAt");
@@ -0,0 +1,10 @@
+-- Call outcomes: distinguish connected / no-answer / voicemail / busy from "completed"
+alter type "CallJobStatus" add value if not exists 'IN_PROGRESS';
+alter type "CallJobStatus" add value if not exists 'NO_ANSWER';
+alter type "CallJobStatus" add value if not exists 'VOICEMAIL';
+alter type "CallJobStatus" add value if not exists 'BUSY';
+
+-- Per-outcome retry delays (minutes, 0 = never retry that outcome)
+alter table "Settings" add column if not exists "retryNoAnswerMinutes" integer not null default 60;
+alter table "Settings" add column if not exists "retryBusyMinutes" integer not null default 20;
+alter table "Settings" add column if not exists "retryVoicemailMinutes" integer not null default 240;
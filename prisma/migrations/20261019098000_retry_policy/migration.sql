@@ -0,0 +1,3 @@
+-- Retry policy: per-outcome rules, exponential backoff and jitter (JSON).
+-- Null keeps the behaviour of retryMinutes + retry{NoAnswer,Busy,Voicemail}Minutes.
+alter table "Settings" add column if not exists "retryPolicyJson" text;
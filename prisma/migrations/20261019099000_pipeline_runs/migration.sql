@@ -0,0 +1,39 @@
+-- Pipeline lease (one active cron / enqueue run) and run history
+do $$ begin
+    create type "PipelineRunStatus" as enum ('RUNNING', 'SUCCEEDED', 'PARTIAL', 'FAILED', 'SKIPPED');
+exception
+    when duplicate_object then null;
+end $$;
+
+create table if not exists "PipelineLease" (
+    "name" text not null,
+    "holder" text not null,
+    "acquiredAt" timestamp(3) not null default current_timestamp,
+    "expiresAt" timestamp(3) not null,
+    "updatedAt" timestamp(3) not null,
+
+    constraint "PipelineLease_pkey" primary key ("name")
+);
+
+create table if not exists "PipelineRun" (
+    "id" text not null,
+    "trigger" text not null,
+    "status" "PipelineRunStatus" not null default 'RUNNING',
+    "holder" text,
+    "shops" integer not null default 0,
+    "markedTotal" integer not null default 0,
+    "enqueuedTotal" integer not null default 0,
+    "shopErrors" integer not null default 0,
+    "shopResultsJson" text,
+    "reconciledJson" text,
+    "dialerJson" text,
+    "error" text,
+    "startedAt" timestamp(3) not null default current_timestamp,
+    "finishedAt" timestamp(3),
+    "durationMs" integer,
+
+    constraint "PipelineRun_pkey" primary key ("id")
+);
+
+create index if not exists "PipelineRun_startedAt_idx" on "PipelineRun"("startedAt");
+create index if not exists "PipelineRun_status_startedAt_idx" on "PipelineRun"("status", "startedAt");
@@ -0,0 +1,27 @@
+-- Background tasks: checkout sync + enqueue per shop, off the page loaders
+do $$ begin
+    create type "BackgroundTaskStatus" as enum ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED');
+exception
+    when duplicate_object then null;
+end $$;
+
+create table if not exists "BackgroundTask" (
+    "id" text not null,
+    "shop" text not null,
+    "kind" text not null,
+    "trigger" text not null,
+    "status" "BackgroundTaskStatus" not null default 'QUEUED',
+    "progress" integer not null default 0,
+    "stage" text,
+    "resultJson" text,
+    "error" text,
+    "createdAt" timestamp(3) not null default current_timestamp,
+    "startedAt" timestamp(3),
+    "finishedAt" timestamp(3),
+    "updatedAt" timestamp(3) not null,
+
+    constraint "BackgroundTask_pkey" primary key ("id")
+);
+
+create index if not exists "BackgroundTask_shop_createdAt_idx" on "BackgroundTask"("shop", "createdAt");
+create index if not exists "BackgroundTask_status_createdAt_idx" on "BackgroundTask"("status", "createdAt");
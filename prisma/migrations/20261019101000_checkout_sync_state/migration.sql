@@ -0,0 +1,15 @@
+-- Paginated abandoned-checkout sync: resumable cursor + updated_at watermark per shop
+create table if not exists "CheckoutSyncState" (
+    "shop" text not null,
+    "watermark" timestamp(3),
+    "backfillCompletedAt" timestamp(3),
+    "passQuery" text,
+    "passCursor" text,
+    "passMaxUpdatedAt" timestamp(3),
+    "passStartedAt" timestamp(3),
+    "lastRunAt" timestamp(3),
+    "lastReportJson" text,
+    "updatedAt" timestamp(3) not null,
+
+    constraint "CheckoutSyncState_pkey" primary key ("shop")
+);
@@ -0,0 +1,23 @@
+-- At most one active (QUEUED / CALLING / IN_PROGRESS) call job per checkout.
+-- Partial unique index, not expressible in schema.prisma; enqueue relies on it via createMany skipDuplicates.
+
+-- Existing duplicates: keep the most advanced (then newest) active job, cancel the rest.
+update "CallJob"
+set "status" = 'CANCELED', "outcome" = 'DUPLICATE_ACTIVE_JOB'
+where "id" in (
+    select "id" from (
+        select
+            "id",
+            row_number() over (
+                partition by "shop", "checkoutId"
+                order by ("status" = 'QUEUED') asc, "createdAt" desc
+            ) as rn
+        from "CallJob"
+        where "status" in ('QUEUED', 'CALLING', 'IN_PROGRESS')
+    ) ranked
+    where ranked.rn > 1
+);
+
+create unique index if not exists "CallJob_shop_checkoutId_active_key"
+    on "CallJob"("shop", "checkoutId")
+    where "status" in ('QUEUED', 'CALLING', 'IN_PROGRESS');
@@ -0,0 +1,6 @@
+-- E.164-normalized checkout phone + validation state and line-type guess.
+-- Existing rows stay null and are normalized on the next sync/webhook (enqueue normalizes on the fly meanwhile).
+alter table "Checkout" add column if not exists "phoneE164" text;
+alter table "Checkout" add column if not exists "phoneStatus" text;
+alter table "Checkout" add column if not exists "phoneLineType" text;
+alter table "Checkout" add column if not exists "phoneError" text;
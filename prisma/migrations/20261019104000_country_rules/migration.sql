@@ -0,0 +1,3 @@
+-- Destination-country allow-list with per-country call window, max calls and consent overrides (JSON).
+-- Null = every country allowed, shop-wide rules.
+alter table "Settings" add column if not exists "countryRulesJson" text;
@@ -0,0 +1,14 @@
+-- Budget caps: per-shop calls/day, minutes/month, spend/month (null = no cap).
+alter table "Settings" add column if not exists "budgetCallsPerDay" integer;
+alter table "Settings" add column if not exists "budgetMinutesPerMonth" integer;
+alter table "Settings" add column if not exists "budgetSpendPerMonth" double precision;
+
+-- Usage per call: dial time + provider-reported duration and cost.
+alter table "CallJob" add column if not exists "dialedAt" timestamp(3);
+alter table "CallJob" add column if not exists "durationSeconds" integer;
+alter table "CallJob" add column if not exists "costUsd" double precision;
+create index if not exists "CallJob_shop_dialedAt_idx" on "CallJob"("shop", "dialedAt");
+
+-- Jobs held back by a cap until the next day/month.
+-- (New enum values can't be used in the transaction that adds them; the index follows in the next migration.)
+alter type "CallJobStatus" add value if not exists 'THROTTLED';
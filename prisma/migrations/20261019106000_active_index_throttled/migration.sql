@@ -0,0 +1,6 @@
+-- THROTTLED jobs are still active: keep at most one QUEUED / THROTTLED / CALLING / IN_PROGRESS job per checkout.
+drop index if exists "CallJob_shop_checkoutId_active_key";
+
+create unique index if not exists "CallJob_shop_checkoutId_active_key"
+    on "CallJob"("shop", "checkoutId")
+    where "status" in ('QUEUED', 'THROTTLED', 'CALLING', 'IN_PROGRESS');
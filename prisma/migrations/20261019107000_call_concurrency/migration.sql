@@ -0,0 +1,7 @@
+-- Concurrency limits: live calls per shop and per outbound number.
+alter table "Settings" add column if not exists "maxConcurrentCalls" integer not null default 3;
+alter table "Settings" add column if not exists "maxConcurrentPerNumber" integer not null default 5;
+
+-- Outbound line each call was placed on (counted across shops when the platform number is shared).
+alter table "CallJob" add column if not exists "callerNumber" text;
+create index if not exists "CallJob_callerNumber_status_idx" on "CallJob"("callerNumber", "status");
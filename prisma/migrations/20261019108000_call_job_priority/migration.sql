@@ -0,0 +1,4 @@
+-- Dial priority per job (0-100, scored at enqueue), highest first within a shop.
+alter table "CallJob" add column if not exists "priority" double precision not null default 0;
+alter table "CallJob" add column if not exists "priorityReason" text;
+create index if not exists "CallJob_shop_status_priority_idx" on "CallJob"("shop", "status", "priority");
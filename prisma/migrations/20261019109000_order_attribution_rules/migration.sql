@@ -0,0 +1,15 @@
+-- Attribution settings: window (days after a call), match rules, eligible call outcomes.
+alter table "Settings" add column if not exists "attributionWindowDays" integer not null default 7;
+alter table "Settings" add column if not exists "attributionRules" text not null default 'checkout_id,checkout_token,email,phone';
+alter table "Settings" add column if not exists "attributionOutcomes" text not null default 'COMPLETED';
+
+-- Which checkout an order matched, by which rule, and the credited call.
+alter table "Order" add column if not exists "matchedCheckoutId" text;
+alter table "Order" add column if not exists "matchRule" text;
+alter table "Order" add column if not exists "attributedCallJobId" text;
+alter table "CallJob" add column if not exists "attributionRule" text;
+
+-- Fallback matching looks checkouts up by token / email / phone.
+create index if not exists "Checkout_shop_token_idx" on "Checkout"("shop", "token");
+create index if not exists "Checkout_shop_email_idx" on "Checkout"("shop", "email");
+create index if not exists "Checkout_shop_phoneE164_idx" on "Checkout"("shop", "phoneE164");
@@ -0,0 +1,29 @@
+-- Net recovered revenue: refunds and cancellations reduce the recovered / attributed amounts.
+alter table "Order" add column if not exists "refundedAmount" double precision not null default 0;
+alter table "Order" add column if not exists "cancelledAt" timestamp(3);
+alter table "Order" add column if not exists "netTotal" double precision;
+
+-- Gross stays what the order was placed for (existing rows: the amount recorded so far).
+alter table "Checkout" add column if not exists "recoveredGrossAmount" double precision;
+alter table "CallJob" add column if not exists "attributedGrossAmount" double precision;
+update "Checkout" set "recoveredGrossAmount" = "recoveredAmount" where "recoveredGrossAmount" is null and "recoveredAmount" is not null;
+update "CallJob" set "attributedGrossAmount" = "attributedAmount" where "attributedGrossAmount" is null and "attributedAmount" is not null;
+
+create table if not exists "RevenueAdjustment" (
+    "id" text not null,
+    "shop" text not null,
+    "orderId" text not null,
+    "kind" text not null,
+    "externalId" text not null,
+    "amount" double precision not null,
+    "netBefore" double precision not null,
+    "netAfter" double precision not null,
+    "note" text,
+    "occurredAt" timestamp(3) not null,
+    "createdAt" timestamp(3) not null default current_timestamp,
+
+    constraint "RevenueAdjustment_pkey" primary key ("id")
+);
+
+create unique index if not exists "RevenueAdjustment_shop_orderId_kind_externalId_key" on "RevenueAdjustment"("shop", "orderId", "kind", "externalId");
+create index if not exists "RevenueAdjustment_shop_occurredAt_idx" on "RevenueAdjustment"("shop", "occurredAt");
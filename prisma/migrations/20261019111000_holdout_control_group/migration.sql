@@ -0,0 +1,6 @@
+-- Holdout experiment: share of eligible checkouts that are never called (control group).
+alter table "Settings" add column if not exists "holdoutPercent" integer not null default 0;
+
+alter table "Checkout" add column if not exists "experimentGroup" text;
+alter table "Checkout" add column if not exists "experimentAssignedAt" timestamp(3);
+create index if not exists "Checkout_shop_experimentGroup_experimentAssignedAt_idx" on "Checkout"("shop", "experimentGroup", "experimentAssignedAt");
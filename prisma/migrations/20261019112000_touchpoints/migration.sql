@@ -0,0 +1,26 @@
+-- Multi-touch attribution: touchpoint log per checkout and the model used to split credit.
+alter table "Settings" add column if not exists "attributionModel" text not null default 'last_touch';
+
+create table if not exists "Touchpoint" (
+    "id" text not null,
+    "shop" text not null,
+    "checkoutId" text not null,
+    "channel" text not null,
+    "kind" text not null,
+    "refId" text not null,
+    "occurredAt" timestamp(3) not null,
+    "detail" text,
+    "createdAt" timestamp(3) not null default current_timestamp,
+
+    constraint "Touchpoint_pkey" primary key ("id")
+);
+
+create unique index if not exists "Touchpoint_shop_kind_refId_key" on "Touchpoint"("shop", "kind", "refId");
+create index if not exists "Touchpoint_shop_checkoutId_occurredAt_idx" on "Touchpoint"("shop", "checkoutId", "occurredAt");
+
+-- Calls placed before the log existed.
+insert into "Touchpoint" ("id", "shop", "checkoutId", "channel", "kind", "refId", "occurredAt")
+select 'call_' || "id", "shop", "checkoutId", 'call', 'call_attempt', "id", "dialedAt"
+from "CallJob"
+where "dialedAt" is not null
+on conflict do nothing;
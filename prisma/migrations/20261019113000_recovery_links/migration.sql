@@ -0,0 +1,35 @@
+-- Tracked recovery links: signed short links per call job, redirecting to the abandoned checkout.
+create table if not exists "RecoveryLink" (
+    "id" text not null,
+    "shop" text not null,
+    "checkoutId" text not null,
+    "callJobId" text,
+    "code" text not null,
+    "targetUrl" text not null,
+    "clicks" integer not null default 0,
+    "lastClickedAt" timestamp(3),
+    "expiresAt" timestamp(3),
+    "createdAt" timestamp(3) not null default current_timestamp,
+
+    constraint "RecoveryLink_pkey" primary key ("id")
+);
+
+create unique index if not exists "RecoveryLink_code_key" on "RecoveryLink"("code");
+create unique index if not exists "RecoveryLink_shop_callJobId_key" on "RecoveryLink"("shop", "callJobId");
+create index if not exists "RecoveryLink_shop_checkoutId_idx" on "RecoveryLink"("shop", "checkoutId");
+
+create table if not exists "LinkClick" (
+    "id" text not null,
+    "shop" text not null,
+    "linkId" text not null,
+    "checkoutId" text not null,
+    "callJobId" text,
+    "clickedAt" timestamp(3) not null,
+    "userAgent" text,
+    "referer" text,
+
+    constraint "LinkClick_pkey" primary key ("id")
+);
+
+create index if not exists "LinkClick_shop_callJobId_idx" on "LinkClick"("shop", "callJobId");
+create index if not exists "LinkClick_linkId_clickedAt_idx" on "LinkClick"("linkId", "clickedAt");
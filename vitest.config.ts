@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the server modules. Kept apart from vite.config.ts so the React Router
+// plugin (and its dev-server setup) isn't loaded for them.
+export default defineConfig({
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+  },
+});